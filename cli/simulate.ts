@@ -0,0 +1,333 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Command-line runs of the lab's simulations, for figures and lesson numbers
+// without a browser. The models are the ones in physics/, exactly as the
+// experiments step them.
+//
+//   npm run simulate -- bubbles --r1 12 --r2 8 --out pair.csv
+//   npm run simulate -- drainage --profile wedge --interval 30
+//   npm run simulate -- interference --max 1200 --angle 45 --format json
+//
+// Flags are `--name value` or `--name=value`. `--config run.json` reads the
+// same names from a JSON object; flags on the command line win. Output goes to
+// stdout, or to `--out`, as CSV or JSON (`--format`, else the file extension).
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import {
+  DEFAULT_CONFIG,
+  createBubbleSystem,
+  createPairSystem,
+  pipeFlows,
+  sampleBubbleSystem,
+  setPipeOpen,
+  type BubbleSpec,
+  type BubbleSystem,
+  type PipeState,
+} from '../physics/bubbles';
+import { DEFAULT_FLUID, FLUIDS, bubbleConfigFor, fluidById, resolveInterface, type InterfaceKind } from '../physics/fluids';
+import { celsiusToKelvin, kelvinToCelsius } from '../physics/units';
+import {
+  DEFAULT_DRAINAGE,
+  INITIAL_PROFILES,
+  blackFilmExtent,
+  createDrainage,
+  liquidContent,
+  sampleDrainage,
+  thicknessAt,
+  type InitialProfile,
+} from '../physics/drainage';
+import {
+  DEFAULT_COLOR_OPTIONS,
+  ILLUMINANTS,
+  filmColor,
+  meanReflectance,
+  opticalPathDifference,
+  type FilmParams,
+  type IlluminantId,
+  type Polarization,
+} from '../physics/thinFilm';
+
+type Params = Record<string, unknown>;
+type Row = Record<string, number | string>;
+
+interface Run {
+  /** Every parameter the run used, defaults included, so it can be repeated. */
+  params: Params;
+  rows: Row[];
+}
+
+const USAGE = `Usage: npm run simulate -- <command> [--flag value ...]
+
+Commands
+  bubbles       Connected bubbles: radius, pressure, gas and flow over time.
+                --r1 12 --r2 8 (mm)  --fluid ${FLUIDS.map((f) => f.id).join('|')}
+                --surface film|drop  --interval 0.05 (s)  --duration 60 (s)
+                --ambient 101.325 (kPa)  --temperature 20 (°C)
+                --pipe-radius 1 --pipe-length 110 (mm)
+                A network instead of the pair: "bubbles": [{ "id", "radius" }] and
+                "pipes": [{ "from", "to", "open"? }] in --config.
+  drainage      Vertical film draining under gravity: thickness profile over time.
+                --profile ${INITIAL_PROFILES.map((p) => p.id).join('|')}  --thickness 1000 (nm)
+                --interval 10 (s)  --duration 3600 (s)  --points 5 (depths sampled)
+  interference  Thin-film colour lookup table against thickness.
+                --min 0 --max 1500 --step 10 (nm)  --angle 0 (deg)  --n 1.33
+                --pol s|p|unpolarized  --light ${ILLUMINANTS.map((il) => il.id).join('|')}
+
+Options
+  --config file.json   Parameters as a JSON object; flags override it.
+  --out file           Write to a file instead of stdout.
+  --format csv|json    Defaults to the --out extension, else csv.
+`;
+
+class UsageError extends Error {}
+
+// --- Parameters ---
+
+const parseFlags = (args: string[]): Params => {
+  const flags: Params = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) throw new UsageError(`Unexpected argument "${arg}".`);
+    const eq = arg.indexOf('=');
+    if (eq > 0) flags[arg.slice(2, eq)] = arg.slice(eq + 1);
+    else if (i + 1 < args.length && !args[i + 1].startsWith('--')) flags[arg.slice(2)] = args[++i];
+    else flags[arg.slice(2)] = true;
+  }
+  return flags;
+};
+
+const readConfig = (path: string): Params => {
+  let config: unknown;
+  try {
+    config = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new UsageError(`Cannot read --config ${path}: ${(error as Error).message}`);
+  }
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new UsageError(`${path} must hold a JSON object.`);
+  }
+  return config as Params;
+};
+
+const num = (params: Params, name: string, fallback: number, min = -Infinity) => {
+  const value = params[name] ?? fallback;
+  const n = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(n) || n < min) throw new UsageError(`--${name} must be a number${min > -Infinity ? ` ≥ ${min}` : ''}.`);
+  return n;
+};
+
+const oneOf = <T extends string>(params: Params, name: string, fallback: T, allowed: readonly T[]): T => {
+  const value = String(params[name] ?? fallback);
+  if (!allowed.includes(value as T)) throw new UsageError(`--${name} must be one of ${allowed.join(', ')}.`);
+  return value as T;
+};
+
+/** `params[name]` as a list of objects, for the network entries in --config. */
+const entries = (params: Params, name: string): Params[] => {
+  const list = params[name] ?? [];
+  if (!Array.isArray(list) || list.some((e) => typeof e !== 'object' || e === null || Array.isArray(e))) {
+    throw new UsageError(`"${name}" in --config must be a list of objects.`);
+  }
+  return list;
+};
+
+const bubbleSpecs = (params: Params, minRadius: number): BubbleSpec[] => {
+  const specs = entries(params, 'bubbles').map((b, i): BubbleSpec => {
+    const where = `bubbles[${i}]`;
+    if (typeof b.id !== 'string' || !b.id) throw new UsageError(`${where}.id must be a non-empty string.`);
+    if (typeof b.radius !== 'number' || !Number.isFinite(b.radius) || b.radius < minRadius) {
+      throw new UsageError(`${where}.radius must be a number ≥ ${minRadius}.`);
+    }
+    return { id: b.id, radius: b.radius };
+  });
+  if (specs.length < 2) throw new UsageError('"bubbles" in --config needs at least two bubbles.');
+  const seen = new Set<string>();
+  specs.forEach((b) => {
+    if (seen.has(b.id)) throw new UsageError(`Bubble id "${b.id}" appears twice.`);
+    seen.add(b.id);
+  });
+  return specs;
+};
+
+const pipeStates = (params: Params, bubbles: BubbleSpec[]): PipeState[] => {
+  const ids = new Set(bubbles.map((b) => b.id));
+  return entries(params, 'pipes').map((p, i): PipeState => {
+    const where = `pipes[${i}]`;
+    (['from', 'to'] as const).forEach((end) => {
+      if (typeof p[end] !== 'string' || !ids.has(p[end] as string)) throw new UsageError(`${where}.${end} must be the id of a bubble.`);
+    });
+    if (p.from === p.to) throw new UsageError(`${where} joins a bubble to itself.`);
+    if (p.open !== undefined && typeof p.open !== 'boolean') throw new UsageError(`${where}.open must be true or false.`);
+    if (p.id !== undefined && typeof p.id !== 'string') throw new UsageError(`${where}.id must be a string.`);
+    return {
+      id: (p.id as string | undefined) ?? `${p.from}-${p.to}`,
+      from: p.from as string,
+      to: p.to as string,
+      open: (p.open as boolean | undefined) ?? true,
+    };
+  });
+};
+
+// --- Commands ---
+
+const bubbleRow = (system: BubbleSystem, flows: Record<string, number>): Row => {
+  const row: Row = { time_s: system.time };
+  system.bubbles.forEach((b) => {
+    row[`radius_${b.id}_mm`] = b.collapsed ? 0 : b.radius;
+    row[`pressure_${b.id}_Pa`] = b.collapsed ? 0 : b.pressure;
+    row[`gas_${b.id}_mol`] = b.moles;
+  });
+  system.pipes.forEach((p) => {
+    row[`flow_${p.id}_mm3_s`] = flows[p.id];
+  });
+  return row;
+};
+
+const runBubbles = (params: Params): Run => {
+  const fluid = fluidById(oneOf(params, 'fluid', DEFAULT_FLUID.id, FLUIDS.map((f) => f.id)));
+  const surface = resolveInterface(fluid, oneOf<InterfaceKind>(params, 'surface', 'film', ['film', 'drop']));
+  const config = {
+    ...bubbleConfigFor(fluid, surface),
+    ambientPressure: 1000 * num(params, 'ambient', DEFAULT_CONFIG.ambientPressure / 1000, 0),
+    temperature: celsiusToKelvin(num(params, 'temperature', kelvinToCelsius(DEFAULT_CONFIG.temperature), -273)),
+    pipeRadius: num(params, 'pipe-radius', DEFAULT_CONFIG.pipeRadius, 0.01),
+    pipeLength: num(params, 'pipe-length', DEFAULT_CONFIG.pipeLength, 1),
+  };
+  const interval = num(params, 'interval', 0.05, config.timeStep);
+  const duration = num(params, 'duration', 60, 0);
+
+  let system: BubbleSystem;
+  let used: Params;
+  if (params.bubbles !== undefined) {
+    const bubbles = bubbleSpecs(params, config.minRadius);
+    const pipes = pipeStates(params, bubbles);
+    system = createBubbleSystem(bubbles, pipes, config);
+    used = { bubbles, pipes };
+  } else {
+    const r1 = num(params, 'r1', 12, config.minRadius);
+    const r2 = num(params, 'r2', 8, config.minRadius);
+    system = setPipeOpen(createPairSystem(r1, r2, config), 'A-B', true);
+    used = { r1, r2 };
+  }
+
+  const rows = sampleBubbleSystem(system, interval, duration, config).map((s) => bubbleRow(s, pipeFlows(s, config)));
+  const surroundings = {
+    ambient: config.ambientPressure / 1000,
+    temperature: kelvinToCelsius(config.temperature),
+    'pipe-radius': config.pipeRadius,
+    'pipe-length': config.pipeLength,
+  };
+  return { params: { fluid: fluid.id, surface, ...surroundings, ...used, interval, duration }, rows };
+};
+
+const runDrainage = (params: Params): Run => {
+  const profile = oneOf<InitialProfile>(params, 'profile', 'uniform', INITIAL_PROFILES.map((p) => p.id));
+  const thickness = num(params, 'thickness', 1000, DEFAULT_DRAINAGE.ruptureThickness);
+  const interval = num(params, 'interval', 10, 1e-3);
+  const duration = num(params, 'duration', 3600, 0);
+  const points = Math.round(num(params, 'points', 5, 2));
+
+  const { height } = DEFAULT_DRAINAGE;
+  const depths = Array.from({ length: points }, (_, i) => (i / (points - 1)) * height);
+  const initial = createDrainage(profile, thickness);
+  const content = liquidContent(initial);
+
+  const rows = sampleDrainage(initial, interval, duration).map((s) => {
+    const row: Row = { time_s: s.time };
+    depths.forEach((z) => {
+      row[`h_${+z.toFixed(2)}mm_nm`] = thicknessAt(s, z);
+    });
+    row.black_mm = blackFilmExtent(s);
+    row.liquid_pct = (100 * liquidContent(s)) / content;
+    row.ruptured = s.ruptured ? 1 : 0;
+    return row;
+  });
+  return { params: { profile, thickness, interval, duration, points }, rows };
+};
+
+const hex = (rgb: number[]) => `#${rgb.map((c) => c.toString(16).padStart(2, '0')).join('')}`;
+
+const runInterference = (params: Params): Run => {
+  const min = num(params, 'min', 0, 0);
+  const max = num(params, 'max', 1500, min);
+  const step = num(params, 'step', 10, 0.1);
+  const angle = num(params, 'angle', 0, 0);
+  const n = num(params, 'n', 1.33, 1);
+  const polarization = oneOf<Polarization>(params, 'pol', 'unpolarized', ['s', 'p', 'unpolarized']);
+  const illuminant = oneOf<IlluminantId>(params, 'light', 'D65', ILLUMINANTS.map((il) => il.id));
+  if (angle >= 90) throw new UsageError('--angle must be below 90.');
+
+  const options = { ...DEFAULT_COLOR_OPTIONS, illuminant };
+  const rows: Row[] = [];
+  for (let d = min; d <= max + 1e-9; d += step) {
+    const film: FilmParams = { thickness: d, refractiveIndex: n, angle, polarization };
+    const rgb = filmColor(film, options);
+    rows.push({
+      thickness_nm: d,
+      opd_nm: opticalPathDifference(film),
+      r: rgb[0],
+      g: rgb[1],
+      b: rgb[2],
+      hex: hex(rgb),
+      reflectance: meanReflectance(film),
+    });
+  }
+  return { params: { min, max, step, angle, n, pol: polarization, light: illuminant }, rows };
+};
+
+const COMMANDS: Record<string, (params: Params) => Run> = {
+  bubbles: runBubbles,
+  drainage: runDrainage,
+  interference: runInterference,
+};
+
+// --- Output ---
+
+const cell = (value: number | string) =>
+  typeof value === 'number' ? String(+value.toPrecision(8)) : /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toCsv = (rows: Row[]) => {
+  // Later rows can only repeat the first row's columns, but take the union anyway.
+  const columns = [...new Set(rows.flatMap((r) => Object.keys(r)))];
+  const lines = [columns.map(cell).join(','), ...rows.map((r) => columns.map((c) => cell(r[c] ?? '')).join(','))];
+  return `${lines.join('\n')}\n`;
+};
+
+const toJson = (command: string, run: Run) => `${JSON.stringify({ command, ...run }, null, 2)}\n`;
+
+const main = (argv: string[]) => {
+  const [command, ...rest] = argv;
+  if (!command || command === '--help' || command === 'help') {
+    process.stdout.write(USAGE);
+    return command ? 0 : 1;
+  }
+  const run = COMMANDS[command];
+  if (!run) throw new UsageError(`Unknown command "${command}".`);
+
+  const flags = parseFlags(rest);
+  const params = { ...(typeof flags.config === 'string' ? readConfig(flags.config) : {}), ...flags };
+  const out = typeof params.out === 'string' ? params.out : null;
+  const format = oneOf(params, 'format', out && extname(out).toLowerCase() === '.json' ? 'json' : 'csv', ['csv', 'json']);
+
+  const result = run(params);
+  const text = format === 'json' ? toJson(command, result) : toCsv(result.rows);
+  if (out) {
+    writeFileSync(out, text);
+    process.stderr.write(`${command}: ${result.rows.length} rows → ${out}\n`);
+  } else {
+    process.stdout.write(text);
+  }
+  return 0;
+};
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (error) {
+  if (!(error instanceof UsageError)) throw error;
+  process.stderr.write(`${error.message}\n\n${USAGE}`);
+  process.exitCode = 1;
+}
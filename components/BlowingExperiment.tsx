@@ -0,0 +1,396 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { Canvas, useFrame } from '@react-three/fiber';
+import { Cylinder, Environment, OrbitControls, Sphere, Text, Torus } from '@react-three/drei';
+import { RotateCcw } from 'lucide-react';
+import { LineChart } from './LineChart';
+import { ThinFilmMaterial } from './ThinFilmMaterial';
+import { setText, type TextMesh } from './liveText';
+import { FrameDriver, PANEL_REFRESH_MS, TransportControls } from './TransportControls';
+import { useI18n } from '../i18n';
+import { enumParam, numberParam, useUrlParam } from './urlState';
+import {
+    BLOWING_CONFIG,
+    DETACH_HEIGHT,
+    advanceBlowing,
+    capFromVolume,
+    capVolume,
+    createBlowing,
+    equilibriumHeights,
+    hemisphere,
+    type BlowingState,
+} from '../physics/blowing';
+import { SCENE_UNITS_PER_MM, formatLength, formatPressure, formatVolume } from '../physics/units';
+
+// Blowing a bubble through a ring: a syringe sets the volume under the film,
+// or a steady supply sets the pressure behind it. The charts plot the excess
+// pressure against the cap's radius of curvature and against its volume.
+
+export type BlowingMode = 'volume' | 'pressure';
+
+export interface BlowingDefaults {
+    mode: BlowingMode;
+    /** Ring radius, mm. */
+    ring: number;
+}
+
+const MODE_PARAM = enumParam(['volume', 'pressure'] as const);
+const RING_PARAM = numberParam(5, 15);
+
+// The syringe stops short of the pinch-off height, in ring radii.
+const SYRINGE_HEIGHT = 2.5;
+// The radius chart runs out to this many ring radii.
+const RADIUS_RANGE = 5;
+const TRACE_LENGTH = 2000;
+const STEP_SECONDS = 1 / 30;
+const S = SCENE_UNITS_PER_MM;
+
+type Live = React.MutableRefObject<BlowingState>;
+
+// The film is the top of a sphere of radius R, centred R − h below the ring.
+// A nearly flat film has an enormous R, so it is drawn as a shallow cap.
+const capShape = (ring: number, height: number) => {
+    const h = Math.max(height, 0.02 * ring);
+    const r = (ring * ring + h * h) / (2 * h);
+    return { r, h, theta: Math.acos((r - h) / r) };
+};
+
+const capLabels = (ring: number, volume: number, locale: string) => {
+    const cap = capFromVolume(ring, volume);
+    return {
+        radius: `R = ${Number.isFinite(cap.radius) ? formatLength(cap.radius, locale) : '∞'}`,
+        pressure: `ΔP = ${formatPressure(cap.pressure, locale)}`,
+    };
+};
+
+// The film and its readouts follow `source` every frame, without a React
+// render; the cap's sphere is rebuilt only when its opening angle changes.
+// Past the hemisphere (`unstable`) the film is tinted.
+const FilmCap = ({ ring, source, unstable }: { ring: number, source: Live, unstable: boolean }) => {
+    const { locale } = useI18n();
+    const film = useRef<THREE.Group>(null);
+    const sphere = useRef<THREE.Mesh>(null);
+    const labels = useRef<THREE.Group>(null);
+    const radiusText = useRef<TextMesh>(null);
+    const pressureText = useRef<TextMesh>(null);
+    const [initial] = useState(() => {
+        const height = capFromVolume(ring, source.current.volume).height;
+        return { height, shape: capShape(ring, height), text: capLabels(ring, source.current.volume, locale) };
+    });
+    const theta = useRef(initial.shape.theta);
+
+    useEffect(() => () => sphere.current?.geometry.dispose(), []);
+
+    useFrame(() => {
+        if (!film.current || !sphere.current || !labels.current) return;
+        const { volume, detached } = source.current;
+        film.current.visible = !detached;
+        if (detached) return;
+        const height = capFromVolume(ring, volume).height;
+        const shape = capShape(ring, height);
+        if (Math.abs(shape.theta - theta.current) > 1e-4) {
+            theta.current = shape.theta;
+            sphere.current.geometry.dispose();
+            sphere.current.geometry = new THREE.SphereGeometry(1, 64, 32, 0, Math.PI * 2, 0, shape.theta);
+        }
+        sphere.current.scale.setScalar(shape.r * S);
+        sphere.current.position.y = (shape.h - shape.r) * S;
+        labels.current.position.y = Math.max(height, 0) * S + 0.15;
+        const text = capLabels(ring, volume, locale);
+        setText(radiusText.current, text.radius);
+        setText(pressureText.current, text.pressure);
+    });
+
+    return (
+        <group ref={film} visible={!source.current.detached}>
+            <Sphere
+                ref={sphere}
+                args={[1, 64, 32, 0, Math.PI * 2, 0, initial.shape.theta]}
+                scale={initial.shape.r * S}
+                position={[0, (initial.shape.h - initial.shape.r) * S, 0]}
+            >
+                <ThinFilmMaterial tint={unstable ? '#fef3c7' : '#ffffff'} />
+            </Sphere>
+            <group ref={labels} position={[0, Math.max(initial.height, 0) * S + 0.15, 0]}>
+                <Text ref={radiusText} position={[0, 0.3, 0]} fontSize={0.2} color="#666" anchorY="bottom">
+                    {initial.text.radius}
+                </Text>
+                <Text ref={pressureText} position={[0, 0.05, 0]} fontSize={0.2} color="#0066cc" anchorY="bottom">
+                    {initial.text.pressure}
+                </Text>
+            </group>
+        </group>
+    );
+};
+
+// Where the plunger sits for a syringe `fill` from empty (0) to full (1).
+const plungerY = (fill: number) => -0.55 + fill * 1.1;
+
+// Ring, straw and, when it is doing the blowing, the syringe with its plunger.
+const Rig = ({ ring, source, syringeMax }: { ring: number, source: Live, syringeMax: number | null }) => {
+    const plunger = useRef<THREE.Mesh>(null);
+    useFrame(() => {
+        if (plunger.current && syringeMax != null) plunger.current.position.y = plungerY(source.current.volume / syringeMax);
+    });
+    return (
+    <group>
+        <Torus args={[ring * S, 0.03, 16, 96]} rotation={[-Math.PI / 2, 0, 0]}>
+            <meshStandardMaterial color="#9ca3af" metalness={0.8} roughness={0.3} />
+        </Torus>
+        <Cylinder args={[BLOWING_CONFIG.pipeRadius * S, BLOWING_CONFIG.pipeRadius * S, 1.4, 16]} position={[0, -0.72, 0]}>
+            <meshStandardMaterial color="#e5e7eb" transparent opacity={0.8} metalness={0.5} roughness={0.2} />
+        </Cylinder>
+        {syringeMax != null && (
+            <group position={[0, -2, 0]}>
+                <Cylinder args={[0.35, 0.35, 1.2, 32, 1, true]}>
+                    <meshStandardMaterial color="#bfdbfe" transparent opacity={0.35} side={THREE.DoubleSide} />
+                </Cylinder>
+                <Cylinder ref={plunger} args={[0.33, 0.33, 0.06, 32]} position={[0, plungerY(source.current.volume / syringeMax), 0]}>
+                    <meshStandardMaterial color="#475569" />
+                </Cylinder>
+            </group>
+        )}
+    </group>
+    );
+};
+
+export const BlowingExperiment: React.FC<{ defaults: BlowingDefaults }> = ({ defaults }) => {
+    const { t, locale, formatNumber } = useI18n();
+    const [mode, setMode] = useUrlParam('mode', defaults.mode, MODE_PARAM);
+    const [ring, setRing] = useUrlParam('ring', defaults.ring, RING_PARAM);
+    // While playing, the live cap is in stateRef and advances in the render
+    // loop; `state` and `trace` are the snapshots the panel and charts show,
+    // refreshed every PANEL_REFRESH_MS.
+    const [state, setState] = useState<BlowingState>(() => createBlowing());
+    const stateRef = useRef(state);
+    // Every volume the cap has passed through, for the live trace.
+    const [trace, setTrace] = useState<number[]>([0]);
+    const traceRef = useRef(trace);
+    const lastPublish = useRef(0);
+    // Supply pressure as a fraction of the hemisphere peak, so it survives a change of ring.
+    const [supplyRatio, setSupplyRatio] = useState(0.9);
+    const [playing, setPlayingState] = useState(false);
+    const playingRef = useRef(playing);
+    const setPlaying = (value: boolean) => {
+        playingRef.current = value;
+        setPlayingState(value);
+    };
+    const [speed, setSpeed] = useState(1);
+    const speedRef = useRef(speed);
+    speedRef.current = speed;
+
+    const peak = hemisphere(ring);
+    const supply = supplyRatio * peak.pressure;
+    const syringeMax = capVolume(ring, SYRINGE_HEIGHT * ring);
+    const cap = capFromVolume(ring, state.volume);
+
+    const advance = (next: BlowingState) => {
+        stateRef.current = next;
+        traceRef.current = [...traceRef.current.slice(1 - TRACE_LENGTH), next.volume];
+    };
+
+    const publish = () => {
+        setState(stateRef.current);
+        setTrace(traceRef.current);
+    };
+
+    const commit = (next: BlowingState) => {
+        advance(next);
+        publish();
+    };
+
+    const reset = () => {
+        setPlaying(false);
+        stateRef.current = createBlowing();
+        traceRef.current = [0];
+        publish();
+    };
+
+    // A new ring changes what every volume means, so start over.
+    useEffect(reset, [ring]);
+
+    const play = () => {
+        lastPublish.current = performance.now();
+        setPlaying(true);
+    };
+
+    const pause = () => {
+        setPlaying(false);
+        publish();
+    };
+
+    // One render-loop frame of `delta` wall-clock seconds, scaled by the speed.
+    // The film follows stateRef every frame; React only hears about it a few
+    // times a second.
+    const tick = (delta: number) => {
+        if (!playingRef.current) return;
+        advance(advanceBlowing(stateRef.current, ring, supply, delta * speedRef.current));
+        if (stateRef.current.detached) {
+            pause();
+            return;
+        }
+        const now = performance.now();
+        if (now - lastPublish.current >= PANEL_REFRESH_MS) {
+            lastPublish.current = now;
+            publish();
+        }
+    };
+
+    // The cap carries over between modes: blow past the hemisphere with the
+    // syringe, then hand over to a steady supply and watch it run away.
+    const switchMode = (next: BlowingMode) => {
+        pause();
+        setMode(next);
+        const current = stateRef.current;
+        if (current.detached) reset();
+        else if (next === 'volume' && current.volume > syringeMax) commit({ ...current, volume: syringeMax });
+    };
+
+    const theory = useMemo(() => {
+        const byVolume: [number, number][] = [];
+        const byRadius: [number, number][] = [];
+        for (let i = 0; i <= 200; i++) {
+            const c = capFromVolume(ring, capVolume(ring, (i / 200) * DETACH_HEIGHT * ring));
+            byVolume.push([c.volume, c.pressure]);
+        }
+        for (let i = 0; i <= 100; i++) {
+            const r = ring * (1 + (i / 100) * (RADIUS_RANGE - 1));
+            byRadius.push([r, (peak.pressure * ring) / r]);
+        }
+        return { byVolume, byRadius };
+    }, [ring]);
+
+    const live = useMemo(() => {
+        const caps = trace.map((v) => capFromVolume(ring, v));
+        return {
+            byVolume: caps.map((c) => [c.volume, c.pressure] as [number, number]),
+            byRadius: caps.filter((c) => c.radius <= RADIUS_RANGE * ring).map((c) => [c.radius, c.pressure] as [number, number]),
+        };
+    }, [trace, ring]);
+
+    const maxVolume = capVolume(ring, DETACH_HEIGHT * ring);
+    const yDomain: [number, number] = [0, 1.6 * peak.pressure];
+    const theorySeries = { id: 'theory', label: t('blow.series.theory'), color: '#94a3b8', dashed: true };
+    const liveSeries = { id: 'live', label: t('blow.series.live'), color: '#2563eb' };
+    const supplySeries = { id: 'supply', label: t('blow.series.supply'), color: '#f97316', dashed: true, points: [[0, supply], [maxVolume, supply]] as [number, number][] };
+    const equilibria = equilibriumHeights(ring, supply);
+    const pastPeak = cap.height > ring;
+
+    return (
+        <div className="flex flex-col lg:flex-row gap-8 h-full">
+            <div className="w-full lg:w-2/3 flex flex-col gap-4">
+                <div className="relative w-full h-[400px] bg-gradient-to-b from-blue-50 to-white rounded-xl overflow-hidden">
+                    <Canvas camera={{ position: [0, 1.2, 7.5], fov: 40 }}>
+                        <ambientLight intensity={1} />
+                        <spotLight position={[10, 10, 10]} intensity={1} />
+                        <Environment preset="city" />
+                        <FrameDriver onFrame={tick} />
+                        <group position={[0, -0.6, 0]}>
+                            <Rig ring={ring} source={stateRef} syringeMax={mode === 'volume' ? syringeMax : null} />
+                            <FilmCap key={ring} ring={ring} source={stateRef} unstable={pastPeak} />
+                        </group>
+                        <OrbitControls enableZoom={false} minPolarAngle={Math.PI / 4} maxPolarAngle={Math.PI / 2} />
+                    </Canvas>
+                    {state.detached && (
+                        <div className="absolute inset-x-0 top-6 text-center text-red-500 text-sm font-bold uppercase animate-pulse">
+                            {t('blow.detached')}
+                        </div>
+                    )}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <LineChart
+                        title={t('blow.chart.radius')}
+                        unit="Pa"
+                        xLabel="mm"
+                        xDomain={[0, RADIUS_RANGE * ring]}
+                        yDomain={yDomain}
+                        series={[{ ...theorySeries, points: theory.byRadius }, { ...liveSeries, points: live.byRadius }]}
+                        markers={[{ x: ring, label: t('blow.hemisphere') }]}
+                        cursor={cap.radius <= RADIUS_RANGE * ring ? cap.radius : null}
+                    />
+                    <LineChart
+                        title={t('blow.chart.volume')}
+                        unit="Pa"
+                        xLabel="mm³"
+                        xDomain={[0, maxVolume]}
+                        yDomain={yDomain}
+                        series={[
+                            { ...theorySeries, points: theory.byVolume },
+                            ...(mode === 'pressure' ? [supplySeries] : []),
+                            { ...liveSeries, points: live.byVolume },
+                        ]}
+                        markers={[{ x: peak.volume, label: t('blow.hemisphere') }]}
+                        cursor={state.volume}
+                    />
+                </div>
+            </div>
+
+            <div className="w-full lg:w-1/3 flex flex-col justify-center p-4">
+                <h3 className="font-serif text-xl text-stone-900 mb-4">{t('blow.title')}</h3>
+                <p className="text-sm text-stone-500 mb-6">{t('blow.description')}</p>
+
+                <div className="flex gap-2 mb-2">
+                    {(['volume', 'pressure'] as const).map((m) => (
+                        <button key={m} onClick={() => switchMode(m)} className={`flex-1 py-2 rounded-lg border-2 text-xs font-bold uppercase transition-all ${mode === m ? 'border-blue-500 bg-blue-50 text-blue-600' : 'border-stone-200 text-stone-500'}`}>{t(`blow.mode.${m}`)}</button>
+                    ))}
+                </div>
+                <p className="text-xs text-stone-400 mb-6">{t(`blow.modeHint.${mode}`)}</p>
+
+                <div className="space-y-4 mb-6">
+                    <div>
+                        <div className="flex justify-between text-sm font-medium mb-1"><span>{t('blow.ring')}</span><span className="text-blue-600">{formatLength(ring, locale)}</span></div>
+                        <input type="range" min="5" max="15" step="0.5" value={ring} onChange={(e) => setRing(parseFloat(e.target.value))} disabled={playing} className="w-full accent-blue-500" />
+                    </div>
+                    {mode === 'volume' ? (
+                        <div>
+                            <div className="flex justify-between text-sm font-medium mb-1"><span>{t('blow.syringe')}</span><span className="text-blue-600">{formatVolume(state.volume, locale)}</span></div>
+                            <input type="range" min="0" max={syringeMax} step={syringeMax / 500} value={Math.min(state.volume, syringeMax)} onChange={(e) => commit({ ...state, volume: parseFloat(e.target.value) })} className="w-full accent-blue-500" />
+                        </div>
+                    ) : (
+                        <div>
+                            <div className="flex justify-between text-sm font-medium mb-1">
+                                <span>{t('blow.supply')}</span>
+                                <span className="text-blue-600">{formatPressure(supply, locale)} <span className="text-stone-400">({t('blow.supplyRatio', { ratio: formatNumber(supplyRatio, 2) })})</span></span>
+                            </div>
+                            <input type="range" min="0" max="1.5" step="0.01" value={supplyRatio} onChange={(e) => setSupplyRatio(parseFloat(e.target.value))} className="w-full accent-orange-500" />
+                        </div>
+                    )}
+                </div>
+
+                <div className="mb-6 rounded-lg border border-stone-100 p-3 text-xs font-mono text-stone-600 space-y-1">
+                    <div className="flex justify-between"><span>{t('blow.height')}</span><span>{formatLength(cap.height, locale)}</span></div>
+                    <div className="flex justify-between"><span>{t('blow.radius')}</span><span>{Number.isFinite(cap.radius) ? formatLength(cap.radius, locale) : '∞'}</span></div>
+                    <div className="flex justify-between"><span>ΔP</span><span className="text-blue-600">{formatPressure(cap.pressure, locale)}</span></div>
+                    <div className="pt-1 text-stone-400">{t('blow.peak', { p: formatPressure(peak.pressure, locale) })}</div>
+                    <div className={pastPeak ? 'text-amber-600' : 'text-green-600'}>{t(pastPeak ? 'blow.unstable' : 'blow.stable')}</div>
+                    {mode === 'pressure' && (
+                        <div className={equilibria ? 'text-stone-500' : 'text-red-500 font-bold'}>
+                            {equilibria
+                                ? t('blow.equilibria', { stable: formatLength(equilibria[0], locale), unstable: formatLength(equilibria[1], locale) })
+                                : t('blow.runaway')}
+                        </div>
+                    )}
+                </div>
+
+                {mode === 'pressure' && (
+                    <TransportControls
+                        playing={playing}
+                        onPlay={play}
+                        onPause={pause}
+                        onStep={() => commit(advanceBlowing(stateRef.current, ring, supply, STEP_SECONDS))}
+                        speed={speed}
+                        onSpeed={setSpeed}
+                        canPlay={!state.detached}
+                        playLabel="blow.blow"
+                    />
+                )}
+                <button onClick={reset} className="mt-2 w-full py-2 text-stone-500 hover:text-stone-800 flex items-center justify-center gap-2"><RotateCcw size={14} /> {t('common.reset')}</button>
+            </div>
+        </div>
+    );
+};
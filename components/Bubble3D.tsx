@@ -4,46 +4,97 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useRef, useMemo } from 'react';
+import React, { useRef, useState } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
-import { Float, Environment, Sphere } from '@react-three/drei';
+import { Sphere } from '@react-three/drei';
 import * as THREE from 'three';
+import { ThinFilmMaterial } from './ThinFilmMaterial';
+import { DEFAULT_SWARM, createSwarm, popBubble, stepSwarm, type SwarmState } from '../physics/swarm';
 
-const SoapBubble = ({ position, scale = 1, speed = 1 }: { position: [number, number, number]; scale?: number; speed?: number }) => {
-  const meshRef = useRef<THREE.Mesh>(null);
-  
-  // Random offset for wobble
-  const offset = useMemo(() => Math.random() * 100, []);
+const MAX_FRAME = 1 / 30; // longer frames (tab in background) are clamped
 
-  useFrame((state) => {
-    if (meshRef.current) {
-      const t = state.clock.getElapsedTime() * speed;
-      // Gentle floating movement is handled by <Float>, we add wobble here
+const SoapBubble = ({ meshRef, onPop }: { meshRef: (mesh: THREE.Mesh | null) => void; onPop: () => void }) => (
+  <Sphere
+    ref={meshRef}
+    args={[1, 64, 64]}
+    onClick={(e) => { e.stopPropagation(); onPop(); }}
+    onPointerOver={() => { document.body.style.cursor = 'pointer'; }}
+    onPointerOut={() => { document.body.style.cursor = ''; }}
+  >
+    <ThinFilmMaterial drain={0} />
+  </Sphere>
+);
+
+const idsOf = (swarm: SwarmState) => swarm.bubbles.map((b) => b.id);
+
+const BubbleSwarm = () => {
+  const swarmRef = useRef<SwarmState>(createSwarm());
+  const [ids, setIds] = useState<number[]>(() => idsOf(swarmRef.current));
+  const meshes = useRef(new Map<number, THREE.Mesh>());
+  const dropletsRef = useRef<THREE.InstancedMesh>(null);
+  const dummy = useRef(new THREE.Object3D());
+
+  useFrame((state, delta) => {
+    const swarm = stepSwarm(swarmRef.current, Math.min(delta, MAX_FRAME));
+    swarmRef.current = swarm;
+    const t = state.clock.getElapsedTime();
+
+    // Meshes are moved directly; React only re-renders when bubbles appear or vanish.
+    swarm.bubbles.forEach((b) => {
+      const mesh = meshes.current.get(b.id);
+      if (!mesh) return;
       // Scale wobble to simulate surface tension elasticity
-      const s = scale + Math.sin(t * 2 + offset) * 0.02 * scale;
-      meshRef.current.scale.set(s, s, s);
+      const s = b.radius * (1 + 0.01 * Math.sin(t * 2 + b.id) + 0.06 * b.wobble * Math.sin(t * 9 + b.id));
+      mesh.position.set(b.position[0], b.position[1], b.position[2]);
+      mesh.scale.set(s, s, s);
+      // The film drains over the bubble's life and is at its thinnest when it pops.
+      mesh.material.uniforms.uDrain.value = Math.min(1, b.age / b.lifetime);
+    });
+    const next = idsOf(swarm);
+    if (next.length !== ids.length || next.some((id, i) => id !== ids[i])) setIds(next);
+
+    const droplets = dropletsRef.current;
+    if (droplets) {
+      for (let i = 0; i < DEFAULT_SWARM.maxDroplets; i++) {
+        const d = swarm.droplets[i];
+        dummy.current.position.set(d ? d.position[0] : 0, d ? d.position[1] : 0, d ? d.position[2] : 0);
+        dummy.current.scale.setScalar(d ? 1 - d.age / DEFAULT_SWARM.dropletLifetime : 0);
+        dummy.current.updateMatrix();
+        droplets.setMatrixAt(i, dummy.current.matrix);
+      }
+      droplets.instanceMatrix.needsUpdate = true;
     }
   });
 
   return (
-    <Sphere ref={meshRef} args={[1, 64, 64]} position={position} scale={scale}>
-      <meshPhysicalMaterial
-        roughness={0}
-        metalness={0.1}
-        transmission={0.95} // Glass-like
-        thickness={2} // Refraction
-        clearcoat={1}
-        clearcoatRoughness={0}
-        ior={1.33} // Water IOR
-        iridescence={1}
-        iridescenceIOR={1.3}
-        iridescenceThicknessRange={[100, 800]} // Soap film thickness range in nm
-        color="#ffffff"
-        transparent
-        opacity={1}
-        side={THREE.DoubleSide}
-      />
-    </Sphere>
+    <>
+      {ids.map((id) => (
+        <SoapBubble
+          key={id}
+          meshRef={(mesh) => {
+            if (!mesh) {
+              meshes.current.delete(id);
+              return;
+            }
+            meshes.current.set(id, mesh);
+            // Place it at once so a new bubble never flashes at the origin.
+            const b = swarmRef.current.bubbles.find((o) => o.id === id);
+            if (b) {
+              mesh.position.set(b.position[0], b.position[1], b.position[2]);
+              mesh.scale.setScalar(b.radius);
+            }
+          }}
+          onPop={() => {
+            swarmRef.current = popBubble(swarmRef.current, id);
+            document.body.style.cursor = '';
+          }}
+        />
+      ))}
+      <instancedMesh ref={dropletsRef} args={[undefined, undefined, DEFAULT_SWARM.maxDroplets]} frustumCulled={false}>
+        <sphereGeometry args={[0.035, 8, 8]} />
+        <meshStandardMaterial color="#dbeafe" transparent opacity={0.8} roughness={0.1} />
+      </instancedMesh>
+    </>
   );
 };
 
@@ -53,27 +104,11 @@ export const BubbleHeroScene: React.FC = () => {
       <Canvas camera={{ position: [0, 0, 8], fov: 45 }} dpr={[1, 2]}>
         <ambientLight intensity={0.8} />
         <directionalLight position={[10, 10, 5]} intensity={2} color="#ffffff" />
-        <Environment preset="warehouse" />
-        
-        {/* Main Group of Bubbles */}
-        <Float speed={2} rotationIntensity={0.5} floatIntensity={1} floatingRange={[-0.5, 0.5]}>
-           <SoapBubble position={[0, 0, 0]} scale={2.2} />
-        </Float>
 
-        <Float speed={3} rotationIntensity={1} floatIntensity={1.5} floatingRange={[-1, 1]}>
-           <SoapBubble position={[-3.5, 2, -2]} scale={1.2} speed={1.2} />
-           <SoapBubble position={[3.5, -1.5, -3]} scale={1.5} speed={0.8} />
-           <SoapBubble position={[-2, -3, -1]} scale={0.8} speed={1.5} />
-           <SoapBubble position={[2.5, 2.5, -2]} scale={1.0} speed={1.1} />
-        </Float>
-        
-        {/* Distant background bubbles */}
-        <Float speed={1} rotationIntensity={0.2} floatIntensity={0.5}>
-            <SoapBubble position={[-5, 0, -10]} scale={3} />
-            <SoapBubble position={[6, 4, -12]} scale={2} />
-        </Float>
+        {/* Bubbles drift on the breeze, merge on contact and pop when clicked */}
+        <BubbleSwarm />
 
       </Canvas>
     </div>
   );
-};
\ No newline at end of file
+};
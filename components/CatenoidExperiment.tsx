@@ -0,0 +1,260 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useState } from 'react';
+import * as THREE from 'three';
+import { Canvas } from '@react-three/fiber';
+import { Circle, Environment, OrbitControls, Text, Torus } from '@react-three/drei';
+import { RotateCcw } from 'lucide-react';
+import { LineChart } from './LineChart';
+import { ThinFilmMaterial } from './ThinFilmMaterial';
+import { useI18n } from '../i18n';
+import { numberParam, useUrlParam } from './urlState';
+import {
+    CRITICAL_SEPARATION,
+    GOLDSCHMIDT_SEPARATION,
+    LIMIT_SHAPE,
+    catenoidBranches,
+    catenoidCurves,
+    catenoidRadius,
+    discArea,
+    pinchProfile,
+} from '../physics/catenoid';
+import { formatArea, formatLength } from '../physics/units';
+
+// A soap film between two rings the user pulls apart. The film is drawn from
+// the exact catenoid for the current separation; past the critical separation
+// it necks down and snaps into two flat discs, which stay put until the rings
+// are dipped again.
+
+export interface CatenoidDefaults {
+    /** Ring radius, mm. */
+    ring: number;
+    /** Distance between the rings, mm. */
+    separation: number;
+}
+
+type FilmPhase = 'catenoid' | 'pinching' | 'discs';
+
+const RING_PARAM = numberParam(10, 40);
+const SEPARATION_PARAM = numberParam(1, 60);
+
+// The slider runs a little past the critical separation.
+const MAX_SEPARATION = 1.5;
+// Seconds for the neck to close, then for the two halves to spring flat.
+const PINCH_SECONDS = 0.8;
+const SNAP_SECONDS = 0.25;
+// The scene draws the rings this size whatever their radius in mm.
+const RING_UNITS = 1.5;
+const PROFILE_SEGMENTS = 64;
+
+const CURVES = catenoidCurves();
+
+// A surface of revolution about the rings' axis, from r(z) over [from, to].
+const FilmOfRevolution = ({ profile, from, to, ghost = false }: { profile: (z: number) => number, from: number, to: number, ghost?: boolean }) => {
+    const points = useMemo(
+        () => Array.from({ length: PROFILE_SEGMENTS + 1 }, (_, i) => {
+            const z = from + ((to - from) * i) / PROFILE_SEGMENTS;
+            return new THREE.Vector2(Math.max(profile(z), 1e-4), z);
+        }),
+        [profile, from, to],
+    );
+    return (
+        <mesh>
+            <latheGeometry args={[points, 96]} />
+            {ghost
+                ? <meshBasicMaterial color="#f97316" wireframe transparent opacity={0.25} />
+                : <ThinFilmMaterial drain={0.2} />}
+        </mesh>
+    );
+};
+
+const Ring = ({ y }: { y: number }) => (
+    <Torus args={[RING_UNITS, 0.03, 16, 96]} position={[0, y, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+        <meshStandardMaterial color="#9ca3af" metalness={0.8} roughness={0.3} />
+    </Torus>
+);
+
+export const CatenoidExperiment: React.FC<{ defaults: CatenoidDefaults }> = ({ defaults }) => {
+    const { t, locale, formatNumber } = useI18n();
+    const [ring, setRing] = useUrlParam('ring', defaults.ring, RING_PARAM);
+    const [separation, setSeparation] = useUrlParam('sep', defaults.separation, SEPARATION_PARAM);
+    const [phase, setPhase] = useState<FilmPhase>('catenoid');
+    // 0 to 1 while the neck closes, 1 to 2 while the halves spring flat.
+    const [progress, setProgress] = useState(0);
+    const [showUnstable, setShowUnstable] = useState(true);
+
+    const ratio = separation / ring;
+    const branches = catenoidBranches(ring, separation);
+    const discs = discArea(ring);
+    // Everything in the scene is in ring radii times RING_UNITS.
+    const S = RING_UNITS / ring;
+    const half = separation / 2;
+
+    // Pulled past the limit: there is no catenoid left to hold.
+    useEffect(() => {
+        if (phase === 'catenoid' && !branches) {
+            setProgress(0);
+            setPhase('pinching');
+        }
+    }, [phase, branches]);
+
+    useEffect(() => {
+        if (phase !== 'pinching') return;
+        let rafId: number;
+        let last = performance.now();
+        let p = 0;
+        const frame = (now: number) => {
+            const elapsed = Math.min(0.1, (now - last) / 1000);
+            last = now;
+            p += elapsed / (p < 1 ? PINCH_SECONDS : SNAP_SECONDS);
+            if (p >= 2) {
+                setPhase('discs');
+                return;
+            }
+            setProgress(p);
+            rafId = requestAnimationFrame(frame);
+        };
+        rafId = requestAnimationFrame(frame);
+        return () => cancelAnimationFrame(rafId);
+    }, [phase]);
+
+    const redip = () => {
+        setProgress(0);
+        setPhase('catenoid');
+    };
+
+    const reset = () => {
+        setSeparation(defaults.separation);
+        setRing(defaults.ring);
+        redip();
+    };
+
+    const stableProfile = useMemo(() => (branches ? (z: number) => catenoidRadius(branches.stable.neck * S, z) : null), [branches?.stable.neck, S]);
+    const unstableProfile = useMemo(() => (branches ? (z: number) => catenoidRadius(branches.unstable.neck * S, z) : null), [branches?.unstable.neck, S]);
+    // The film breaks from the limit shape, whose neck is R/cosh x*.
+    const pinching = useMemo(
+        () => pinchProfile(RING_UNITS, separation * S, RING_UNITS / Math.cosh(LIMIT_SHAPE), Math.min(progress, 1)),
+        [separation, S, progress],
+    );
+    // Once the neck has closed each half springs back onto its own ring.
+    const flatten = Math.max(0, 1 - (progress - 1));
+
+    const status = phase !== 'catenoid'
+        ? t('catenoid.status.broken', { limit: formatNumber(CRITICAL_SEPARATION, 3) })
+        : ratio <= GOLDSCHMIDT_SEPARATION
+            ? t('catenoid.status.global')
+            : t('catenoid.status.local', { goldschmidt: formatNumber(GOLDSCHMIDT_SEPARATION, 3) });
+
+    const markers = [
+        { x: GOLDSCHMIDT_SEPARATION, label: t('catenoid.goldschmidt'), color: '#a8a29e' },
+        { x: CRITICAL_SEPARATION, label: t('catenoid.critical'), color: '#ef4444' },
+    ];
+    const branchSeries = (key: 'neck' | 'area') => [
+        { id: 'stable', label: t('catenoid.series.stable'), color: '#2563eb', points: CURVES.stable[key] },
+        { id: 'unstable', label: t('catenoid.series.unstable'), color: '#f97316', dashed: true, points: CURVES.unstable[key] },
+    ];
+
+    return (
+        <div className="flex flex-col lg:flex-row gap-8 h-full">
+            <div className="w-full lg:w-2/3 flex flex-col gap-4">
+                <div className="relative w-full h-[400px] bg-gradient-to-b from-blue-50 to-white rounded-xl overflow-hidden">
+                    <Canvas camera={{ position: [4.2, 1.6, 4.2], fov: 40 }}>
+                        <ambientLight intensity={1} />
+                        <spotLight position={[10, 10, 10]} intensity={1} />
+                        <Environment preset="city" />
+                        <Ring y={half * S} />
+                        <Ring y={-half * S} />
+                        {phase === 'catenoid' && stableProfile && <FilmOfRevolution profile={stableProfile} from={-half * S} to={half * S} />}
+                        {phase === 'catenoid' && showUnstable && unstableProfile && (
+                            <FilmOfRevolution profile={unstableProfile} from={-half * S} to={half * S} ghost />
+                        )}
+                        {phase === 'pinching' && progress < 1 && <FilmOfRevolution profile={pinching} from={-half * S} to={half * S} />}
+                        {phase === 'pinching' && progress >= 1 && [1, -1].map((side) => (
+                            <group key={side} position={[0, side * half * S, 0]} scale={[1, flatten, 1]}>
+                                <group position={[0, -side * half * S, 0]}>
+                                    <FilmOfRevolution profile={pinching} from={side > 0 ? 0 : -half * S} to={side > 0 ? half * S : 0} />
+                                </group>
+                            </group>
+                        ))}
+                        {phase === 'discs' && [1, -1].map((side) => (
+                            <Circle key={side} args={[RING_UNITS, 64]} position={[0, side * half * S, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+                                <ThinFilmMaterial drain={0.2} />
+                            </Circle>
+                        ))}
+                        <Text position={[RING_UNITS + 0.35, 0, 0]} fontSize={0.18} color="#666" anchorX="left">
+                            {`d = ${formatNumber(ratio, 3)} R`}
+                        </Text>
+                        <OrbitControls enablePan={false} enableZoom={false} />
+                    </Canvas>
+                    {phase !== 'catenoid' && (
+                        <div className="absolute inset-x-0 top-6 text-center text-red-500 text-sm font-bold uppercase">
+                            {t(phase === 'pinching' ? 'catenoid.pinching' : 'catenoid.discs')}
+                        </div>
+                    )}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <LineChart
+                        title={t('catenoid.chart.neck')}
+                        unit="R"
+                        xLabel="d/R"
+                        xDomain={[0, MAX_SEPARATION]}
+                        yDomain={[0, 1]}
+                        series={branchSeries('neck')}
+                        markers={markers}
+                        cursor={ratio}
+                    />
+                    <LineChart
+                        title={t('catenoid.chart.area')}
+                        unit="2πR²"
+                        xLabel="d/R"
+                        xDomain={[0, MAX_SEPARATION]}
+                        yDomain={[0, 1.3]}
+                        series={[
+                            ...branchSeries('area'),
+                            { id: 'discs', label: t('catenoid.series.discs'), color: '#78716c', dashed: true, points: [[0, 1], [MAX_SEPARATION, 1]] },
+                        ]}
+                        markers={markers}
+                        cursor={ratio}
+                    />
+                </div>
+            </div>
+
+            <div className="w-full lg:w-1/3 flex flex-col justify-center p-4">
+                <h3 className="font-serif text-xl text-stone-900 mb-4">{t('catenoid.title')}</h3>
+                <p className="text-sm text-stone-500 mb-6">{t('catenoid.description')}</p>
+
+                <div className="space-y-4 mb-6">
+                    <div>
+                        <div className="flex justify-between text-sm font-medium mb-1"><span>{t('catenoid.separation')}</span><span className="text-blue-600">{formatLength(separation, locale)}</span></div>
+                        <input type="range" min="1" max={Math.min(60, MAX_SEPARATION * ring)} step="0.1" value={separation} onChange={(e) => setSeparation(parseFloat(e.target.value))} className="w-full accent-blue-500" />
+                    </div>
+                    <div>
+                        <div className="flex justify-between text-sm font-medium mb-1"><span>{t('catenoid.ring')}</span><span className="text-blue-600">{formatLength(ring, locale)}</span></div>
+                        <input type="range" min="10" max="40" step="0.5" value={ring} onChange={(e) => setRing(parseFloat(e.target.value))} className="w-full accent-blue-500" />
+                    </div>
+                    <label className="flex items-center gap-2 text-sm font-medium">
+                        <input type="checkbox" checked={showUnstable} onChange={(e) => setShowUnstable(e.target.checked)} className="accent-orange-500" />
+                        {t('catenoid.showUnstable')}
+                    </label>
+                </div>
+
+                <div className="mb-4 rounded-lg border border-stone-100 p-3 text-xs font-mono text-stone-600 space-y-1">
+                    <div className="flex justify-between"><span>{t('catenoid.neck.stable')}</span><span className="text-blue-600">{branches ? formatLength(branches.stable.neck, locale) : '—'}</span></div>
+                    <div className="flex justify-between"><span>{t('catenoid.neck.unstable')}</span><span className="text-orange-500">{branches ? formatLength(branches.unstable.neck, locale) : '—'}</span></div>
+                    <div className="flex justify-between pt-1"><span>{t('catenoid.area.stable')}</span><span className="text-blue-600">{branches ? formatArea(branches.stable.area, locale) : '—'}</span></div>
+                    <div className="flex justify-between"><span>{t('catenoid.area.unstable')}</span><span className="text-orange-500">{branches ? formatArea(branches.unstable.area, locale) : '—'}</span></div>
+                    <div className="flex justify-between"><span>{t('catenoid.area.discs')}</span><span>{formatArea(discs, locale)}</span></div>
+                </div>
+                <p className={`text-xs mb-6 ${phase !== 'catenoid' ? 'text-red-500' : ratio <= GOLDSCHMIDT_SEPARATION ? 'text-green-600' : 'text-amber-600'}`}>{status}</p>
+
+                <button onClick={redip} disabled={phase === 'catenoid' || !branches} className="w-full py-3 rounded-lg font-bold transition-all bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40">
+                    {t(phase !== 'catenoid' && !branches ? 'catenoid.redipHint' : 'catenoid.redip')}
+                </button>
+                <button onClick={reset} className="mt-2 w-full py-2 text-stone-500 hover:text-stone-800 flex items-center justify-center gap-2"><RotateCcw size={14} /> {t('common.reset')}</button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { type ThreeEvent } from '@react-three/fiber';
+import { Circle, Cone, OrbitControls, Sphere, Text } from '@react-three/drei';
+import { ThinFilmMaterial } from './ThinFilmMaterial';
+import { useI18n } from '../i18n';
+import type { DoubleBubble } from '../physics/doubleBubble';
+import { SCENE_UNITS_PER_MM, formatPressure } from '../physics/units';
+
+// Bubbles A and B in the double-bubble mode of the mechanics experiment. Apart,
+// either can be dragged along the bench; once they touch they are drawn as the
+// three spherical caps of the standard double bubble.
+
+export interface DoubleBubbleSceneProps {
+    /** Free radii of bubbles A and B, mm. */
+    radii: [number, number];
+    /** Pressures of A and B as they stand, apart or merged, Pa. */
+    pressures: [number, number];
+    /** The merged shape once they touch; null while apart. */
+    shape: DoubleBubble | null;
+    onMerge: () => void;
+}
+
+const S = SCENE_UNITS_PER_MM;
+// Gap between the two bubbles when they are first set out, scene units.
+const START_GAP = 1.2;
+const IDS = ['A', 'B'] as const;
+
+const Labels = ({ x, top, id, pressure }: { x: number, top: number, id: string, pressure: number }) => {
+    const { t, locale } = useI18n();
+    return (
+        <group position={[x, top, 0]}>
+            <Text position={[0, 0.4, 0]} fontSize={0.3} color="#333" anchorY="bottom">{t('mech.bubble', { id })}</Text>
+            <Text position={[0, 0.15, 0]} fontSize={0.2} color="#0066cc" anchorY="bottom">{`ΔP = ${formatPressure(pressure, locale)}`}</Text>
+        </group>
+    );
+};
+
+// The three caps, built along +y from the larger sphere's centre (three.js
+// measures a sphere's theta from +y) and turned onto the bench by the caller.
+const DoubleBubbleFilms = ({ shape }: { shape: DoubleBubble }) => {
+    const { large, small, wall, separation, junction, ring, wallCentre } = shape;
+    const flat = !Number.isFinite(wall);
+    const largeFrom = Math.acos(junction / large);
+    const smallTo = Math.acos((junction - separation) / small);
+    const wallFrom = flat ? 0 : Math.acos((junction - wallCentre) / wall);
+    return (
+        <group scale={S}>
+            <Sphere args={[large, 64, 48, 0, Math.PI * 2, largeFrom, Math.PI - largeFrom]}>
+                <ThinFilmMaterial />
+            </Sphere>
+            <Sphere args={[small, 64, 48, 0, Math.PI * 2, 0, smallTo]} position={[0, separation, 0]}>
+                <ThinFilmMaterial />
+            </Sphere>
+            {flat ? (
+                <Circle args={[ring, 64]} position={[0, junction, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+                    <ThinFilmMaterial tint="#fef3c7" />
+                </Circle>
+            ) : (
+                <>
+                    <Sphere args={[wall, 64, 24, 0, Math.PI * 2, wallFrom, Math.PI - wallFrom]} position={[0, wallCentre, 0]}>
+                        <ThinFilmMaterial tint="#fef3c7" />
+                    </Sphere>
+                    {/* Which way the wall bulges: out of the smaller bubble, into the larger. */}
+                    <Cone args={[0.8, 2.4, 16]} position={[0, wallCentre - wall - 1.6, 0]} rotation={[Math.PI, 0, 0]}>
+                        <meshBasicMaterial color="#f97316" />
+                    </Cone>
+                </>
+            )}
+        </group>
+    );
+};
+
+export const DoubleBubbleScene: React.FC<DoubleBubbleSceneProps> = ({ radii, pressures, shape, onMerge }) => {
+    const start = (): [number, number] => [-(radii[0] * S + START_GAP / 2), radii[1] * S + START_GAP / 2];
+    const [xs, setXs] = useState<[number, number]>(start);
+    const [dragging, setDragging] = useState<number | null>(null);
+
+    // New radii, or pulled apart again: set the two out afresh.
+    useEffect(() => setXs(start()), [radii[0], radii[1], shape == null]);
+
+    const grab = (index: number) => (e: ThreeEvent<PointerEvent>) => {
+        if (shape) return;
+        e.stopPropagation();
+        setDragging(index);
+    };
+
+    const drag = (e: ThreeEvent<PointerEvent>) => {
+        if (dragging == null || shape) return;
+        const contact = (radii[0] + radii[1]) * S;
+        const next: [number, number] = [...xs];
+        next[dragging] = dragging === 0 ? Math.min(e.point.x, xs[1] - contact) : Math.max(e.point.x, xs[0] + contact);
+        setXs(next);
+        if (next[1] - next[0] <= contact + 1e-6) {
+            setDragging(null);
+            onMerge();
+        }
+    };
+
+    let content: React.ReactNode;
+    if (shape) {
+        // The larger chamber keeps its side of the bench; the pair is centred on its full length.
+        const largeIndex = radii[0] >= radii[1] ? 0 : 1;
+        const direction = largeIndex === 0 ? 1 : -1;
+        const middle = (shape.separation + shape.small - shape.large) / 2;
+        const centres = [-middle, shape.separation - middle].map((y) => direction * y * S);
+        const tops = [shape.large, shape.small].map((r) => r * S);
+        content = (
+            <>
+                <group position={[-direction * middle * S, 0, 0]} rotation={[0, 0, -direction * Math.PI / 2]}>
+                    <DoubleBubbleFilms shape={shape} />
+                </group>
+                <Labels x={centres[0]} top={tops[0]} id={IDS[largeIndex]} pressure={pressures[largeIndex]} />
+                <Labels x={centres[1]} top={tops[1]} id={IDS[1 - largeIndex]} pressure={pressures[1 - largeIndex]} />
+            </>
+        );
+    } else {
+        content = IDS.map((id, i) => (
+            <group key={id}>
+                <Sphere args={[1, 64, 64]} scale={radii[i] * S} position={[xs[i], 0, 0]} onPointerDown={grab(i)}>
+                    <ThinFilmMaterial tint={dragging === i ? '#bfdbfe' : '#ffffff'} />
+                </Sphere>
+                <Labels x={xs[i]} top={radii[i] * S} id={id} pressure={pressures[i]} />
+            </group>
+        ));
+    }
+
+    return (
+        <>
+            {content}
+            {/* Catches the pointer while a bubble is dragged, wherever it wanders. */}
+            <mesh position={[0, 0, 0]} onPointerMove={drag} onPointerUp={() => setDragging(null)}>
+                <planeGeometry args={[20, 12]} />
+                <meshBasicMaterial transparent opacity={0} depthWrite={false} />
+            </mesh>
+            <OrbitControls enabled={dragging == null} enableZoom={false} minPolarAngle={Math.PI / 3} maxPolarAngle={Math.PI / 2} />
+        </>
+    );
+};
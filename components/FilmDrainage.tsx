@@ -0,0 +1,244 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import {
+  DEFAULT_DRAINAGE,
+  INITIAL_PROFILES,
+  advanceDrainage,
+  blackFilmExtent,
+  createDrainage,
+  liquidContent,
+  thicknessAt,
+  type DrainageState,
+  type InitialProfile,
+} from '../physics/drainage';
+import { createRecorder, record, sampleAt, sampleNear, truncate } from '../physics/recorder';
+import { createColorLookup } from '../physics/thinFilm';
+import { useI18n } from '../i18n';
+import { PANEL_REFRESH_MS, TransportControls, useTransportClock } from './TransportControls';
+
+// Drainage takes minutes, so at 1× a second on screen is this many simulated
+// seconds; the transport's speed multiplies it.
+const DRAINAGE_TIME_SCALE = 50;
+// Simulated seconds between recorded states for rewinding.
+const RECORD_INTERVAL = 2;
+const CANVAS_W = 240;
+const CANVAS_H = 320;
+
+// Film colours as seen in reflection: bands where thickness is constant.
+// A slight sideways sway keeps the bands from looking ruled.
+const drawFilm = (ctx: CanvasRenderingContext2D, state: DrainageState, color: (d: number) => [number, number, number], t: number) => {
+  const image = ctx.createImageData(CANVAS_W, CANVAS_H);
+  const { height } = DEFAULT_DRAINAGE;
+  for (let y = 0; y < CANVAS_H; y++) {
+    for (let x = 0; x < CANVAS_W; x++) {
+      const sway = Math.sin(x * 0.04 + t * 0.3) * 0.25 + Math.sin(x * 0.013 - t * 0.2) * 0.4;
+      const z = Math.max(0, Math.min(height, ((y + 0.5) / CANVAS_H) * height + sway * (y / CANVAS_H)));
+      const [r, g, b] = color(thicknessAt(state, z));
+      const k = (y * CANVAS_W + x) * 4;
+      image.data[k] = r;
+      image.data[k + 1] = g;
+      image.data[k + 2] = b;
+      image.data[k + 3] = 255;
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+export const FilmDrainage: React.FC = () => {
+  const { t, formatNumber } = useI18n();
+  const [profile, setProfile] = useState<InitialProfile>('uniform');
+  const [initialThickness, setInitialThickness] = useState(1000); // nm
+  const [speed, setSpeed] = useState(1);
+  const speedRef = useRef(speed);
+  speedRef.current = speed;
+  const [playing, setPlayingState] = useState(false);
+  const playingRef = useRef(playing);
+  const setPlaying = (value: boolean) => {
+    playingRef.current = value;
+    setPlayingState(value);
+  };
+  // While playing, the live film is in stateRef and advances with the
+  // transport clock; `state` is the snapshot the panel shows, refreshed every
+  // PANEL_REFRESH_MS.
+  const [state, setState] = useState<DrainageState>(() => createDrainage('uniform', 1000));
+  const stateRef = useRef(state);
+  const [history, setHistory] = useState(() => createRecorder<DrainageState>(RECORD_INTERVAL));
+  const historyRef = useRef(history);
+  const lastPublish = useRef(0);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const color = useMemo(() => createColorLookup(3000, 2), []);
+  const initialContent = useMemo(() => liquidContent(createDrainage(profile, initialThickness)), [profile, initialThickness]);
+
+  const reset = (p = profile, h0 = initialThickness) => {
+    setPlaying(false);
+    const fresh = createDrainage(p, h0);
+    stateRef.current = fresh;
+    setState(fresh);
+    historyRef.current = createRecorder<DrainageState>(RECORD_INTERVAL);
+    setHistory(historyRef.current);
+    setCursor(null);
+  };
+
+  const commit = (next: DrainageState, force = false) => {
+    stateRef.current = next;
+    historyRef.current = record(historyRef.current, next.time, next, force || next.ruptured);
+    setState(next);
+    setHistory(historyRef.current);
+  };
+
+  const pause = () => {
+    setPlaying(false);
+    setState(stateRef.current);
+    setHistory(historyRef.current);
+  };
+
+  // While paused the cursor can sit on any recorded moment; the film is drawn as it was then.
+  const shown = (!playing && cursor != null && sampleAt(history, cursor)?.state) || state;
+  const latest = history.samples[history.samples.length - 1];
+  const rewound = !playing && cursor != null && latest != null && cursor < latest.time;
+
+  // Playing from a rewound moment carries on from there and drops the recording after it.
+  const play = () => {
+    if (rewound) {
+      const sample = sampleAt(historyRef.current, cursor!)!;
+      historyRef.current = truncate(historyRef.current, sample.time);
+      commit(sample.state);
+    } else {
+      commit(stateRef.current);
+    }
+    setCursor(null);
+    lastPublish.current = performance.now();
+    setPlaying(true);
+  };
+
+  // One step is one frame's worth of simulated time at the chosen speed.
+  const step = () => {
+    if (rewound) {
+      setCursor(sampleNear(history, cursor!, 1)!.time);
+      return;
+    }
+    historyRef.current = record(historyRef.current, stateRef.current.time, stateRef.current);
+    commit(advanceDrainage(stateRef.current, (speed * DRAINAGE_TIME_SCALE) / 30), true);
+  };
+
+  const stepBack = () => setCursor(sampleNear(history, cursor ?? state.time, -1)!.time);
+
+  const seek = (time: number) => {
+    setPlaying(false);
+    setCursor(time);
+  };
+
+  const draw = (film: DrainageState) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) drawFilm(ctx, film, color, film.time);
+  };
+
+  // While playing, the clock draws every frame; otherwise draw what is shown.
+  useEffect(() => {
+    if (!playing) draw(shown);
+  }, [shown, color, playing]);
+
+  // One clock frame of `delta` wall-clock seconds. The canvas follows every
+  // frame; React only hears about it a few times a second.
+  useTransportClock(playing, (delta) => {
+    if (!playingRef.current) return;
+    const next = advanceDrainage(stateRef.current, delta * speedRef.current * DRAINAGE_TIME_SCALE);
+    stateRef.current = next;
+    historyRef.current = record(historyRef.current, next.time, next, next.ruptured);
+    draw(next);
+    if (next.ruptured) {
+      pause();
+      return;
+    }
+    const now = performance.now();
+    if (now - lastPublish.current >= PANEL_REFRESH_MS) {
+      lastPublish.current = now;
+      setState(next);
+      setHistory(historyRef.current);
+    }
+  });
+
+  const black = blackFilmExtent(shown);
+  const remaining = (100 * liquidContent(shown)) / initialContent;
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-8 h-full">
+      <div className="w-full lg:w-2/3 h-[400px] bg-stone-900 rounded-xl relative overflow-hidden flex items-center justify-center gap-10">
+        <div className="relative">
+          {/* Wire frame */}
+          <div className="absolute -inset-2 border-4 border-stone-400 rounded-sm pointer-events-none" />
+          <canvas ref={canvasRef} width={CANVAS_W} height={CANVAS_H} className={`block transition-opacity duration-300 ${shown.ruptured ? 'opacity-0' : 'opacity-100'}`} />
+          {shown.ruptured && (
+            <div className="absolute inset-0 flex items-center justify-center text-red-400 text-sm font-bold uppercase animate-pulse">
+              {t('drainage.popped')}
+            </div>
+          )}
+          {black > 0 && !shown.ruptured && (
+            <div className="absolute left-full ml-3 text-[10px] text-stone-400 font-mono whitespace-nowrap" style={{ top: `${(black / DEFAULT_DRAINAGE.height) * 100}%` }}>
+              {t('drainage.blackFilm')}
+            </div>
+          )}
+        </div>
+        <div className="text-stone-400 text-xs font-mono space-y-1">
+          <div className="uppercase tracking-widest mb-2">{t('drainage.verticalFilm')}</div>
+          <div>t = {formatNumber(shown.time)} s</div>
+          <div>{t('drainage.top')}: {formatNumber(thicknessAt(shown, 0))} nm</div>
+          <div>{t('drainage.middle')}: {formatNumber(thicknessAt(shown, DEFAULT_DRAINAGE.height / 2))} nm</div>
+          <div>{t('drainage.bottom')}: {formatNumber(thicknessAt(shown, DEFAULT_DRAINAGE.height))} nm</div>
+          <div>{t('drainage.black')}: {formatNumber(black, 1)} mm</div>
+          <div>{t('drainage.liquidLeft')}: {formatNumber(remaining)}%</div>
+        </div>
+      </div>
+
+      <div className="w-full lg:w-1/3 flex flex-col justify-center p-4">
+        <h3 className="font-serif text-xl text-stone-900 mb-4">{t('drainage.title')}</h3>
+        <p className="text-sm text-stone-500 mb-6">
+          {t('drainage.description')}
+        </p>
+
+        <div className="space-y-4 mb-6">
+          <label className="flex justify-between items-center text-sm font-medium">
+            <span>{t('drainage.profile')}</span>
+            <select value={profile} onChange={(e) => { const p = e.target.value as InitialProfile; setProfile(p); reset(p); }} className="text-sm border border-stone-200 rounded px-2 py-1 bg-white">
+              {INITIAL_PROFILES.map((p) => <option key={p.id} value={p.id}>{t(`profile.${p.id}`)}</option>)}
+            </select>
+          </label>
+          <div>
+            <label className="flex justify-between text-sm font-medium mb-1">
+              <span>{t('drainage.initialThickness')}</span>
+              <span className="font-mono text-blue-600">{initialThickness} nm</span>
+            </label>
+            <input type="range" min="300" max="2000" step="50" value={initialThickness} onChange={(e) => { const h = parseInt(e.target.value); setInitialThickness(h); reset(profile, h); }} className="w-full accent-purple-500" />
+          </div>
+        </div>
+
+        <TransportControls
+          playing={playing}
+          onPlay={play}
+          onPause={pause}
+          onStep={step}
+          onStepBack={stepBack}
+          speed={speed}
+          onSpeed={setSpeed}
+          canPlay={rewound || !state.ruptured}
+          accent="purple"
+          timeline={latest && {
+            start: history.samples[0].time,
+            end: latest.time,
+            time: shown.time,
+            onSeek: seek,
+            digits: 0,
+          }}
+        />
+        <p className="mt-2 text-xs text-stone-400">{t('drainage.timeScale', { factor: DRAINAGE_TIME_SCALE })}</p>
+        <button onClick={() => reset()} className="mt-2 w-full py-2 text-stone-500 hover:text-stone-800 flex items-center justify-center gap-2"><RotateCcw size={14} /> {t('common.reset')}</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,358 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useRef, useState } from 'react';
+import { Pause, Play, RotateCcw, Trash2 } from 'lucide-react';
+import { LineChart } from './LineChart';
+import { useTransportClock } from './TransportControls';
+import { useI18n } from '../i18n';
+import {
+  RECTANGLE_SWITCH_ASPECT,
+  advanceRelax,
+  createRelaxState,
+  filmLength,
+  pinsToNodes,
+  rectangleTopology,
+  rectangleTopologyLength,
+  starNetwork,
+  type FilmNetwork,
+  type RelaxState,
+} from '../physics/filmRelaxation';
+import { minimumSpanningTree, steinerTree, type Point } from '../physics/steiner';
+
+type Layout = 'square' | 'rectangle' | 'pentagon';
+
+const SIZE = 300;
+const PX_PER_UNIT = 200; // same scale as the Steiner solver view
+const LONG_SIDE = 220;
+const STEPS_PER_SECOND = 240; // relaxation steps per wall-clock second
+
+const LAYOUTS: Layout[] = ['square', 'rectangle', 'pentagon'];
+
+/** Rectangle of the given aspect (width / height), centred, long side LONG_SIDE px. */
+const rectangleFrame = (aspect: number) => {
+  const w = aspect >= 1 ? LONG_SIDE : LONG_SIDE * aspect;
+  const h = aspect >= 1 ? LONG_SIDE / aspect : LONG_SIDE;
+  return { w, h, origin: { x: (SIZE - w) / 2, y: (SIZE - h) / 2 } };
+};
+
+const layoutPins = (layout: Layout, aspect: number): Point[] => {
+  if (layout === 'pentagon') {
+    return Array.from({ length: 5 }, (_, k) => {
+      const a = -Math.PI / 2 + (2 * Math.PI * k) / 5;
+      return { x: SIZE / 2 + 115 * Math.cos(a), y: SIZE / 2 + 115 * Math.sin(a) };
+    });
+  }
+  const { w, h, origin } = rectangleFrame(layout === 'square' ? 1 : aspect);
+  return [
+    { x: origin.x, y: origin.y },
+    { x: origin.x + w, y: origin.y },
+    { x: origin.x, y: origin.y + h },
+    { x: origin.x + w, y: origin.y + h },
+  ];
+};
+
+/** True if every pin can reach every other pin along the films. */
+const joinsAllPins = (network: FilmNetwork) => {
+  const pins = network.nodes.flatMap((p, i) => (p.pinned ? [i] : []));
+  if (pins.length === 0) return false;
+  const seen = new Set([pins[0]]);
+  const queue = [pins[0]];
+  while (queue.length) {
+    const i = queue.pop()!;
+    network.edges.forEach(([a, b]) => {
+      const k = a === i ? b : b === i ? a : -1;
+      if (k >= 0 && !seen.has(k)) {
+        seen.add(k);
+        queue.push(k);
+      }
+    });
+  }
+  return pins.every((i) => seen.has(i));
+};
+
+/** Worst deviation (degrees) from 120° over the angles at a free junction. */
+const junctionError = (network: FilmNetwork, i: number) => {
+  const p = network.nodes[i];
+  const dirs = network.edges
+    .flatMap(([a, b]) => (a === i ? [b] : b === i ? [a] : []))
+    .map((k) => Math.atan2(network.nodes[k].y - p.y, network.nodes[k].x - p.x))
+    .sort((a, b) => a - b);
+  if (dirs.length !== 3) return Infinity;
+  return Math.max(...dirs.map((d, k) => {
+    const next = k + 1 < dirs.length ? dirs[k + 1] : dirs[0] + 2 * Math.PI;
+    return Math.abs(((next - d) * 180) / Math.PI - 120);
+  }));
+};
+
+// Lengths of the two rectangle topologies over aspect ratio, per unit height.
+const ASPECT_RANGE: [number, number] = [0.4, 2.5];
+const topologyCurve = (bridge: 'horizontal' | 'vertical'): [number, number][] => {
+  const points: [number, number][] = [];
+  for (let a = ASPECT_RANGE[0]; a <= ASPECT_RANGE[1] + 1e-9; a += 0.02) {
+    if (rectangleTopology(a, 1, bridge)) points.push([a, rectangleTopologyLength(a, 1, bridge)]);
+  }
+  return points;
+};
+
+export const FilmRelaxation: React.FC = () => {
+  const { t, formatNumber } = useI18n();
+  const [layout, setLayout] = useState<Layout>('rectangle');
+  const [aspect, setAspect] = useState(1.5);
+  const pins = useMemo(() => layoutPins(layout, aspect), [layout, aspect]);
+  const [state, setState] = useState<RelaxState>(() => createRelaxState(starNetwork(layoutPins('rectangle', 1.5))));
+  const stateRef = useRef(state);
+  const [playing, setPlaying] = useState(false);
+  const [selected, setSelected] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const optimum = useMemo(() => steinerTree(pins), [pins]);
+  const curves = useMemo(() => ({ horizontal: topologyCurve('horizontal'), vertical: topologyCurve('vertical') }), []);
+
+  const load = (network: FilmNetwork) => {
+    setPlaying(false);
+    setSelected(null);
+    const fresh = createRelaxState(network);
+    stateRef.current = fresh;
+    setState(fresh);
+  };
+
+  const loadPreset = (preset: 'star' | 'mst' | 'empty' | 'horizontal' | 'vertical', p = pins, a = aspect) => {
+    if (preset === 'star') return load(starNetwork(p));
+    if (preset === 'mst') return load({ nodes: pinsToNodes(p), edges: minimumSpanningTree(p).edges });
+    if (preset === 'empty') return load({ nodes: pinsToNodes(p), edges: [] });
+    const { w, h, origin } = rectangleFrame(a);
+    const network = rectangleTopology(w, h, preset, origin);
+    // Past its limit the bridge would have negative length: start it short and
+    // let the relaxation collapse it.
+    if (network) return load(network);
+    const c = { x: SIZE / 2, y: SIZE / 2 };
+    const d = 10;
+    load({
+      nodes: [
+        ...pinsToNodes(p),
+        { x: preset === 'horizontal' ? c.x - d : c.x, y: preset === 'horizontal' ? c.y : c.y - d, pinned: false },
+        { x: preset === 'horizontal' ? c.x + d : c.x, y: preset === 'horizontal' ? c.y : c.y + d, pinned: false },
+      ],
+      edges: preset === 'horizontal' ? [[0, 4], [2, 4], [1, 5], [3, 5], [4, 5]] : [[0, 4], [1, 4], [2, 5], [3, 5], [4, 5]],
+    });
+  };
+
+  const changeLayout = (next: Layout) => {
+    setLayout(next);
+    loadPreset('star', layoutPins(next, aspect));
+  };
+
+  const changeAspect = (a: number) => {
+    setAspect(a);
+    loadPreset(a >= 1 ? 'vertical' : 'horizontal', layoutPins('rectangle', a), a);
+  };
+
+  // Whole steps for the elapsed time; the fraction left over carries to the next frame.
+  const pendingSteps = useRef(0);
+  useTransportClock(playing, (delta) => {
+    pendingSteps.current += delta * STEPS_PER_SECOND;
+    const steps = Math.floor(pendingSteps.current);
+    pendingSteps.current -= steps;
+    if (steps === 0) return;
+    const next = advanceRelax(stateRef.current, steps);
+    stateRef.current = next;
+    setState(next);
+    if (next.settled) setPlaying(false);
+  });
+
+  // --- Drawing: click a node, then another node or empty space, to add a film ---
+
+  const svgPoint = (e: React.PointerEvent): Point => {
+    const svg = svgRef.current!;
+    const pt = svg.createSVGPoint();
+    pt.x = e.clientX;
+    pt.y = e.clientY;
+    const local = pt.matrixTransform(svg.getScreenCTM()!.inverse());
+    return { x: Math.min(SIZE - 5, Math.max(5, local.x)), y: Math.min(SIZE - 5, Math.max(5, local.y)) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0 || playing) return;
+    const p = svgPoint(e);
+    const { network } = stateRef.current;
+    let hit = network.nodes.findIndex((q) => Math.hypot(q.x - p.x, q.y - p.y) < 10);
+    let nodes = network.nodes;
+    if (hit < 0) {
+      nodes = [...nodes, { ...p, pinned: false }];
+      hit = nodes.length - 1;
+    }
+    const edges = [...network.edges];
+    if (selected != null && selected !== hit && !edges.some(([a, b]) => (a === selected && b === hit) || (a === hit && b === selected))) {
+      edges.push([selected, hit]);
+    }
+    const edited = createRelaxState({ nodes, edges });
+    stateRef.current = edited;
+    setState(edited);
+    setSelected(hit === selected ? null : hit);
+  };
+
+  const removeJunction = (index: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    const { network } = stateRef.current;
+    if (playing || network.nodes[index].pinned) return;
+    const edited = createRelaxState({
+      nodes: network.nodes.filter((_, k) => k !== index),
+      edges: network.edges
+        .filter(([a, b]) => a !== index && b !== index)
+        .map(([a, b]) => [a > index ? a - 1 : a, b > index ? b - 1 : b] as [number, number]),
+    });
+    stateRef.current = edited;
+    setState(edited);
+    setSelected(null);
+  };
+
+  const { network } = state;
+  const length = filmLength(network);
+  const connected = joinsAllPins(network);
+  const excess = length / optimum.length - 1;
+  const toUnits = (px: number) => px / PX_PER_UNIT;
+  const rect = rectangleFrame(aspect);
+  const bridgeLengths = {
+    horizontal: rectangleTopology(rect.w, rect.h, 'horizontal') ? rectangleTopologyLength(rect.w, rect.h, 'horizontal') : null,
+    vertical: rectangleTopology(rect.w, rect.h, 'vertical') ? rectangleTopologyLength(rect.w, rect.h, 'vertical') : null,
+  };
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-8 h-full items-center">
+      <div className="w-full lg:w-2/3 h-[400px] bg-[#F9F8F4] rounded-xl border border-stone-200 relative flex items-center justify-center overflow-hidden">
+        <svg
+          ref={svgRef}
+          width={SIZE} height={SIZE} viewBox={`0 0 ${SIZE} ${SIZE}`}
+          className={`touch-none ${playing ? '' : 'cursor-crosshair'}`}
+          onPointerDown={handlePointerDown}
+        >
+          <defs>
+            <pattern id="relax-grid" width="20" height="20" patternUnits="userSpaceOnUse">
+              <path d="M 20 0 L 0 0 0 20" fill="none" stroke="#ddd" strokeWidth="0.5"/>
+            </pattern>
+          </defs>
+          <rect width={SIZE} height={SIZE} fill="url(#relax-grid)" />
+
+          {/* Global optimum, for reference */}
+          <g stroke="#3b82f6" strokeOpacity="0.18" strokeWidth="10" strokeLinecap="round">
+            {optimum.edges.map(([i, j], k) => (
+              <line key={k} x1={optimum.nodes[i].x} y1={optimum.nodes[i].y} x2={optimum.nodes[j].x} y2={optimum.nodes[j].y} />
+            ))}
+          </g>
+
+          <g stroke="#1d4ed8" strokeWidth="4" strokeLinecap="round">
+            {network.edges.map(([i, j], k) => (
+              <line key={k} x1={network.nodes[i].x} y1={network.nodes[i].y} x2={network.nodes[j].x} y2={network.nodes[j].y} />
+            ))}
+          </g>
+
+          {network.nodes.map((p, i) => p.pinned ? (
+            <circle key={i} cx={p.x} cy={p.y} r="8" fill="#1c1917" stroke={selected === i ? '#f59e0b' : 'none'} strokeWidth="3" />
+          ) : (
+            <circle
+              key={i} cx={p.x} cy={p.y} r="5"
+              fill={junctionError(network, i) < 2 ? '#16a34a' : '#f97316'}
+              stroke={selected === i ? '#f59e0b' : 'white'} strokeWidth="2"
+              onDoubleClick={removeJunction(i)} onContextMenu={removeJunction(i)}
+            />
+          ))}
+        </svg>
+        <div className="absolute top-3 left-3 text-[10px] font-mono text-stone-500 space-y-0.5 pointer-events-none">
+          <div>t = {formatNumber(state.time, 2)} s</div>
+          <div>{t('relax.t1')}: {state.t1Count}</div>
+          <div>{t('relax.splits')}: {state.splitCount}</div>
+        </div>
+        <div className="absolute bottom-3 left-3 right-3 text-[11px] text-stone-400 text-center pointer-events-none">
+          {t('relax.hint')}
+        </div>
+      </div>
+
+      <div className="w-full lg:w-1/3 flex flex-col justify-center p-4">
+        <h3 className="font-serif text-xl text-stone-900 mb-4">{t('relax.title')}</h3>
+        <p className="text-sm text-stone-500 mb-6">
+          {t('relax.description')}
+        </p>
+
+        <div className="space-y-4 mb-6">
+          <div className="flex gap-1">
+            {LAYOUTS.map((l) => (
+              <button key={l} onClick={() => changeLayout(l)} className={`flex-1 py-1 rounded text-xs font-bold transition-all ${layout === l ? 'bg-stone-800 text-white' : 'bg-stone-100 text-stone-500 hover:bg-stone-200'}`}>{t(`relax.layout.${l}`)}</button>
+            ))}
+          </div>
+          <div>
+            <div className="text-sm font-medium mb-1">{t('relax.start')}</div>
+            <div className="flex flex-wrap gap-1">
+              <button onClick={() => loadPreset('star')} className="px-3 py-1 rounded text-xs font-bold bg-stone-100 text-stone-600 hover:bg-stone-200">{t('relax.preset.star')}</button>
+              <button onClick={() => loadPreset('mst')} className="px-3 py-1 rounded text-xs font-bold bg-stone-100 text-stone-600 hover:bg-stone-200">{t('relax.preset.mst')}</button>
+              {layout === 'rectangle' && (
+                <>
+                  <button onClick={() => loadPreset('horizontal')} className="px-3 py-1 rounded text-xs font-bold bg-stone-100 text-stone-600 hover:bg-stone-200">{t('relax.preset.horizontal')}</button>
+                  <button onClick={() => loadPreset('vertical')} className="px-3 py-1 rounded text-xs font-bold bg-stone-100 text-stone-600 hover:bg-stone-200">{t('relax.preset.vertical')}</button>
+                </>
+              )}
+              <button onClick={() => loadPreset('empty')} className="px-3 py-1 rounded text-xs font-bold bg-stone-100 text-stone-600 hover:bg-stone-200 flex items-center gap-1"><Trash2 size={12} /> {t('relax.preset.draw')}</button>
+            </div>
+          </div>
+          {layout === 'rectangle' && (
+            <div>
+              <label className="flex justify-between text-sm font-medium mb-1">
+                <span>{t('relax.aspect')}</span>
+                <span className="font-mono text-blue-600">{formatNumber(aspect, 2)} : 1</span>
+              </label>
+              <input type="range" min={ASPECT_RANGE[0]} max={ASPECT_RANGE[1]} step="0.05" value={aspect} onChange={(e) => changeAspect(parseFloat(e.target.value))} className="w-full accent-blue-500" />
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white p-4 rounded-xl border border-stone-200 mb-4 text-xs">
+          <div className="text-xs font-bold text-stone-400 uppercase tracking-wider mb-2">{t('relax.totalLength')}</div>
+          <div className="flex items-end gap-2 mb-2">
+            <span className="text-3xl font-serif text-stone-800">{formatNumber(toUnits(length), 3)}</span>
+            <span className="text-sm text-stone-500 mb-1">{t('common.units')}</span>
+          </div>
+          <div className="flex justify-between text-stone-500"><span>{t('relax.globalMinimum')}</span><span className="font-mono">{formatNumber(toUnits(optimum.length), 3)}</span></div>
+          <div className="mt-2">
+            {!connected ? (
+              <span className="text-stone-400">{t('relax.notJoined')}</span>
+            ) : !state.settled ? (
+              <span className="text-stone-400">{t(playing ? 'relax.relaxing' : 'relax.pressRelax')}</span>
+            ) : excess < 2e-3 ? (
+              <span className="text-green-600 font-bold">{t('relax.atGlobal')}</span>
+            ) : (
+              <span className="text-amber-600 font-bold">{t('relax.atLocal', { percent: formatNumber(100 * excess, 1) })}</span>
+            )}
+          </div>
+        </div>
+
+        {layout === 'rectangle' && (
+          <div className="mb-4">
+            <LineChart
+              title={t('relax.chart')}
+              unit="× h"
+              xDomain={ASPECT_RANGE}
+              xLabel="w/h"
+              cursor={aspect}
+              markers={[{ x: RECTANGLE_SWITCH_ASPECT, label: t('relax.switch'), color: '#64748b' }]}
+              series={[
+                { id: 'h', label: t('relax.preset.horizontal'), color: '#2563eb', points: curves.horizontal },
+                { id: 'v', label: t('relax.preset.vertical'), color: '#f97316', points: curves.vertical },
+              ]}
+            />
+            <div className="flex justify-between text-[11px] text-stone-500 mt-1 font-mono">
+              <span>↔ {bridgeLengths.horizontal != null ? formatNumber(toUnits(bridgeLengths.horizontal), 3) : '—'}</span>
+              <span>↕ {bridgeLengths.vertical != null ? formatNumber(toUnits(bridgeLengths.vertical), 3) : '—'}</span>
+            </div>
+          </div>
+        )}
+
+        <button onClick={() => setPlaying(!playing)} disabled={state.settled} className={`w-full py-3 rounded-lg font-bold transition-all flex items-center justify-center gap-2 disabled:opacity-40 ${playing ? 'bg-stone-200 text-stone-600' : 'bg-blue-600 text-white hover:bg-blue-700'}`}>
+          {playing ? <><Pause size={16} /> {t('common.pause')}</> : <><Play size={16} /> {t('common.relax')}</>}
+        </button>
+        <button onClick={() => loadPreset('star')} className="mt-2 w-full py-2 text-stone-500 hover:text-stone-800 flex items-center justify-center gap-2"><RotateCcw size={14} /> {t('common.reset')}</button>
+      </div>
+    </div>
+  );
+};
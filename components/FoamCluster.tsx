@@ -0,0 +1,241 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useRef, useState } from 'react';
+import { Pause, Play, RotateCcw, Shuffle } from 'lucide-react';
+import { LineChart } from './LineChart';
+import { PANEL_REFRESH_MS, useTransportClock } from './TransportControls';
+import { useI18n } from '../i18n';
+import {
+  DEFAULT_FOAM,
+  advanceFoam,
+  createFoam,
+  foamEdges,
+  growthRatesBySides,
+  junctionAngleErrors,
+  meanCellArea,
+  sideHistogram,
+  unwrappedCell,
+  vonNeumannRate,
+  type FoamEdge,
+  type FoamState,
+} from '../physics/foam';
+
+const VIEW = 400; // px per box side
+const CELL_COUNTS = [60, 120, 200];
+const SPEEDS = [1, 2, 4];
+const SIM_RATE = 0.25; // simulated time per second at 1×
+const SAMPLE_EVERY = 0.1;
+const HISTOGRAM_MAX = 10; // n ≥ 10 share one bar
+
+const SIDE_COLORS: Record<number, string> = {
+  3: '#fca5a5', 4: '#fdba74', 5: '#fde68a', 6: '#f5f5f4', 7: '#bfdbfe', 8: '#93c5fd', 9: '#60a5fa',
+};
+const sideColor = (n: number) => SIDE_COLORS[Math.min(9, Math.max(3, n))];
+
+/** SVG path of one cell, films drawn as arcs, shifted by (ox, oy) box sides. */
+const cellPath = (state: FoamState, c: number, arcs: Map<number, FoamEdge>, ox: number, oy: number) => {
+  const cell = state.cells[c];
+  const pts = unwrappedCell(state, c, DEFAULT_FOAM.size);
+  const px = (p: [number, number]) => `${((p[0] + ox) * VIEW).toFixed(1)} ${((p[1] + oy) * VIEW).toFixed(1)}`;
+  let d = `M ${px(pts[0])}`;
+  cell.forEach((u, k) => {
+    const w = cell[(k + 1) % cell.length];
+    const next = pts[(k + 1) % pts.length];
+    const e = arcs.get(Math.min(u, w) * 1048576 + Math.max(u, w));
+    if (!e || e.halfAngle === 0) {
+      d += ` L ${px(next)}`;
+      return;
+    }
+    // The film bulges right of e.u → e.w; walking it backwards flips the side.
+    const right = (u === e.u ? e.bulge : -e.bulge) > 0;
+    d += ` A ${(e.radius * VIEW).toFixed(1)} ${(e.radius * VIEW).toFixed(1)} 0 0 ${right ? 1 : 0} ${px(next)}`;
+  });
+  return `${d} Z`;
+};
+
+/** Box offsets at which a cell (possibly straddling the edge) is visible. */
+const copiesOf = (pts: [number, number][]) => {
+  const xs = pts.map((p) => p[0]);
+  const ys = pts.map((p) => p[1]);
+  const offsets: [number, number][] = [];
+  for (const ox of [-1, 0, 1]) {
+    for (const oy of [-1, 0, 1]) {
+      if (Math.max(...xs) + ox > 0 && Math.min(...xs) + ox < 1 && Math.max(...ys) + oy > 0 && Math.min(...ys) + oy < 1) offsets.push([ox, oy]);
+    }
+  }
+  return offsets;
+};
+
+export interface FoamDefaults {
+  cells: number;
+  speed: number;
+}
+
+export const FoamCluster: React.FC<{ defaults: FoamDefaults }> = ({ defaults }) => {
+  const { t, formatNumber } = useI18n();
+  const [cellCount, setCellCount] = useState(defaults.cells);
+  const [seed, setSeed] = useState(1);
+  const [speed, setSpeed] = useState(defaults.speed);
+  const speedRef = useRef(speed);
+  speedRef.current = speed;
+  const [playing, setPlayingState] = useState(false);
+  const playingRef = useRef(playing);
+  const setPlaying = (value: boolean) => {
+    playingRef.current = value;
+    setPlayingState(value);
+  };
+  // While playing, the live foam is in stateRef and advances with the
+  // transport clock; `state` is the snapshot on screen, refreshed every
+  // PANEL_REFRESH_MS.
+  const [state, setState] = useState<FoamState>(() => createFoam(defaults.cells, 1));
+  const stateRef = useRef(state);
+  const [history, setHistory] = useState<[number, number][]>(() => [[0, meanCellArea(state)]]);
+  const historyRef = useRef(history);
+  const lastPublish = useRef(0);
+
+  const reset = (count = cellCount, s = seed) => {
+    setPlaying(false);
+    const fresh = createFoam(count, s);
+    stateRef.current = fresh;
+    setState(fresh);
+    historyRef.current = [[0, meanCellArea(fresh)]];
+    setHistory(historyRef.current);
+  };
+
+  const play = () => {
+    lastPublish.current = performance.now();
+    setPlaying(true);
+  };
+
+  const pause = () => {
+    setPlaying(false);
+    setState(stateRef.current);
+    setHistory(historyRef.current);
+  };
+
+  useTransportClock(playing, (delta) => {
+    if (!playingRef.current) return;
+    const prev = stateRef.current;
+    const next = advanceFoam(prev, delta * speedRef.current * SIM_RATE);
+    stateRef.current = next;
+    if (Math.floor(next.time / SAMPLE_EVERY) > Math.floor(prev.time / SAMPLE_EVERY)) {
+      historyRef.current = [...historyRef.current, [next.time, meanCellArea(next)]];
+    }
+    const now = performance.now();
+    if (now - lastPublish.current >= PANEL_REFRESH_MS) {
+      lastPublish.current = now;
+      setState(next);
+      setHistory(historyRef.current);
+    }
+  });
+
+  const edges = useMemo(() => foamEdges(state), [state]);
+  const arcs = useMemo(() => new Map(edges.map((e) => [Math.min(e.u, e.w) * 1048576 + Math.max(e.u, e.w), e])), [edges]);
+  const histogram = sideHistogram(state);
+  const bars = Array.from({ length: HISTOGRAM_MAX - 2 }, (_, k) => {
+    const n = k + 3;
+    return { n, count: n < HISTOGRAM_MAX ? histogram[n] ?? 0 : histogram.slice(HISTOGRAM_MAX).reduce((a, b) => a + b, 0) };
+  });
+  const tallest = Math.max(1, ...bars.map((b) => b.count));
+  const angleErrors = junctionAngleErrors(state, edges);
+  const meanAngleError = angleErrors.reduce((a, b) => a + b, 0) / Math.max(1, angleErrors.length);
+  const rates = growthRatesBySides(state, edges);
+  const meanSides = state.cells.reduce((s, c) => s + c.length, 0) / state.cells.length;
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-8 h-full">
+      <div className="w-full lg:w-2/3 flex flex-col gap-4">
+        <div className="bg-[#F9F8F4] rounded-xl border border-stone-200 relative flex items-center justify-center overflow-hidden p-4">
+          <svg viewBox={`0 0 ${VIEW} ${VIEW}`} className="w-full max-w-[400px] h-auto">
+            <defs>
+              <clipPath id="foam-box"><rect width={VIEW} height={VIEW} /></clipPath>
+            </defs>
+            <g clipPath="url(#foam-box)" stroke="#44403c" strokeWidth="1.2" strokeLinejoin="round">
+              {state.cells.map((cell, c) =>
+                copiesOf(unwrappedCell(state, c, DEFAULT_FOAM.size)).map(([ox, oy]) => (
+                  <path key={`${state.ids[c]}:${ox}:${oy}`} d={cellPath(state, c, arcs, ox, oy)} fill={sideColor(cell.length)} />
+                )),
+              )}
+            </g>
+            <rect width={VIEW} height={VIEW} fill="none" stroke="#d6d3d1" />
+          </svg>
+          <div className="absolute top-3 left-3 text-[10px] font-mono text-stone-500 space-y-0.5 pointer-events-none bg-white/70 rounded px-1.5 py-1">
+            <div>t = {formatNumber(state.time, 2)}</div>
+            <div>{t('foam.cells', { count: state.cells.length })} · ⟨n⟩ = {formatNumber(meanSides, 2)}</div>
+            <div>T1: {state.t1Count} · T2: {state.t2Count}</div>
+            <div>{t('foam.junctions', { error: formatNumber(meanAngleError, 1) })}</div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <LineChart
+            title={t('foam.chart.area')}
+            xDomain={[0, Math.max(1, state.time)]}
+            xLabel="t"
+            series={[{ id: 'area', label: '⟨A⟩', color: '#2563eb', points: history }]}
+          />
+          <LineChart
+            title={t('foam.chart.rate')}
+            unit="dA/dt"
+            xDomain={[3, 10]}
+            xLabel="n"
+            series={[
+              { id: 'ideal', label: 'von Neumann', color: '#a8a29e', dashed: true, points: [[3, vonNeumannRate(3)], [10, vonNeumannRate(10)]] },
+              { id: 'measured', label: t('foam.measured'), color: '#f97316', points: rates.filter((r) => r.n <= 10).map((r) => [r.n, r.rate]) },
+            ]}
+          />
+        </div>
+      </div>
+
+      <div className="w-full lg:w-1/3 flex flex-col justify-center p-4">
+        <h3 className="font-serif text-xl text-stone-900 mb-4">{t('foam.title')}</h3>
+        <p className="text-sm text-stone-500 mb-6">
+          {t('foam.description')}
+        </p>
+
+        <div className="mb-6">
+          <div className="text-xs font-bold text-stone-400 uppercase tracking-wider mb-2">{t('foam.histogram')}</div>
+          <div className="flex items-end gap-1 h-24">
+            {bars.map((b) => (
+              <div key={b.n} className="flex-1 flex flex-col items-center justify-end h-full">
+                <div className="text-[9px] font-mono text-stone-500">{b.count}</div>
+                <div className="w-full rounded-t border border-stone-300" style={{ height: `${(80 * b.count) / tallest}%`, backgroundColor: sideColor(b.n) }} />
+                <div className="text-[10px] font-mono text-stone-500">{b.n < HISTOGRAM_MAX ? b.n : `${HISTOGRAM_MAX}+`}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-4 mb-6">
+          <div>
+            <div className="text-sm font-medium mb-1">{t('foam.cellCount')}</div>
+            <div className="flex gap-1">
+              {CELL_COUNTS.map((n) => (
+                <button key={n} onClick={() => { setCellCount(n); reset(n); }} className={`flex-1 py-1 rounded text-xs font-bold transition-all ${cellCount === n ? 'bg-stone-800 text-white' : 'bg-stone-100 text-stone-500 hover:bg-stone-200'}`}>{n}</button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <div className="text-sm font-medium mb-1">{t('common.timeSpeed')}</div>
+            <div className="flex gap-1">
+              {SPEEDS.map((s) => (
+                <button key={s} onClick={() => setSpeed(s)} className={`flex-1 py-1 rounded text-xs font-bold transition-all ${speed === s ? 'bg-stone-800 text-white' : 'bg-stone-100 text-stone-500 hover:bg-stone-200'}`}>×{s}</button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <button onClick={playing ? pause : play} disabled={state.cells.length < 3} className={`w-full py-3 rounded-lg font-bold transition-all flex items-center justify-center gap-2 disabled:opacity-40 ${playing ? 'bg-stone-200 text-stone-600' : 'bg-blue-600 text-white hover:bg-blue-700'}`}>
+          {playing ? <><Pause size={16} /> {t('common.pause')}</> : <><Play size={16} /> {t('foam.coarsen')}</>}
+        </button>
+        <div className="flex mt-2">
+          <button onClick={() => reset()} className="flex-1 py-2 text-stone-500 hover:text-stone-800 flex items-center justify-center gap-2"><RotateCcw size={14} /> {t('common.reset')}</button>
+          <button onClick={() => { setSeed(seed + 1); reset(cellCount, seed + 1); }} className="flex-1 py-2 text-stone-500 hover:text-stone-800 flex items-center justify-center gap-2"><Shuffle size={14} /> {t('foam.newFoam')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
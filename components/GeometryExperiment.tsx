@@ -0,0 +1,294 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState, useMemo } from 'react';
+import { RotateCcw, Triangle, Maximize2, Minimize2 } from 'lucide-react';
+import { FilmRelaxation } from './FilmRelaxation';
+import { LessonPanel } from './LessonPanel';
+import { ValidationBadge } from './ValidationBadge';
+import { useLesson } from './lessons';
+import { STEINER_LESSON } from './lessonScripts';
+import { useI18n, type MessageKey } from '../i18n';
+import { enumParam, useUrlParam } from './urlState';
+import {
+  EXACT_LIMIT,
+  junctionAngles,
+  minimumSpanningTree,
+  starFromCentroid,
+  steinerTree,
+  type Network,
+  type Point,
+} from '../physics/steiner';
+import { exactSteinerLength, regularPolygon, regularPolygonSide, validationCheck, type ValidationCheckId } from '../physics/validation';
+
+// Experiment 2: Plateau's problem, the shortest network joining a set of pins.
+
+export type NetworkMode = 'mst' | 'star' | 'soap';
+
+export interface GeometryDefaults {
+  mode: 'solver' | 'relax';
+  net: NetworkMode;
+}
+
+const GEO_SIZE = 300;
+const PX_PER_UNIT = 200; // the original square has side 1
+const SQUARE_PINS: Point[] = [{ x: 50, y: 50 }, { x: 250, y: 50 }, { x: 50, y: 250 }, { x: 250, y: 250 }];
+// Regular polygons with a known minimal length, for validation mode.
+const VALIDATION_PRESETS: { label: MessageKey, pins: Point[] }[] = [
+    { label: 'validation.steiner.triangle', pins: regularPolygon(3, 200, { x: 150, y: 165 }) },
+    { label: 'validation.steiner.square', pins: SQUARE_PINS },
+    { label: 'validation.steiner.hexagon', pins: regularPolygon(6, 110, { x: 150, y: 150 }) },
+];
+const POLYGON_CHECKS: Record<number, ValidationCheckId> = { 3: 'steinerTriangle', 4: 'steinerSquare', 6: 'steinerHexagon' };
+
+const NETWORK_STYLE: Record<NetworkMode, { stroke: string, width: number }> = {
+    mst: { stroke: '#94a3b8', width: 4 },
+    star: { stroke: '#a78bfa', width: 4 },
+    soap: { stroke: '#3b82f6', width: 6 },
+};
+
+// Arcs marking the angle between consecutive edges at a junction.
+const JunctionMarks = ({ network, index }: { network: Network, index: number }) => {
+    const p = network.nodes[index];
+    const r = 14;
+    return (
+        <g>
+            {junctionAngles(network, index).map((a, k) => {
+                const x1 = p.x + r * Math.cos(a.from);
+                const y1 = p.y + r * Math.sin(a.from);
+                const x2 = p.x + r * Math.cos(a.to);
+                const y2 = p.y + r * Math.sin(a.to);
+                const mid = (a.from + a.to) / 2;
+                return (
+                    <g key={k}>
+                        <path d={`M ${x1} ${y1} A ${r} ${r} 0 ${a.angle > Math.PI ? 1 : 0} 1 ${x2} ${y2}`} fill="none" stroke="white" strokeWidth="2" />
+                        {k === 0 && (
+                            <text x={p.x + (r + 12) * Math.cos(mid)} y={p.y + (r + 12) * Math.sin(mid) + 3} textAnchor="middle" className="text-[9px] font-sans" fill="#3b82f6">
+                                {Math.round((a.angle * 180) / Math.PI)}°
+                            </text>
+                        )}
+                    </g>
+                );
+            })}
+        </g>
+    );
+};
+
+const SteinerExperiment = ({ defaultNetwork, validation }: { defaultNetwork: NetworkMode, validation: boolean }) => {
+    const { t, formatNumber } = useI18n();
+    const [mode, setMode] = useUrlParam<NetworkMode>('net', defaultNetwork, enumParam(['mst', 'star', 'soap'] as const));
+    const [pins, setPins] = useState<Point[]>(SQUARE_PINS);
+    const svgRef = useRef<SVGSVGElement>(null);
+    const drag = useRef<number | null>(null);
+
+    const networks = useMemo(() => ({
+        mst: minimumSpanningTree(pins),
+        star: starFromCentroid(pins),
+        soap: steinerTree(pins),
+    }), [pins]);
+    const shown = networks[mode];
+    const toUnits = (px: number) => px / PX_PER_UNIT;
+
+    const svgPoint = (e: React.PointerEvent): Point => {
+        const svg = svgRef.current!;
+        const pt = svg.createSVGPoint();
+        pt.x = e.clientX;
+        pt.y = e.clientY;
+        const local = pt.matrixTransform(svg.getScreenCTM()!.inverse());
+        return { x: Math.min(GEO_SIZE - 10, Math.max(10, local.x)), y: Math.min(GEO_SIZE - 10, Math.max(10, local.y)) };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        if (e.button !== 0) return;
+        const p = svgPoint(e);
+        const hit = pins.findIndex((q) => Math.hypot(q.x - p.x, q.y - p.y) < 12);
+        if (hit >= 0) {
+            drag.current = hit;
+            svgRef.current!.setPointerCapture(e.pointerId);
+        } else {
+            setPins([...pins, p]);
+        }
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (drag.current == null) return;
+        const p = svgPoint(e);
+        const index = drag.current;
+        setPins((prev) => prev.map((q, i) => (i === index ? p : q)));
+    };
+
+    const handlePointerUp = () => {
+        drag.current = null;
+    };
+
+    const removePin = (index: number) => (e: React.MouseEvent) => {
+        e.preventDefault();
+        if (pins.length > 2) setPins(pins.filter((_, i) => i !== index));
+    };
+
+    const rows: { id: NetworkMode, label: string, length: number }[] = [
+        { id: 'soap', label: t('steiner.row.soap'), length: networks.soap.length },
+        { id: 'mst', label: t('steiner.row.mst'), length: networks.mst.length },
+        { id: 'star', label: t('steiner.row.star'), length: networks.star.length },
+    ];
+    const longest = Math.max(...rows.map((r) => r.length));
+    const soapAngles = networks.soap.nodes.slice(networks.soap.terminalCount).flatMap((_, k) => junctionAngles(networks.soap, networks.soap.terminalCount + k));
+    // Validation: regular polygons have a closed-form minimal length, and every
+    // junction of a minimal network should sit at 120°.
+    const regularSide = validation ? regularPolygonSide(pins) : null;
+    const exactLength = regularSide != null ? exactSteinerLength(pins.length, regularSide) : null;
+    const lengthError = exactLength != null ? Math.abs(networks.soap.length - exactLength) / exactLength : null;
+    // Only the polygons the validation suite runs have a tolerance to judge against.
+    const lengthCheck = POLYGON_CHECKS[pins.length] ? validationCheck(POLYGON_CHECKS[pins.length]) : null;
+    const angleDeviation = soapAngles.length ? Math.max(...soapAngles.map((a) => Math.abs((a.angle * 180) / Math.PI - 120))) : null;
+    const lesson = useLesson(STEINER_LESSON, {
+        lengths: { mst: toUnits(networks.mst.length), star: toUnits(networks.star.length), soap: toUnits(networks.soap.length) },
+        junctionAngle: soapAngles.length ? soapAngles.reduce((s, a) => s + (a.angle * 180) / Math.PI, 0) / soapAngles.length : null,
+    }, {
+        resetSquare: () => setPins(SQUARE_PINS),
+        showMst: () => setMode('mst'),
+        showSoap: () => setMode('soap'),
+    });
+
+    return (
+        <div className="flex flex-col lg:flex-row gap-8 h-full items-center">
+            <div className="w-full lg:w-2/3 h-[400px] bg-[#F9F8F4] rounded-xl border border-stone-200 relative flex items-center justify-center overflow-hidden">
+                <svg
+                    ref={svgRef}
+                    width={GEO_SIZE} height={GEO_SIZE} viewBox={`0 0 ${GEO_SIZE} ${GEO_SIZE}`}
+                    className="touch-none cursor-crosshair"
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                >
+                    {/* Grid */}
+                    <defs>
+                        <pattern id="grid" width="20" height="20" patternUnits="userSpaceOnUse">
+                            <path d="M 20 0 L 0 0 0 20" fill="none" stroke="#ddd" strokeWidth="0.5"/>
+                        </pattern>
+                    </defs>
+                    <rect width={GEO_SIZE} height={GEO_SIZE} fill="url(#grid)" />
+
+                    {/* Lines */}
+                    <g stroke={NETWORK_STYLE[mode].stroke} strokeWidth={NETWORK_STYLE[mode].width} strokeLinecap="round">
+                        {shown.edges.map(([i, j], k) => (
+                            <line key={k} x1={shown.nodes[i].x} y1={shown.nodes[i].y} x2={shown.nodes[j].x} y2={shown.nodes[j].y} />
+                        ))}
+                    </g>
+
+                    {/* Steiner Points (only in soap mode) */}
+                    {mode === 'soap' && shown.nodes.slice(shown.terminalCount).map((sp, k) => (
+                        <g key={k}>
+                            <JunctionMarks network={shown} index={shown.terminalCount + k} />
+                            <circle cx={sp.x} cy={sp.y} r="6" fill="#3b82f6" stroke="white" strokeWidth="2" />
+                        </g>
+                    ))}
+                    {mode === 'star' && (
+                        <circle cx={shown.nodes[shown.terminalCount].x} cy={shown.nodes[shown.terminalCount].y} r="5" fill="#a78bfa" />
+                    )}
+
+                    {/* Points */}
+                    {pins.map((pt, i) => (
+                        <circle key={i} cx={pt.x} cy={pt.y} r="8" fill="#1c1917" className="cursor-move" onDoubleClick={removePin(i)} onContextMenu={removePin(i)} />
+                    ))}
+                </svg>
+                <div className="absolute bottom-3 left-3 right-3 text-[11px] text-stone-400 text-center pointer-events-none">
+                    {t('steiner.hint')}
+                </div>
+            </div>
+
+            <div className="w-full lg:w-1/3 flex flex-col justify-center p-4">
+                <h3 className="font-serif text-xl text-stone-900 mb-4">{t('steiner.title')}</h3>
+                <p className="text-sm text-stone-500 mb-6">
+                    {t('steiner.description')}
+                </p>
+                <LessonPanel session={lesson} />
+
+                <div className="flex gap-2 mb-6">
+                    <button onClick={() => setMode('mst')} disabled={lesson.locked} className={`flex-1 p-3 rounded-lg border-2 transition-all disabled:opacity-50 ${mode === 'mst' ? 'border-stone-800 bg-stone-100' : 'border-stone-200'}`}>
+                        <div className="flex justify-center mb-2"><Maximize2 /></div>
+                        <div className="text-xs font-bold text-center uppercase">{t('steiner.mode.mst')}</div>
+                    </button>
+                    <button onClick={() => setMode('star')} disabled={lesson.locked} className={`flex-1 p-3 rounded-lg border-2 transition-all disabled:opacity-50 ${mode === 'star' ? 'border-violet-500 bg-violet-50' : 'border-stone-200'}`}>
+                        <div className="flex justify-center mb-2 text-violet-500"><Triangle /></div>
+                        <div className="text-xs font-bold text-center uppercase text-violet-600">{t('steiner.mode.star')}</div>
+                    </button>
+                    <button onClick={() => setMode('soap')} disabled={lesson.locked} className={`flex-1 p-3 rounded-lg border-2 transition-all disabled:opacity-50 ${mode === 'soap' ? 'border-blue-500 bg-blue-50' : 'border-stone-200'}`}>
+                        <div className="flex justify-center mb-2 text-blue-500"><Minimize2 /></div>
+                        <div className="text-xs font-bold text-center uppercase text-blue-600">{t('steiner.mode.soap')}</div>
+                    </button>
+                </div>
+
+                <div className="bg-white p-4 rounded-xl border border-stone-200">
+                    <div className="text-xs font-bold text-stone-400 uppercase tracking-wider mb-2">{t('steiner.totalLength')}</div>
+                    <div className="flex items-end gap-2 mb-4">
+                        <span className="text-3xl font-serif text-stone-800">
+                            {formatNumber(toUnits(shown.length), 3)}
+                        </span>
+                        <span className="text-sm text-stone-500 mb-1">{t('common.units')}</span>
+                    </div>
+                    <div className="space-y-2">
+                        {rows.map((row) => (
+                            <div key={row.id} className={`text-xs ${row.id === mode ? 'font-bold text-stone-800' : 'text-stone-500'}`}>
+                                <div className="flex justify-between mb-0.5"><span>{row.label}</span><span className="font-mono">{formatNumber(toUnits(row.length), 3)}</span></div>
+                                <div className="h-1.5 rounded-full bg-stone-100">
+                                    <div className="h-full rounded-full" style={{ width: `${(100 * row.length) / longest}%`, backgroundColor: NETWORK_STYLE[row.id].stroke }} />
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="mt-3 text-xs text-stone-500">
+                        {networks.soap.length <= networks.mst.length + 1e-6 ? (
+                            <span className="text-green-600 font-bold">{t('steiner.shorter', { percent: formatNumber(100 * (1 - networks.soap.length / networks.mst.length), 1) })}</span>
+                        ) : null}
+                        <div className="mt-1 text-stone-400">
+                            {t('steiner.pins', { count: pins.length })} · {networks.soap.exact ? t('steiner.exact') : t('steiner.heuristic', { limit: EXACT_LIMIT })}
+                        </div>
+                    </div>
+                    {validation && (
+                        <div className="mt-3 pt-3 border-t border-stone-100 text-xs text-stone-600 space-y-1">
+                            {exactLength != null && lengthError != null ? (
+                                <>
+                                    <div>{t('validation.steiner.exact', { n: pins.length, length: formatNumber(toUnits(exactLength), 4) })}</div>
+                                    <div className="font-mono">{t('validation.steiner.error', { error: lengthError.toExponential(1) })}</div>
+                                    {lengthCheck && (
+                                        <ValidationBadge pass={lengthError <= lengthCheck.tolerance} tolerance={lengthCheck.tolerance.toExponential(0)} />
+                                    )}
+                                </>
+                            ) : (
+                                <div className="text-stone-400">{t('validation.steiner.none')}</div>
+                            )}
+                            {angleDeviation != null && (
+                                <div className="font-mono">{t('validation.steiner.angles', { deviation: formatNumber(angleDeviation, 2) })}</div>
+                            )}
+                            <div className="flex gap-1 pt-1">
+                                {VALIDATION_PRESETS.map((p) => (
+                                    <button key={p.label} onClick={() => setPins(p.pins)} className="flex-1 py-1 rounded text-xs font-bold bg-stone-100 text-stone-500 hover:bg-stone-200 transition-all">{t(p.label)}</button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+                <button onClick={() => setPins(SQUARE_PINS)} className="mt-2 w-full py-2 text-stone-500 hover:text-stone-800 flex items-center justify-center gap-2"><RotateCcw size={14}/> {t('steiner.resetSquare')}</button>
+            </div>
+        </div>
+    );
+};
+
+// Exact minimal network for the pins, or a drawn film relaxing towards a local minimum.
+export const GeometryExperiment: React.FC<{ defaults: GeometryDefaults, validation: boolean }> = ({ defaults, validation }) => {
+    const { t } = useI18n();
+    const [mode, setMode] = useUrlParam('mode', defaults.mode, enumParam(['solver', 'relax'] as const));
+    return (
+        <div className="flex flex-col gap-4 h-full">
+            <div className="flex gap-2 self-start">
+                <button onClick={() => setMode('solver')} className={`px-4 py-1.5 rounded-full text-xs font-bold uppercase transition-all ${mode === 'solver' ? 'bg-blue-600 text-white' : 'bg-stone-100 text-stone-500 hover:bg-stone-200'}`}>{t('geometry.solver')}</button>
+                <button onClick={() => setMode('relax')} className={`px-4 py-1.5 rounded-full text-xs font-bold uppercase transition-all ${mode === 'relax' ? 'bg-blue-600 text-white' : 'bg-stone-100 text-stone-500 hover:bg-stone-200'}`}>{t('geometry.relax')}</button>
+            </div>
+            {mode === 'solver' ? <SteinerExperiment defaultNetwork={defaults.net} validation={validation} /> : <FilmRelaxation />}
+        </div>
+    );
+};
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { CheckCircle, GraduationCap, X, XCircle } from 'lucide-react';
+import { rich, useI18n, type MessageKey } from '../i18n';
+import { scoreLesson, type LessonSession } from './lessons';
+
+/** The lesson card for the side panel: a start button while idle, the current stage while running. */
+export const LessonPanel = <C,>({ session }: { session: LessonSession<C> }): React.ReactElement => {
+  const { t, locale } = useI18n();
+  const { lesson, stage, record } = session;
+
+  if (!session.active || !stage) {
+    return (
+      <button onClick={session.begin} className="w-full mb-6 py-2 rounded-lg border-2 border-dashed border-amber-300 text-amber-700 text-xs font-bold hover:bg-amber-50 transition-all flex items-center justify-center gap-2">
+        <GraduationCap size={16} />
+        {t('lesson.start', { title: t(lesson.title) })}
+        {record && <span className="font-normal text-amber-600">· {t('lesson.best', { correct: record.best.correct, total: record.best.total })}</span>}
+      </button>
+    );
+  }
+
+  const choiceLabel = (question: string, choice: string | undefined) => {
+    const found = lesson.questions.find((q) => q.id === question)?.choices.find((c) => c.id === choice);
+    return found ? t(found.label) : '—';
+  };
+  const last = session.index === lesson.stages.length - 1;
+  const nextLabel: MessageKey = stage.kind === 'predict' ? 'lesson.lockIn' : last ? 'lesson.finish' : 'lesson.next';
+  const score = session.outcome && scoreLesson(lesson, session.answers, session.outcome);
+
+  return (
+    <div className="mb-6 rounded-xl border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900">
+      <div className="flex items-center gap-2 mb-3">
+        <GraduationCap size={16} className="shrink-0" />
+        <span className="font-bold">{t(lesson.title)}</span>
+        <button onClick={session.exit} title={t('lesson.exit')} className="ml-auto p-1 rounded text-amber-600 hover:bg-amber-100"><X size={14} /></button>
+      </div>
+      <div className="flex gap-1 mb-3">
+        {lesson.stages.map((s, i) => (
+          <div key={i} title={t(`lesson.stage.${s.kind}`)} className={`h-1 flex-1 rounded-full ${i <= session.index ? 'bg-amber-500' : 'bg-amber-200'}`} />
+        ))}
+      </div>
+      <div className="text-[10px] font-bold uppercase tracking-wider text-amber-600 mb-1">{t(`lesson.stage.${stage.kind}`)}</div>
+      <p className="mb-3 leading-relaxed">{rich(t(stage.body, stage.vars?.(session.context, session.start, locale)))}</p>
+
+      {stage.kind === 'predict' && (
+        <div className="space-y-3 mb-3">
+          {lesson.questions.map((q) => (
+            <div key={q.id}>
+              <div className="text-xs font-medium mb-1">{t(q.prompt)}</div>
+              <div className="flex flex-col gap-1">
+                {q.choices.map((c) => (
+                  <button key={c.id} onClick={() => session.answer(q.id, c.id)} className={`text-left px-3 py-1.5 rounded text-xs transition-all ${session.answers[q.id] === c.id ? 'bg-amber-600 text-white font-bold' : 'bg-white text-amber-900 hover:bg-amber-100'}`}>
+                    {t(c.label)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {stage.kind === 'compare' && session.outcome && (
+        <div className="space-y-2 mb-3">
+          {lesson.questions.map((q) => {
+            const right = session.answers[q.id] === session.outcome![q.id];
+            return (
+              <div key={q.id} className="bg-white rounded-lg p-2 text-xs">
+                <div className="font-medium mb-1">{t(q.prompt)}</div>
+                <div className="flex items-start gap-1.5">
+                  {right ? <CheckCircle size={14} className="shrink-0 text-green-600" /> : <XCircle size={14} className="shrink-0 text-red-500" />}
+                  <div>
+                    <div>{t('lesson.yours')}: {choiceLabel(q.id, session.answers[q.id])}</div>
+                    {!right && <div className="text-stone-500">{t('lesson.observed')}: {choiceLabel(q.id, session.outcome![q.id])}</div>}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+          {score && <div className="text-xs font-bold">{t('lesson.score', { correct: score.correct, total: score.total })}</div>}
+        </div>
+      )}
+
+      {stage.kind === 'setup' && !session.canContinue && stage.waiting && (
+        <p className="text-xs text-amber-700 mb-3">{t(stage.waiting)}</p>
+      )}
+      {stage.kind === 'observe' && stage.done && (
+        <p className="text-xs text-amber-700 mb-3 animate-pulse">{t('lesson.watching')}</p>
+      )}
+
+      {!(stage.kind === 'observe' && stage.done) && (
+        <button onClick={session.next} disabled={!session.canContinue} className="w-full py-2 rounded-lg bg-amber-600 text-white text-xs font-bold hover:bg-amber-700 transition-all disabled:opacity-40">
+          {t(nextLabel)}
+        </button>
+      )}
+    </div>
+  );
+};
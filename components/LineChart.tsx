@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef } from 'react';
+
+export interface ChartSeries {
+  id: string;
+  label: string;
+  color: string;
+  points: [number, number][];
+  dashed?: boolean;
+}
+
+export interface ChartMarker {
+  x: number;
+  label: string;
+  color?: string;
+}
+
+interface LineChartProps {
+  title: string;
+  unit?: string;
+  series: ChartSeries[];
+  xDomain: [number, number];
+  yDomain?: [number, number];
+  xLabel?: string;
+  /** Vertical cursor position in x units; the user drags it when onScrub is given. */
+  cursor?: number | null;
+  onScrub?: (x: number) => void;
+  markers?: ChartMarker[];
+  height?: number;
+}
+
+const WIDTH = 400;
+const PAD = { left: 36, right: 8, top: 16, bottom: 18 };
+
+const niceDomain = (series: ChartSeries[]): [number, number] => {
+  let min = Infinity;
+  let max = -Infinity;
+  series.forEach((s) => s.points.forEach(([, y]) => {
+    if (y < min) min = y;
+    if (y > max) max = y;
+  }));
+  if (!isFinite(min)) return [0, 1];
+  if (min === max) return [min - 1, max + 1];
+  const pad = (max - min) * 0.08;
+  return [min - pad, max + pad];
+};
+
+const formatTick = (v: number) => {
+  const a = Math.abs(v);
+  if (a >= 1000) return `${(v / 1000).toFixed(1)}k`;
+  if (a >= 10) return v.toFixed(0);
+  if (a >= 1) return v.toFixed(1);
+  return v.toFixed(2);
+};
+
+// Plain SVG line chart; the labs need only a handful of series and a cursor.
+export const LineChart: React.FC<LineChartProps> = ({
+  title, unit, series, xDomain, yDomain, xLabel, cursor, onScrub, markers = [], height = 110,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragging = useRef(false);
+
+  const [x0, x1] = xDomain[1] > xDomain[0] ? xDomain : [xDomain[0], xDomain[0] + 1];
+  const [y0, y1] = yDomain ?? niceDomain(series);
+  const plotW = WIDTH - PAD.left - PAD.right;
+  const plotH = height - PAD.top - PAD.bottom;
+  const sx = (x: number) => PAD.left + ((x - x0) / (x1 - x0)) * plotW;
+  const sy = (y: number) => PAD.top + (1 - (y - y0) / (y1 - y0)) * plotH;
+
+  const scrubFromEvent = (e: React.PointerEvent) => {
+    if (!onScrub || !svgRef.current) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    const px = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const x = x0 + ((px - PAD.left) / plotW) * (x1 - x0);
+    onScrub(Math.min(x1, Math.max(x0, x)));
+  };
+
+  return (
+    <div className="select-none">
+      <div className="flex justify-between items-baseline text-[10px] font-bold uppercase tracking-wider text-stone-400 mb-1">
+        <span>{title}{unit && <span className="normal-case font-normal"> ({unit})</span>}</span>
+        <span className="flex gap-3 normal-case font-normal">
+          {series.map((s) => (
+            <span key={s.id} className="flex items-center gap-1">
+              <span className="inline-block w-3 h-0.5" style={{ backgroundColor: s.color }} />
+              {s.label}
+            </span>
+          ))}
+        </span>
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className={`w-full h-auto bg-white rounded border border-stone-100 ${onScrub ? 'cursor-ew-resize touch-none' : ''}`}
+        onPointerDown={(e) => {
+          if (!onScrub) return;
+          dragging.current = true;
+          (e.target as Element).setPointerCapture?.(e.pointerId);
+          scrubFromEvent(e);
+        }}
+        onPointerMove={(e) => dragging.current && scrubFromEvent(e)}
+        onPointerUp={() => (dragging.current = false)}
+        onPointerCancel={() => (dragging.current = false)}
+      >
+        {[y0, (y0 + y1) / 2, y1].map((y, i) => (
+          <g key={i}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={sy(y)} y2={sy(y)} stroke="#eee" />
+            <text x={PAD.left - 4} y={sy(y) + 3} fontSize="9" textAnchor="end" fill="#a8a29e">{formatTick(y)}</text>
+          </g>
+        ))}
+        {[x0, x1].map((x, i) => (
+          <text key={i} x={sx(x)} y={height - 4} fontSize="9" textAnchor={i ? 'end' : 'start'} fill="#a8a29e">
+            {formatTick(x)}{i === 1 && xLabel ? ` ${xLabel}` : ''}
+          </text>
+        ))}
+
+        {series.map((s) => (
+          <polyline
+            key={s.id}
+            fill="none"
+            stroke={s.color}
+            strokeWidth="1.5"
+            strokeDasharray={s.dashed ? '4 3' : undefined}
+            points={s.points.map(([x, y]) => `${sx(x).toFixed(1)},${sy(Math.min(y1, Math.max(y0, y))).toFixed(1)}`).join(' ')}
+          />
+        ))}
+
+        {markers.map((m, i) => (
+          <g key={i}>
+            <line x1={sx(m.x)} x2={sx(m.x)} y1={PAD.top} y2={height - PAD.bottom} stroke={m.color ?? '#ef4444'} strokeDasharray="3 2" />
+            <text x={sx(m.x) - 3} y={PAD.top - 4} fontSize="9" textAnchor="end" fill={m.color ?? '#ef4444'}>{m.label}</text>
+          </g>
+        ))}
+
+        {cursor != null && (
+          <line x1={sx(cursor)} x2={sx(cursor)} y1={PAD.top - 2} y2={height - PAD.bottom} stroke="#1c1917" strokeWidth="1.5" />
+        )}
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,810 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Canvas, useFrame, type ThreeEvent } from '@react-three/fiber';
+import { Sphere, Cylinder, Text, OrbitControls, Environment } from '@react-three/drei';
+import * as THREE from 'three';
+import { Play, RotateCcw } from 'lucide-react';
+import { LineChart } from './LineChart';
+import { ThinFilmMaterial } from './ThinFilmMaterial';
+import { setText, type TextMesh } from './liveText';
+import { LessonPanel } from './LessonPanel';
+import { FrameDriver, PANEL_REFRESH_MS, TransportControls } from './TransportControls';
+import { ValidationBadge } from './ValidationBadge';
+import { DoubleBubbleScene } from './DoubleBubble';
+import { useLesson } from './lessons';
+import { PAIR_LESSON } from './lessonScripts';
+import { useI18n, type MessageKey } from '../i18n';
+import { enumParam, numberParam, onLabNavigate, readLabLocation, readParam, updateLabParams, useUrlParam } from './urlState';
+import {
+  DEFAULT_CONFIG,
+  addBubble,
+  addPipe,
+  advanceBubbleSystem,
+  applyConfig,
+  createBubbleSystem,
+  createPairSystem,
+  laplacePressure,
+  pipeFlows,
+  removeBubble,
+  removePipe,
+  setBubbleRadius,
+  setPipeOpen,
+  stepBubbleSystem,
+  totalMoles,
+  type BubbleState,
+  type BubbleSystem,
+  type BubbleSystemConfig,
+} from '../physics/bubbles';
+import { createRecorder, record, sampleAt, sampleNear, truncate, type Recorder } from '../physics/recorder';
+import { FLUIDS, bubbleConfigFor, fluidById, resolveInterface, type InterfaceKind } from '../physics/fluids';
+import { SCENE_UNITS_PER_MM, celsiusToKelvin, formatAmount, formatLength, formatPressure, formatSurfaceTension, formatTemperature, formatVolume } from '../physics/units';
+import { exactPairRadius, validationCheck } from '../physics/validation';
+import { doubleBubble, junctionAngles, sphereVolume } from '../physics/doubleBubble';
+
+// Experiment 1: two bubbles joined by a valve, a network of them, or two pushed
+// together into a double bubble (Young–Laplace, ideal gas).
+
+export interface MechanicsDefaults {
+  mode: 'pair' | 'network' | 'double';
+  fluid: string;
+  surface: InterfaceKind;
+  /** Starting radii of bubbles A and B in the two-bubble setup, mm. */
+  r1: number;
+  r2: number;
+  /** Surrounding air pressure, kPa, and temperature, °C. */
+  ambient: number;
+  temperature: number;
+}
+
+// Bubble `id` as it stands in `source` (radius in mm, pressure in Pa), drawn at
+// SCENE_UNITS_PER_MM. Size and labels follow the ref every frame, without a
+// React render.
+interface Bubble3DProps {
+    id: string;
+    source: React.MutableRefObject<BubbleSystem>;
+    position: [number, number, number];
+    label: string;
+    selected?: boolean;
+    onClick: (e: ThreeEvent<MouseEvent>) => void;
+}
+
+const Bubble3D = ({ id, source, position, label, selected = false, onClick }: Bubble3DProps): JSX.Element => {
+  const { locale } = useI18n();
+  const sphere = useRef<THREE.Mesh>(null);
+  const labels = useRef<THREE.Group>(null);
+  const radiusText = useRef<TextMesh>(null);
+  const pressureText = useRef<TextMesh>(null);
+  const read = () => {
+    const b = source.current.bubbles.find((x) => x.id === id);
+    const radius = !b || b.collapsed ? 0 : b.radius;
+    return {
+      size: Math.max(0.1, radius * SCENE_UNITS_PER_MM),
+      collapsed: radius < DEFAULT_CONFIG.minRadius,
+      radius: `r = ${formatLength(radius, locale)}`,
+      pressure: `ΔP = ${formatPressure(b?.pressure ?? 0, locale)}`,
+    };
+  };
+  const initial = read();
+
+  useFrame(() => {
+    if (!sphere.current || !labels.current) return;
+    const now = read();
+    sphere.current.scale.setScalar(now.size);
+    labels.current.position.y = now.size;
+    setText(radiusText.current, now.radius);
+    setText(pressureText.current, now.pressure);
+  });
+
+  return (
+    <group position={position}>
+      <Sphere ref={sphere} args={[1, 64, 64]} scale={initial.size} onClick={onClick}>
+         <ThinFilmMaterial tint={initial.collapsed ? "#ffaaaa" : selected ? "#bfdbfe" : "#ffffff"} />
+      </Sphere>
+      <group ref={labels} position={[0, initial.size, 0]}>
+        <Text position={[0, 0.8, 0]} fontSize={0.3} color={selected ? "#2563eb" : "#333"} anchorY="bottom">
+          {label}
+        </Text>
+        <Text ref={radiusText} position={[0, 0.4, 0]} fontSize={0.2} color="#666" anchorY="bottom">
+          {initial.radius}
+        </Text>
+        <Text ref={pressureText} position={[0, 0.15, 0]} fontSize={0.2} color="#0066cc" anchorY="bottom">
+          {initial.pressure}
+        </Text>
+      </group>
+    </group>
+  );
+};
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+// Tube from one bubble centre to another, with the valve at its midpoint.
+// `flow` is read every frame for the drifting particles.
+const Pipe = ({ from, to, isOpen, flow, onToggle }: { from: [number, number, number], to: [number, number, number], isOpen: boolean, flow: () => number, onToggle?: () => void }) => {
+    const { mid, length, quaternion } = useMemo(() => {
+        const a = new THREE.Vector3(...from);
+        const b = new THREE.Vector3(...to);
+        const dir = b.clone().sub(a);
+        return {
+            mid: a.clone().add(b).multiplyScalar(0.5).toArray(),
+            length: dir.length(),
+            quaternion: new THREE.Quaternion().setFromUnitVectors(UP, dir.normalize()),
+        };
+    }, [from[0], from[1], from[2], to[0], to[1], to[2]]);
+
+    const { t } = useI18n();
+
+    return (
+        <group position={mid}>
+            <group quaternion={quaternion}>
+                <Cylinder args={[0.15, 0.15, length, 32]}>
+                    <meshStandardMaterial color="#e5e7eb" transparent opacity={0.8} metalness={0.5} roughness={0.2} />
+                </Cylinder>
+                <AirFlowParticles isOpen={isOpen} flow={flow} length={length} />
+            </group>
+            <group onClick={(e) => { if (!onToggle) return; e.stopPropagation(); onToggle(); }}>
+                <Cylinder args={[0.25, 0.25, 0.5, 16]}>
+                    <meshStandardMaterial color={isOpen ? "#4ade80" : "#f87171"} />
+                </Cylinder>
+                <Text position={[0, 0, 0.4]} fontSize={0.2} color="white">
+                    {t(isOpen ? 'mech.valve.open' : 'mech.valve.shut')}
+                </Text>
+            </group>
+        </group>
+    );
+};
+
+// Particles drift along the pipe's local Y axis; positive flow is from → to.
+const AirFlowParticles = ({ isOpen, flow, length = 4 }: { isOpen: boolean, flow: () => number, length?: number }) => {
+    const particles = useRef<THREE.Group>(null);
+    const half = length / 2;
+    useFrame((state, delta) => {
+        if (!particles.current) return;
+        const q = flow();
+        particles.current.visible = isOpen && Math.abs(q) >= 1e-4;
+        if (!particles.current.visible) return;
+        const speed = Math.min(4, 0.5 + Math.abs(q) * 0.002);
+        particles.current.children.forEach((p, i) => {
+             const v = q > 0 ? speed : -speed;
+             p.position.y = p.position.y + v * delta;
+             if (p.position.y > half) p.position.y = -half;
+             if (p.position.y < -half) p.position.y = half;
+             p.scale.setScalar(Math.sin(state.clock.elapsedTime * 5 + i) * 0.05 + 0.05);
+        });
+    });
+    return (
+        <group ref={particles} visible={false}>
+            {[...Array(10)].map((_, i) => (
+                <mesh key={i} position={[0, (i / 10 - 0.5) * length, 0]} scale={0.05}>
+                    <sphereGeometry args={[1]} />
+                    <meshBasicMaterial color="#aaa" />
+                </mesh>
+            ))}
+        </group>
+    )
+};
+
+const PAIR_POSITIONS: Record<string, [number, number, number]> = { A: [-2.2, 0, 0], B: [2.2, 0, 0] };
+
+// Starting network: four bubbles of different sizes around a loop.
+const createNetworkPreset = (config: BubbleSystemConfig) => ({
+    system: createBubbleSystem(
+        [{ id: 'A', radius: 9 }, { id: 'B', radius: 6 }, { id: 'C', radius: 7.5 }, { id: 'D', radius: 4.5 }],
+        [
+            { id: 'A-B', from: 'A', to: 'B', open: true },
+            { id: 'B-C', from: 'B', to: 'C', open: true },
+            { id: 'C-D', from: 'C', to: 'D', open: false },
+            { id: 'A-D', from: 'A', to: 'D', open: true },
+        ],
+        config,
+    ),
+    positions: {
+        A: [-2.4, 0, -0.6], B: [0, 0, -1.6], C: [2.4, 0, -0.6], D: [0, 0, 1.2],
+    } as Record<string, [number, number, number]>,
+});
+
+const SERIES_COLORS = ['#2563eb', '#f97316', '#16a34a', '#9333ea', '#dc2626', '#0891b2', '#ca8a04', '#db2777'];
+
+// Radius, pressure and flow traces against simulated time, plus a scrub cursor
+// that picks which recorded moment the 3D view shows. `reference` adds the
+// analytic final radius as a dashed line; `peak` marks the largest ΔP.
+const MechanicsCharts = ({ history, config, cursor, onScrub, stoppedAt, peak = null, reference = null }: { history: Recorder<BubbleSystem>, config: BubbleSystemConfig, cursor: number | null, onScrub: (t: number) => void, stoppedAt: number | null, peak?: number | null, reference?: number | null }) => {
+    const { t } = useI18n();
+    const { radius, pressure, flow } = useMemo(() => {
+        const samples = history.samples;
+        const ids = samples.length ? samples[samples.length - 1].state.bubbles.map((b) => b.id) : [];
+        const pipes = samples.length ? samples[samples.length - 1].state.pipes : [];
+        const trace = (id: string, pick: (b: BubbleState) => number) =>
+            samples.flatMap(({ time, state }) => {
+                const b = state.bubbles.find((x) => x.id === id);
+                return b && !b.collapsed ? [[time, pick(b)] as [number, number]] : [];
+            });
+        return {
+            radius: ids.map((id, i) => ({ id, label: id, color: SERIES_COLORS[i % SERIES_COLORS.length], points: trace(id, (b) => b.radius) })),
+            pressure: ids.map((id, i) => ({ id, label: id, color: SERIES_COLORS[i % SERIES_COLORS.length], points: trace(id, (b) => b.pressure) })),
+            flow: pipes.map((p, i) => ({
+                id: p.id,
+                label: `${p.from}→${p.to}`,
+                color: SERIES_COLORS[(i + 3) % SERIES_COLORS.length],
+                points: samples.map(({ time, state }) => [time, pipeFlows(state, config)[p.id] ?? 0] as [number, number]),
+            })),
+        };
+    }, [history, config]);
+
+    const t0 = history.samples[0]?.time ?? 0;
+    const t1 = Math.max(t0 + 1, history.samples[history.samples.length - 1]?.time ?? 1);
+    const markers = stoppedAt != null ? [{ x: stoppedAt, label: `r < ${config.minRadius} mm` }] : [];
+    const common = { xDomain: [t0, t1] as [number, number], cursor, onScrub, markers, xLabel: 's' };
+    const radiusSeries = reference == null ? radius : [...radius, { id: 'exact', label: 'r∞', color: '#64748b', dashed: true, points: [[t0, reference], [t1, reference]] as [number, number][] }];
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <LineChart title={t('mech.chart.radius')} unit="mm" series={radiusSeries} {...common} />
+            <LineChart title={t('mech.chart.pressure')} unit="Pa" series={pressure} {...common} markers={peak == null ? markers : [...markers, { x: peak, label: t('mech.peakMarker') }]} />
+            <LineChart title={t('mech.chart.flow')} unit="mm³/s" series={flow} {...common} />
+        </div>
+    );
+};
+
+const MECHANICS_MODE_PARAM = enumParam(['pair', 'network', 'double'] as const);
+const RADIUS_PARAM = numberParam(3, 20);
+const AMBIENT_PARAM = numberParam(20, 110);
+const TEMPERATURE_PARAM = numberParam(-20, 60);
+
+// Air pressures (kPa) worth trying: a town at 1,600 m, the top of Everest and a
+// bell jar with most of the air pumped out.
+const AMBIENT_PRESETS = [
+  { id: 'sea', kPa: 101.325 },
+  { id: 'city', kPa: 83.5 },
+  { id: 'everest', kPa: 33.7 },
+  { id: 'chamber', kPa: 25 },
+] as const;
+
+// The two-bubble setup a link describes: radii r1 and r2 (mm) and the valve.
+const pairFromParams = (params: URLSearchParams, config: BubbleSystemConfig, defaults: MechanicsDefaults) => {
+  const system = createPairSystem(readParam(params, 'r1', defaults.r1, RADIUS_PARAM), readParam(params, 'r2', defaults.r2, RADIUS_PARAM), config);
+  return params.get('valve') === 'open' ? setPipeOpen(system, 'A-B', true) : system;
+};
+
+// Largest pressure difference across an open pipe in the recording. In the
+// two-bubble run it comes just before the smaller bubble empties.
+const pressurePeak = (history: Recorder<BubbleSystem>) => {
+    let peak: { time: number, difference: number } | null = null;
+    for (const { time, state } of history.samples) {
+        const byId = new Map(state.bubbles.map((b) => [b.id, b]));
+        for (const p of state.pipes) {
+            const a = byId.get(p.from);
+            const b = byId.get(p.to);
+            if (!p.open || !a || !b || a.collapsed || b.collapsed) continue;
+            const difference = Math.abs(a.pressure - b.pressure);
+            if (!peak || difference > peak.difference) peak = { time, difference };
+        }
+    }
+    return peak;
+};
+
+// Catalogue key of a fluid's name or note; every entry in FLUIDS has both.
+const fluidKey = (id: string, field: 'name' | 'note') => `fluid.${id}.${field}` as MessageKey;
+
+// Simulated time one press of the step button moves on by, at any speed.
+const STEP_SECONDS = 1 / 30;
+
+const nextBubbleId = (taken: string[]) => {
+    for (let n = 0; ; n++) {
+        const id = String.fromCharCode(65 + (n % 26)) + (n >= 26 ? Math.floor(n / 26) + 1 : '');
+        if (!taken.includes(id)) return id;
+    }
+};
+
+export const MechanicsExperiment: React.FC<{ defaults: MechanicsDefaults, validation: boolean }> = ({ defaults, validation }) => {
+  const { t, locale, formatNumber } = useI18n();
+  const [mode, setMode] = useState<MechanicsDefaults['mode']>(() => readParam(readLabLocation().params, 'mode', defaults.mode, MECHANICS_MODE_PARAM));
+  const [fluidId, setFluidId] = useUrlParam('fluid', defaults.fluid, enumParam(FLUIDS.map((f) => f.id)));
+  const [interfaceKind, setInterfaceKind] = useUrlParam<InterfaceKind>('surface', defaults.surface, enumParam(['film', 'drop'] as const));
+  const [ambient, setAmbient] = useUrlParam('ambient', defaults.ambient, AMBIENT_PARAM);
+  const [celsius, setCelsius] = useUrlParam('temp', defaults.temperature, TEMPERATURE_PARAM);
+  const fluid = fluidById(fluidId);
+  const config = useMemo(() => ({
+      ...bubbleConfigFor(fluid, interfaceKind),
+      ambientPressure: ambient * 1000,
+      temperature: celsiusToKelvin(celsius),
+  }), [fluid, interfaceKind, ambient, celsius]);
+  // While running, the live system is in systemRef and advances inside the
+  // render loop; `system` is the snapshot the panel shows, refreshed every
+  // PANEL_REFRESH_MS. Edits go through setSystem, which updates both.
+  const [system, setSystemState] = useState<BubbleSystem>(() =>
+    mode === 'network' ? createNetworkPreset(config).system : pairFromParams(readLabLocation().params, config, defaults));
+  const systemRef = useRef(system);
+  const setSystem = (update: BubbleSystem | ((s: BubbleSystem) => BubbleSystem)) => {
+    systemRef.current = typeof update === 'function' ? update(systemRef.current) : update;
+    setSystemState(systemRef.current);
+  };
+  const [positions, setPositions] = useState<Record<string, [number, number, number]>>(() =>
+    mode === 'network' ? createNetworkPreset(config).positions : PAIR_POSITIONS);
+  // A link with the valve open replays the experiment straight away.
+  const [running, setRunningState] = useState(() => mode === 'pair' && system.pipes[0].open);
+  const runningRef = useRef(running);
+  const setRunning = (value: boolean) => {
+    runningRef.current = value;
+    setRunningState(value);
+  };
+  const [tool, setTool] = useState<'select' | 'add' | 'connect'>('select');
+  const [selected, setSelected] = useState<string | null>(null);
+  // Double-bubble mode: whether A and B have been pushed together.
+  const [merged, setMerged] = useState(false);
+  const configRef = useRef(config);
+  configRef.current = config;
+  const [history, setHistoryState] = useState(() => createRecorder<BubbleSystem>(1 / 30));
+  const historyRef = useRef(history);
+  const setHistory = (next: Recorder<BubbleSystem>) => {
+    historyRef.current = next;
+    setHistoryState(next);
+  };
+  const lastPublish = useRef(0);
+  const [speed, setSpeed] = useState(1);
+  const speedRef = useRef(speed);
+  speedRef.current = speed;
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [stoppedAt, setStoppedAt] = useState<number | null>(null);
+
+  const clearHistory = () => {
+    setHistory(createRecorder<BubbleSystem>(1 / 30));
+    setCursor(null);
+    setStoppedAt(null);
+  };
+
+  // A new fluid, air pressure or temperature keeps every bubble's gas; the
+  // bubbles swell or shrink to the new pressures, even mid-run.
+  useEffect(() => {
+    setSystem((s) => applyConfig(s, config));
+  }, [config]);
+
+  useEffect(() => {
+    if (!running) return;
+    setCursor(null);
+    setHistory(record(historyRef.current, systemRef.current.time, systemRef.current));
+    lastPublish.current = performance.now();
+  }, [running]);
+
+  const finish = (last: BubbleSystem) => {
+    setHistory(historyRef.current);
+    setStoppedAt(last.time);
+    // The classic experiment shuts its valve once a bubble has emptied.
+    setSystem(mode === 'pair' ? setPipeOpen(last, 'A-B', false) : last);
+    setRunning(false);
+  };
+
+  // One render-loop frame of `delta` wall-clock seconds, scaled by the speed.
+  // advanceBubbleSystem consumes it in fixed steps, so a run takes the same
+  // simulated time at any refresh rate; React only hears about it a few times
+  // a second.
+  const tick = (delta: number) => {
+    if (!runningRef.current) return;
+    const next = advanceBubbleSystem(systemRef.current, delta * speedRef.current, configRef.current);
+    systemRef.current = next;
+    historyRef.current = record(historyRef.current, next.time, next, next.finished);
+
+    if (next.finished) {
+        finish(next);
+        return;
+    }
+    const now = performance.now();
+    if (now - lastPublish.current >= PANEL_REFRESH_MS) {
+        lastPublish.current = now;
+        setSystemState(next);
+        setHistory(historyRef.current);
+    }
+  };
+
+  // Transport. While paused the cursor can sit on any recorded moment; playing
+  // or stepping from there carries on from that moment, so the recording after
+  // it is dropped (the model is deterministic, so nothing is lost unless the
+  // setup was edited).
+  const latest = history.samples[history.samples.length - 1];
+  const rewound = !running && cursor != null && latest != null && cursor < latest.time;
+
+  const resumeFrom = (time: number) => {
+    const sample = sampleAt(historyRef.current, time);
+    if (!sample) return;
+    setHistory(truncate(historyRef.current, sample.time));
+    setSystem(sample.state);
+    setStoppedAt(null);
+    setCursor(null);
+  };
+
+  const play = () => {
+    if (rewound) resumeFrom(cursor);
+    setRunning(true);
+  };
+
+  const pause = () => {
+    setRunning(false);
+    setSystemState(systemRef.current);
+    setHistory(historyRef.current);
+  };
+
+  const step = () => {
+    if (rewound) {
+        setCursor(sampleNear(history, cursor, 1)?.time ?? cursor);
+        return;
+    }
+    let next = systemRef.current;
+    historyRef.current = record(historyRef.current, next.time, next);
+    for (let i = Math.round(STEP_SECONDS / configRef.current.timeStep); i > 0 && !next.finished; i--) {
+        next = stepBubbleSystem(next, configRef.current);
+    }
+    systemRef.current = next;
+    historyRef.current = record(historyRef.current, next.time, next, true);
+    setCursor(null);
+    if (next.finished) finish(next);
+    else {
+        setSystem(next);
+        setHistory(historyRef.current);
+    }
+  };
+
+  const stepBack = () => setCursor(sampleNear(history, cursor ?? system.time, -1)?.time ?? cursor);
+
+  const seek = (time: number) => {
+    if (running) pause();
+    setCursor(time);
+  };
+
+  const load = (nextMode: MechanicsDefaults['mode'], params = new URLSearchParams()) => {
+    setRunning(false);
+    setSelected(null);
+    setTool('select');
+    clearHistory();
+    setMerged(false);
+    if (nextMode !== 'network') {
+        const pair = pairFromParams(params, configRef.current, defaults);
+        setSystem(pair);
+        setPositions(PAIR_POSITIONS);
+        if (nextMode === 'pair' && pair.pipes[0].open) setRunning(true);
+    } else {
+        const preset = createNetworkPreset(configRef.current);
+        setSystem(preset.system);
+        setPositions(preset.positions);
+    }
+  };
+
+  // Back/forward or a followed link: rebuild the setup the URL describes.
+  useEffect(() => onLabNavigate(({ params }) => {
+    const nextMode = readParam(params, 'mode', defaults.mode, MECHANICS_MODE_PARAM);
+    setMode(nextMode);
+    load(nextMode, params);
+  }), []);
+
+  const reset = () => {
+    load(mode);
+    updateLabParams({ r1: null, r2: null, valve: null }, 'reset');
+  };
+
+  const switchMode = (nextMode: MechanicsDefaults['mode']) => {
+    setMode(nextMode);
+    load(nextMode);
+    updateLabParams({ mode: nextMode === defaults.mode ? null : nextMode, r1: null, r2: null, valve: null }, 'mode');
+  };
+
+  const setPairRadius = (id: string, radius: number) => {
+    edit((s) => setBubbleRadius(s, id, radius, config));
+    const key = id === 'A' ? 'r1' : 'r2';
+    updateLabParams({ [key]: RADIUS_PARAM.format(radius) }, key);
+  };
+
+  const openPairValve = () => {
+    edit((s) => setPipeOpen(s, 'A-B', true));
+    setRunning(true);
+    updateLabParams({ valve: 'open' });
+  };
+
+  // Editing leaves any replayed moment for the live setup. A new setup starts
+  // a new recording, so the run's checks measure from the edited state; a
+  // valve thrown mid-run keeps the gas and the run's recording.
+  const edit = (update: (s: BubbleSystem) => BubbleSystem) => {
+    if (runningRef.current) setCursor(null);
+    else clearHistory();
+    setSystem(update);
+  };
+
+  const handleBubbleClick = (id: string) => (e: ThreeEvent<MouseEvent>) => {
+    if (mode !== 'network') return;
+    e.stopPropagation();
+    if (tool === 'connect' && selected && selected !== id) {
+        edit((s) => addPipe(s, selected, id));
+        setSelected(id);
+        return;
+    }
+    setSelected(selected === id && tool === 'select' ? null : id);
+  };
+
+  const handleGroundClick = (e: ThreeEvent<MouseEvent>) => {
+    if (mode !== 'network' || tool !== 'add') return;
+    e.stopPropagation();
+    const id = nextBubbleId(system.bubbles.map((b) => b.id));
+    edit((s) => addBubble(s, { id, radius: 6 }, config));
+    setPositions((p) => ({ ...p, [id]: [e.point.x, 0, e.point.z] }));
+    setSelected(id);
+  };
+
+  // While paused, the chart cursor can replay any recorded moment in the 3D view.
+  const shown = (!running && cursor != null && sampleAt(history, cursor)?.state) || system;
+  const shownRef = useRef(shown);
+  shownRef.current = shown;
+  // The scene reads the live system while running, the snapshot or replayed moment otherwise.
+  const scene = running ? systemRef : shownRef;
+  const flows = pipeFlows(shown, config);
+  const pairValveOpen = mode === 'pair' && system.pipes[0]?.open;
+  const byId = Object.fromEntries(system.bubbles.map((b) => [b.id, b]));
+  const selectedBubble = selected ? byId[selected] : undefined;
+  // Validation: the pair's analytic end state (no gas is lost, so it can be
+  // read off the current radii at any moment) and, for networks, how far the
+  // total amount of gas has drifted since the run started.
+  const exactRadius = mode === 'pair' && system.bubbles.length === 2 ? exactPairRadius(system.bubbles[0].radius, system.bubbles[1].radius, config) : null;
+  const grower = mode === 'pair' ? [...system.bubbles].sort((a, b) => b.radius - a.radius)[0] : undefined;
+  const radiusError = exactRadius != null && grower ? Math.abs(grower.radius - exactRadius) / exactRadius : null;
+  const startMoles = history.samples.length ? totalMoles(history.samples[0].state) : totalMoles(system);
+  const gasDrift = Math.abs(totalMoles(system) - startMoles) / startMoles;
+  const gasCheck = validationCheck(mode === 'network' ? 'networkGas' : 'pairGas');
+  const peak = useMemo(() => pressurePeak(history), [history]);
+  // Double bubble: A and B keep their volumes when they touch, and each
+  // chamber's pressure follows from its outer film.
+  const pairRadii: [number, number] = [byId.A?.radius ?? defaults.r1, byId.B?.radius ?? defaults.r2];
+  const doubled = useMemo(
+    () => (mode === 'double' && merged ? doubleBubble(sphereVolume(pairRadii[0]), sphereVolume(pairRadii[1])) : null),
+    [mode, merged, pairRadii[0], pairRadii[1]],
+  );
+  const largerId = pairRadii[0] >= pairRadii[1] ? 'A' : 'B';
+  const smallerId = largerId === 'A' ? 'B' : 'A';
+  const filmPressure = (r: number) => laplacePressure(r, config.surfaceTension, config.surfaces);
+  const chamberPressures: [number, number] = doubled
+    ? (largerId === 'A' ? [filmPressure(doubled.large), filmPressure(doubled.small)] : [filmPressure(doubled.small), filmPressure(doubled.large)])
+    : [byId.A?.pressure ?? 0, byId.B?.pressure ?? 0];
+  const canPlay = rewound || (!system.finished && (mode === 'network' || pairValveOpen));
+  const transport = (
+      <TransportControls
+          playing={running}
+          onPlay={play}
+          onPause={pause}
+          onStep={step}
+          onStepBack={stepBack}
+          speed={speed}
+          onSpeed={setSpeed}
+          canPlay={canPlay}
+          playLabel={mode === 'network' ? 'mech.runNetwork' : 'common.play'}
+          timeline={latest && {
+              start: history.samples[0].time,
+              end: latest.time,
+              time: running || cursor == null ? system.time : sampleAt(history, cursor)?.time ?? system.time,
+              onSeek: seek,
+          }}
+      />
+  );
+  const lesson = useLesson(PAIR_LESSON, { bubbles: system.bubbles, valveOpen: pairValveOpen, finished: stoppedAt != null && !running }, {
+    reset,
+    openValve: openPairValve,
+  });
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-8 h-full">
+      <div className="w-full lg:w-2/3 flex flex-col gap-4">
+       <div className="relative w-full h-[400px] bg-gradient-to-b from-blue-50 to-white rounded-xl overflow-hidden">
+         <Canvas camera={{ position: mode === 'network' ? [0, 5, 7] : [0, 2, 6], fov: 40 }} key={mode}>
+            <ambientLight intensity={1} />
+            <spotLight position={[10, 10, 10]} intensity={1} />
+            <Environment preset="city" />
+            <FrameDriver onFrame={tick} />
+            <group position={[0, -0.5, 0]}>
+                {mode === 'double' && (
+                    <DoubleBubbleScene radii={pairRadii} pressures={chamberPressures} shape={doubled} onMerge={() => setMerged(true)} />
+                )}
+                {mode !== 'double' && shown.bubbles.map((b) => (
+                    <Bubble3D
+                        key={b.id}
+                        id={b.id}
+                        source={scene}
+                        position={positions[b.id]}
+                        label={t('mech.bubble', { id: b.id })}
+                        selected={selected === b.id}
+                        onClick={handleBubbleClick(b.id)}
+                    />
+                ))}
+                {mode !== 'double' && shown.pipes.map((p) => (
+                    <Pipe
+                        key={p.id}
+                        from={positions[p.from]}
+                        to={positions[p.to]}
+                        isOpen={p.open}
+                        flow={() => pipeFlows(scene.current, configRef.current)[p.id] ?? 0}
+                        onToggle={mode === 'network' ? () => edit((s) => setPipeOpen(s, p.id, !p.open)) : undefined}
+                    />
+                ))}
+                {validation && exactRadius != null && grower && (
+                    <mesh position={positions[grower.id]} scale={exactRadius * SCENE_UNITS_PER_MM}>
+                        <sphereGeometry args={[1, 32, 16]} />
+                        <meshBasicMaterial color="#64748b" wireframe transparent opacity={0.35} />
+                    </mesh>
+                )}
+                {mode === 'network' && (
+                    <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.01, 0]} onClick={handleGroundClick}>
+                        <planeGeometry args={[12, 8]} />
+                        <meshBasicMaterial color="#bfdbfe" transparent opacity={tool === 'add' ? 0.25 : 0} />
+                    </mesh>
+                )}
+            </group>
+            {mode !== 'double' && <OrbitControls enableZoom={false} minPolarAngle={mode === 'pair' ? Math.PI/3 : 0} maxPolarAngle={Math.PI/2} />}
+         </Canvas>
+         {!running && cursor != null && (
+             <div className="absolute top-3 left-3 px-2 py-1 rounded bg-stone-900/70 text-white text-xs font-mono">
+                 {t('mech.replay', { time: formatNumber(sampleAt(history, cursor)?.time ?? 0, 2) })}
+             </div>
+         )}
+         {validation && mode !== 'double' && (
+             <div className="absolute top-3 right-3 px-3 py-2 rounded bg-white/90 border border-stone-200 text-[11px] font-mono text-stone-600 space-y-0.5">
+                 {exactRadius != null && grower && radiusError != null ? (
+                     <>
+                         <div>{t('validation.pair.exact', { r: formatLength(exactRadius, locale) })}</div>
+                         <div>{t('validation.pair.live', { r: formatLength(grower.radius, locale), error: formatNumber(100 * radiusError, 2) })}</div>
+                         {stoppedAt != null && !running && (
+                             <ValidationBadge pass={radiusError <= validationCheck('pairRadius').tolerance} tolerance={`${formatNumber(100 * validationCheck('pairRadius').tolerance)}%`} />
+                         )}
+                     </>
+                 ) : (
+                     <>
+                         <div>{t('validation.network.gas', { drift: gasDrift.toExponential(1) })}</div>
+                         <ValidationBadge pass={gasDrift <= gasCheck.tolerance} tolerance={gasCheck.tolerance.toExponential(0)} />
+                     </>
+                 )}
+             </div>
+         )}
+       </div>
+       {history.samples.length > 1 && (
+           <MechanicsCharts history={history} config={config} cursor={cursor ?? (running ? null : system.time)} onScrub={setCursor} stoppedAt={stoppedAt} peak={peak?.time ?? null} reference={validation ? exactRadius : null} />
+       )}
+      </div>
+      
+      <div className="w-full lg:w-1/3 flex flex-col justify-center p-4">
+          <h3 className="font-serif text-xl text-stone-900 mb-4">{t('mech.title')}</h3>
+          {mode === 'pair' && <LessonPanel session={lesson} />}
+          <div className="flex gap-2 mb-6">
+              {(['pair', 'network', 'double'] as const).map((m) => (
+                  <button key={m} onClick={() => switchMode(m)} disabled={lesson.active} className={`flex-1 py-2 rounded-lg border-2 text-xs font-bold uppercase transition-all ${mode === m ? 'border-blue-500 bg-blue-50 text-blue-600' : 'border-stone-200 text-stone-500'}`}>{t(`mech.mode.${m}`)}</button>
+              ))}
+          </div>
+
+          <div className="mb-6 space-y-2">
+              <label className="flex justify-between items-center text-sm font-medium">
+                  <span>{t('mech.solution')}</span>
+                  <select value={fluidId} onChange={(e) => setFluidId(e.target.value)} disabled={running} className="text-sm border border-stone-200 rounded px-2 py-1 bg-white">
+                      {FLUIDS.map((f) => <option key={f.id} value={f.id}>{t(fluidKey(f.id, 'name'))}</option>)}
+                  </select>
+              </label>
+              <div className="flex gap-1">
+                  <button onClick={() => setInterfaceKind('film')} disabled={!fluid.filmForming || running} title={t('mech.surface.filmHint')} className={`flex-1 py-1 rounded text-xs font-bold transition-all disabled:opacity-40 ${resolveInterface(fluid, interfaceKind) === 'film' ? 'bg-stone-800 text-white' : 'bg-stone-100 text-stone-500'}`}>{t('mech.surface.film')}</button>
+                  <button onClick={() => setInterfaceKind('drop')} disabled={running} title={t('mech.surface.dropHint')} className={`flex-1 py-1 rounded text-xs font-bold transition-all disabled:opacity-40 ${resolveInterface(fluid, interfaceKind) === 'drop' ? 'bg-stone-800 text-white' : 'bg-stone-100 text-stone-500'}`}>{t('mech.surface.drop')}</button>
+              </div>
+              <p className="text-xs text-stone-400" title={t(fluidKey(fluid.id, 'note'))}>
+                  γ = {formatSurfaceTension(fluid.surfaceTension, locale)} · {t(fluidKey(fluid.id, 'note'))}
+              </p>
+          </div>
+
+          <div className="mb-6 space-y-3">
+              <div>
+                  <div className="flex justify-between text-sm font-medium mb-1"><span>{t('mech.ambient')}</span><span className="text-blue-600">{formatPressure(config.ambientPressure, locale)}</span></div>
+                  <input type="range" min="20" max="110" step="0.1" value={ambient} onChange={(e) => setAmbient(parseFloat(e.target.value))} className="w-full accent-blue-500" />
+                  <div className="flex gap-1 mt-1">
+                      {AMBIENT_PRESETS.map((p) => (
+                          <button key={p.id} onClick={() => setAmbient(p.kPa)} className={`flex-1 py-1 rounded text-xs font-bold transition-all ${ambient === p.kPa ? 'bg-stone-800 text-white' : 'bg-stone-100 text-stone-500 hover:bg-stone-200'}`}>{t(`mech.ambient.${p.id}`)}</button>
+                      ))}
+                  </div>
+              </div>
+              <div>
+                  <div className="flex justify-between text-sm font-medium mb-1"><span>{t('mech.temperature')}</span><span className="text-blue-600">{formatTemperature(config.temperature, locale)}</span></div>
+                  <input type="range" min="-20" max="60" step="1" value={celsius} onChange={(e) => setCelsius(parseFloat(e.target.value))} className="w-full accent-blue-500" />
+              </div>
+              <p className="text-xs text-stone-400">{t('mech.gasHint')}</p>
+          </div>
+
+          {mode === 'double' ? (
+            <>
+              <div className="space-y-6 mb-6">
+                {system.bubbles.map((b) => (
+                    <div key={b.id}>
+                        <div className="flex justify-between text-sm font-medium mb-2"><span>{t('mech.bubbleRadius', { id: b.id })}</span><span className="text-blue-600">{formatLength(b.radius, locale)}</span></div>
+                        <input type="range" min="3" max="20" step="0.5" value={b.radius} onChange={(e) => setPairRadius(b.id, parseFloat(e.target.value))} className="w-full accent-blue-500" />
+                        <div className="text-[11px] text-stone-400 font-mono">V = {formatVolume(sphereVolume(b.radius), locale)}</div>
+                    </div>
+                ))}
+              </div>
+              <p className="text-xs text-stone-400 mb-4">{t(doubled ? 'mech.double.merged' : 'mech.double.hint')}</p>
+              {doubled && (
+                  <>
+                      <div className="mb-3 rounded-lg border border-stone-100 p-3 text-xs font-mono text-stone-600 space-y-1">
+                          {(['A', 'B'] as const).map((id, i) => (
+                              <div key={id} className="flex justify-between"><span>{t('mech.double.chamber', { id })}</span><span className="text-blue-600">ΔP = {formatPressure(chamberPressures[i], locale)}</span></div>
+                          ))}
+                          <div className="flex justify-between pt-1"><span>{t('mech.double.wall')}</span><span>{Number.isFinite(doubled.wall) ? formatLength(doubled.wall, locale) : '∞'}</span></div>
+                          <div className="flex justify-between"><span>{t('mech.double.wallPressure')}</span><span>{formatPressure(Math.abs(chamberPressures[0] - chamberPressures[1]), locale)}</span></div>
+                          <div className="flex justify-between"><span>{t('mech.double.curvature', { small: smallerId, large: largerId })}</span><span>{formatNumber(Number.isFinite(doubled.wall) ? 1 / doubled.wall : 0, 4)} mm⁻¹</span></div>
+                          <div className="flex justify-between"><span>{t('mech.double.angles')}</span><span className="text-green-600">{junctionAngles(doubled).map((a) => `${formatNumber(a, 1)}°`).join(' · ')}</span></div>
+                      </div>
+                      <p className="text-xs text-amber-600 mb-4">{Number.isFinite(doubled.wall) ? t('mech.double.bulge', { small: smallerId, large: largerId }) : t('mech.double.flat')}</p>
+                  </>
+              )}
+              <button onClick={() => setMerged(false)} disabled={!merged} className="w-full py-3 rounded-lg font-bold transition-all bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40">{t('mech.double.separate')}</button>
+            </>
+          ) : mode === 'pair' ? (
+            <>
+              <div className="space-y-6 mb-8">
+                {system.bubbles.map((b) => (
+                    <div key={b.id}>
+                        <div className="flex justify-between text-sm font-medium mb-2"><span>{t('mech.bubbleRadius', { id: b.id })}</span><span className="text-blue-600" title={`ΔP = ${interfaceKind === 'film' && fluid.filmForming ? '4γ/r' : '2γ/r'} = ${formatPressure(b.pressure, locale)}`}>{formatLength(b.radius, locale)}</span></div>
+                        <input type="range" min="3" max="20" step="0.5" value={b.radius} onChange={(e) => setPairRadius(b.id, parseFloat(e.target.value))} disabled={pairValveOpen || lesson.locked} className="w-full accent-blue-500" />
+                        <div className="text-[11px] text-stone-400 font-mono">n = {formatAmount(b.moles, locale)}</div>
+                    </div>
+                ))}
+              </div>
+              <button onClick={openPairValve} disabled={pairValveOpen || lesson.active} className={`w-full py-3 rounded-lg font-bold transition-all flex items-center justify-center gap-2 disabled:opacity-60 ${pairValveOpen ? 'bg-stone-200 text-stone-500' : 'bg-blue-600 text-white hover:bg-blue-700'}`}>
+                {pairValveOpen ? t(running ? 'mech.simulating' : 'mech.valveOpen') : <><Play size={16} /> {t('mech.openValve')}</>}
+              </button>
+              <div className="mt-4">{transport}</div>
+            </>
+          ) : (
+            <>
+              <div className="flex gap-1 mb-4">
+                  {(['select', 'add', 'connect'] as const).map((id) => (
+                      <button key={id} onClick={() => setTool(id)} className={`flex-1 py-1.5 rounded text-xs font-bold transition-all ${tool === id ? 'bg-stone-800 text-white' : 'bg-stone-100 text-stone-500 hover:bg-stone-200'}`}>{t(`mech.tool.${id}`)}</button>
+                  ))}
+              </div>
+              <p className="text-xs text-stone-400 mb-4">
+                  {t(`mech.hint.${tool}`)}
+              </p>
+
+              <div className="max-h-40 overflow-y-auto mb-4 border border-stone-100 rounded-lg divide-y divide-stone-100">
+                  {system.bubbles.map((b) => (
+                      <button key={b.id} onClick={() => setSelected(b.id)} className={`w-full flex justify-between px-3 py-1.5 text-xs font-mono ${selected === b.id ? 'bg-blue-50 text-blue-700' : 'text-stone-600'}`}>
+                          <span className="font-bold">{b.id}</span>
+                          <span>{b.collapsed ? t('mech.collapsed') : `r = ${formatLength(b.radius, locale)}`}</span>
+                          <span className="text-blue-600">{b.collapsed ? '—' : `ΔP = ${formatPressure(b.pressure, locale)}`}</span>
+                      </button>
+                  ))}
+              </div>
+
+              {selectedBubble && (
+                  <div className="mb-4">
+                      <div className="flex justify-between text-sm font-medium mb-2"><span>{t('mech.bubbleRadius', { id: selectedBubble.id })}</span><span className="text-blue-600">{formatLength(selectedBubble.radius, locale)}</span></div>
+                      <input type="range" min="3" max="15" step="0.5" value={selectedBubble.radius} onChange={(e) => edit((s) => setBubbleRadius(s, selectedBubble.id, parseFloat(e.target.value), config))} disabled={running} className="w-full accent-blue-500" />
+                      <button onClick={() => { edit((s) => removeBubble(s, selectedBubble.id)); setSelected(null); }} disabled={running} className="mt-2 text-xs text-red-500 hover:text-red-700 disabled:opacity-40">{t('mech.removeBubble', { id: selectedBubble.id })}</button>
+                  </div>
+              )}
+
+              <div className="max-h-32 overflow-y-auto mb-6 space-y-1">
+                  {system.pipes.map((p) => (
+                      <div key={p.id} className="flex items-center justify-between text-xs">
+                          <span className="font-mono text-stone-600">
+                              {p.from} {flows[p.id] > 1e-4 ? '→' : flows[p.id] < -1e-4 ? '←' : '⇹'} {p.to}
+                          </span>
+                          <div className="flex gap-1">
+                              <button onClick={() => edit((s) => setPipeOpen(s, p.id, !p.open))} className={`px-2 py-0.5 rounded font-bold ${p.open ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-600'}`}>{t(p.open ? 'mech.valve.open' : 'mech.valve.shut')}</button>
+                              <button onClick={() => edit((s) => removePipe(s, p.id))} disabled={running} className="px-2 py-0.5 rounded text-stone-400 hover:text-red-500 disabled:opacity-40">✕</button>
+                          </div>
+                      </div>
+                  ))}
+              </div>
+
+              {transport}
+            </>
+          )}
+         {peak && (
+             <button onClick={() => seek(peak.time)} className="mt-3 w-full py-1.5 rounded text-xs font-bold bg-stone-100 text-stone-600 hover:bg-stone-200 transition-all">
+                 {t('mech.peak', { dp: formatPressure(peak.difference, locale), time: formatNumber(peak.time, 2) })}
+             </button>
+         )}
+         <button onClick={() => reset()} className="mt-2 w-full py-2 text-stone-500 hover:text-stone-800 flex items-center justify-center gap-2"><RotateCcw size={14}/> {t('common.reset')}</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,249 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo } from 'react';
+import { Sun } from 'lucide-react';
+import { LineChart } from './LineChart';
+import { FilmDrainage } from './FilmDrainage';
+import { LessonPanel } from './LessonPanel';
+import { ValidationBadge } from './ValidationBadge';
+import { useLesson } from './lessons';
+import { THIN_FILM_LESSON } from './lessonScripts';
+import { useI18n } from '../i18n';
+import { enumParam, numberParam, useUrlParam } from './urlState';
+import {
+  DEFAULT_COLOR_OPTIONS,
+  ILLUMINANTS,
+  VISIBLE_MAX,
+  VISIBLE_MIN,
+  cosRefracted,
+  interferenceColor,
+  interferenceOrders,
+  meanReflectance,
+  newtonSeriesGradient,
+  opticalPathDifference,
+  peakReflectance,
+  reflectanceSpectrum,
+  type FilmParams,
+  type IlluminantId,
+  type Polarization,
+} from '../physics/thinFilm';
+import { closedFormReflectance, reflectanceDeviation, validationCheck } from '../physics/validation';
+
+// Experiment 3: the interference colours of a soap film.
+
+export interface OpticsDefaults {
+  mode: 'static' | 'drainage';
+  thickness: number; // nm
+  angle: number; // degrees
+  refractiveIndex: number;
+  polarization: Polarization;
+  illuminant: IlluminantId;
+}
+
+const THICKNESS_MAX = 1000; // nm
+
+const ThinFilmExperiment = ({ defaults, validation }: { defaults: OpticsDefaults, validation: boolean }) => {
+    const { t, formatNumber } = useI18n();
+    const [thickness, setThickness] = useUrlParam('d', defaults.thickness, numberParam(0, THICKNESS_MAX)); // nm
+    const [angle, setAngle] = useUrlParam('angle', defaults.angle, numberParam(0, 80)); // degrees
+    const [refractiveIndex, setRefractiveIndex] = useUrlParam('n', defaults.refractiveIndex, numberParam(1.2, 1.6));
+    const [polarization, setPolarization] = useUrlParam<Polarization>('pol', defaults.polarization, enumParam(['s', 'p', 'unpolarized'] as const));
+    const [illuminant, setIlluminant] = useUrlParam<IlluminantId>('light', defaults.illuminant, enumParam(ILLUMINANTS.map((il) => il.id)));
+    const film: FilmParams = { thickness, angle, refractiveIndex, polarization };
+    const colorOptions = { ...DEFAULT_COLOR_OPTIONS, illuminant };
+    const color = interferenceColor(thickness, film, colorOptions);
+    const seriesGradient = useMemo(
+        () => newtonSeriesGradient(THICKNESS_MAX, { angle, refractiveIndex, polarization }, { ...DEFAULT_COLOR_OPTIONS, illuminant }),
+        [angle, refractiveIndex, polarization, illuminant],
+    );
+    const spectrum = reflectanceSpectrum(film, 2);
+    const orders = interferenceOrders(film);
+    const opd = opticalPathDifference(film);
+    const cosT = cosRefracted(angle, refractiveIndex);
+    const deviation = validation ? reflectanceDeviation(film, 2) : 0;
+    const lesson = useLesson(THIN_FILM_LESSON, {
+        thickness,
+        opd,
+        reflectance: meanReflectance(film, 2),
+    }, {
+        thickFilm: () => setThickness(600),
+    });
+
+    // Cross-section geometry (px): rays hit the film at x0 and refract at θt.
+    const filmPx = Math.max(2, thickness / 5);
+    const ray = 60;
+    const x0 = 10;
+    const sinI = Math.sin((angle * Math.PI) / 180);
+    const cosI = Math.cos((angle * Math.PI) / 180);
+    const tanT = (sinI / refractiveIndex) / cosT;
+    const xBottom = x0 + filmPx * tanT;
+    const xExit = x0 + 2 * filmPx * tanT;
+
+    return (
+        <div className="flex flex-col lg:flex-row gap-8 h-full">
+            <div className="w-full lg:w-2/3 flex flex-col gap-4">
+            <div className="w-full h-[400px] bg-stone-900 rounded-xl relative overflow-hidden flex items-center justify-center">
+                 {/* Simulated Film View */}
+                 <div className="absolute inset-0 flex">
+                    {/* Left: Cross Section Diagram */}
+                    <div className="w-1/2 h-full border-r border-stone-700 p-8 relative">
+                         <div className="text-stone-400 text-xs uppercase mb-4 tracking-widest">{t('optics.crossSection')}</div>
+                         
+                         {/* The Film */}
+                         <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-32 bg-blue-400/20 border-y border-blue-300/50 transition-all duration-300" style={{ height: `${filmPx}px` }}>
+                            {/* Light Paths */}
+                            <svg className="absolute inset-0 overflow-visible w-full h-full pointer-events-none">
+                                {/* Incident Ray */}
+                                <path d={`M ${x0 - ray * sinI} ${-ray * cosI} L ${x0} 0`} stroke="yellow" strokeWidth="2" />
+                                {/* Reflected Ray 1 (Surface, half-wave shift) */}
+                                <path d={`M ${x0} 0 L ${x0 + ray * sinI} ${-ray * cosI}`} stroke="yellow" strokeWidth="2" strokeOpacity="0.8" strokeDasharray="4 4" />
+                                {/* Refracted Ray */}
+                                <path d={`M ${x0} 0 L ${xBottom} ${filmPx}`} stroke="yellow" strokeWidth="2" strokeOpacity="0.5" />
+                                {/* Reflected Ray 2 (Bottom) */}
+                                <path d={`M ${xBottom} ${filmPx} L ${xExit} 0 L ${xExit + ray * sinI} ${-ray * cosI}`} stroke="yellow" fill="none" strokeWidth="2" strokeOpacity="0.6" />
+                                <text x={x0 + 4} y={-ray * cosI - 6} fontSize="9" fill="#a8a29e">θ = {angle}°</text>
+                            </svg>
+                         </div>
+                         
+                         <div className="absolute left-4 top-1/2 -translate-y-1/2 flex flex-col items-center gap-1">
+                             <div className="h-8 border-l border-t border-stone-500 w-2"></div>
+                             <span className="text-xs text-stone-300 font-mono">{thickness}nm</span>
+                             <div className="h-8 border-l border-b border-stone-500 w-2"></div>
+                         </div>
+
+                         <div className="absolute bottom-6 left-8 right-8 text-[11px] font-mono text-stone-400 leading-relaxed">
+                             OPD = 2nd·cosθt = 2 × {formatNumber(refractiveIndex, 2)} × {thickness} nm × {formatNumber(cosT, 3)} = <span className="text-yellow-300">{formatNumber(opd)} nm</span>
+                         </div>
+                    </div>
+
+                    {/* Right: Visual Color Result */}
+                    <div className="w-1/2 h-full flex flex-col items-center justify-center p-8 relative">
+                        <div className="text-stone-400 text-xs uppercase mb-8 tracking-widest">{t('optics.observed')}</div>
+                        <div 
+                            className="w-48 h-48 rounded-full shadow-[0_0_50px_rgba(255,255,255,0.1)] transition-colors duration-200 relative"
+                            style={{ backgroundColor: color, boxShadow: `0 0 30px ${color}` }}
+                        >
+                            {/* Specular highlight for bubble look */}
+                            <div className="absolute top-8 left-8 w-16 h-8 bg-white/40 rounded-[50%] blur-md rotate-[-45deg]"></div>
+                        </div>
+                        {thickness < 30 && (
+                            <div className="mt-4 text-red-400 text-xs font-bold uppercase animate-pulse">
+                                {t('optics.blackFilm')}
+                            </div>
+                        )}
+                    </div>
+                 </div>
+            </div>
+
+            <LineChart
+                title={t('optics.reflectance')}
+                unit="%"
+                xLabel="nm"
+                xDomain={[VISIBLE_MIN, VISIBLE_MAX]}
+                yDomain={[0, Math.max(peakReflectance(film), peakReflectance({ ...film, angle: 0, polarization: 'unpolarized' })) * 100 * 1.05]}
+                series={[
+                    { id: 'R', label: polarization === 'unpolarized' ? t('optics.unpolarized') : t('optics.polarized', { pol: polarization }), color: '#7c3aed', points: spectrum.map(([l, r]) => [l, r * 100]) },
+                    ...(validation ? [{ id: 'airy', label: t('validation.optics.series'), color: '#f59e0b', dashed: true, points: spectrum.map(([l]) => [l, closedFormReflectance(l, film) * 100] as [number, number]) }] : []),
+                ]}
+                markers={[
+                    ...orders.constructive.map((o) => ({ x: o.wavelength, label: `+${o.wavelength.toFixed(0)}`, color: '#16a34a' })),
+                    ...orders.destructive.map((o) => ({ x: o.wavelength, label: `−${o.wavelength.toFixed(0)}`, color: '#dc2626' })),
+                ]}
+            />
+            </div>
+
+            <div className="w-full lg:w-1/3 flex flex-col justify-center p-4">
+                <h3 className="font-serif text-xl text-stone-900 mb-4">{t('optics.title')}</h3>
+                <p className="text-sm text-stone-500 mb-6">
+                    {t('optics.description')}
+                </p>
+                <LessonPanel session={lesson} />
+
+                <div className="mb-6">
+                    <label className="flex justify-between text-sm font-medium mb-2">
+                        <span>{t('optics.thickness')}</span>
+                        <span className="font-mono text-blue-600">{thickness} nm</span>
+                    </label>
+                    <input 
+                        type="range" min="0" max={THICKNESS_MAX} step="10"
+                        value={thickness} 
+                        onChange={(e) => setThickness(parseInt(e.target.value))}
+                        disabled={lesson.locked}
+                        className="w-full accent-purple-500 h-2 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                    />
+                    {/* Color Spectrum Guide */}
+                    <div className="w-full h-3 mt-2 rounded-full" style={{ backgroundImage: seriesGradient }}></div>
+                </div>
+
+                <div className="space-y-4 mb-6">
+                    <div>
+                        <label className="flex justify-between text-sm font-medium mb-1">
+                            <span>{t('optics.angle')}</span>
+                            <span className="font-mono text-blue-600">{angle}°</span>
+                        </label>
+                        <input type="range" min="0" max="80" step="1" value={angle} onChange={(e) => setAngle(parseInt(e.target.value))} className="w-full accent-purple-500" />
+                    </div>
+                    <div>
+                        <label className="flex justify-between text-sm font-medium mb-1">
+                            <span>{t('optics.index')}</span>
+                            <span className="font-mono text-blue-600">{formatNumber(refractiveIndex, 2)}</span>
+                        </label>
+                        <input type="range" min="1.2" max="1.6" step="0.01" value={refractiveIndex} onChange={(e) => setRefractiveIndex(parseFloat(e.target.value))} className="w-full accent-purple-500" />
+                    </div>
+                    <div className="flex gap-1">
+                        {(['s', 'p', 'unpolarized'] as const).map((pol) => (
+                            <button key={pol} onClick={() => setPolarization(pol)} className={`flex-1 py-1 rounded text-xs font-bold transition-all ${polarization === pol ? 'bg-stone-800 text-white' : 'bg-stone-100 text-stone-500 hover:bg-stone-200'}`}>
+                                {pol === 'unpolarized' ? t('optics.unpolarized') : t('optics.polarized', { pol })}
+                            </button>
+                        ))}
+                    </div>
+                    <label className="flex justify-between items-center text-sm font-medium">
+                        <span>{t('optics.illuminant')}</span>
+                        <select value={illuminant} onChange={(e) => setIlluminant(e.target.value as IlluminantId)} className="text-sm border border-stone-200 rounded px-2 py-1 bg-white">
+                            {ILLUMINANTS.map((il) => <option key={il.id} value={il.id}>{t(`illuminant.${il.id}`)}</option>)}
+                        </select>
+                    </label>
+                </div>
+
+                <div className="bg-blue-50 p-4 rounded-lg border border-blue-100 text-sm text-blue-800">
+                    <div className="flex gap-2">
+                        <Sun size={16} className="shrink-0" />
+                        <div>
+                            {t(thickness < 30 ? 'optics.note.black' : thickness < 150 ? 'optics.note.silver' : 'optics.note.cycle')}
+                            <div className="mt-2 text-xs font-mono text-blue-700">
+                                OPD = {formatNumber(opd)} nm ·{' '}
+                                {orders.constructive.length ? t('optics.constructive', { list: orders.constructive.map((o) => `${formatNumber(o.wavelength)} nm`).join(', ') }) : t('optics.noConstructive')}
+                                {orders.destructive.length > 0 && ` · ${t('optics.destructive', { list: orders.destructive.map((o) => `${formatNumber(o.wavelength)} nm`).join(', ') })}`}
+                            </div>
+                            {validation && (
+                                <div className="mt-2 pt-2 border-t border-blue-100 text-xs">
+                                    <div className="font-mono">{t('validation.optics.error', { error: deviation.toExponential(1) })}</div>
+                                    <ValidationBadge pass={deviation <= validationCheck('airyNormal').tolerance} tolerance={validationCheck('airyNormal').tolerance.toExponential(0)} />
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+
+// Static film under the thickness slider, or a vertical film draining under gravity.
+export const OpticsExperiment: React.FC<{ defaults: OpticsDefaults, validation: boolean }> = ({ defaults, validation }) => {
+    const { t } = useI18n();
+    const [mode, setMode] = useUrlParam('mode', defaults.mode, enumParam(['static', 'drainage'] as const));
+    return (
+        <div className="flex flex-col gap-4 h-full">
+            <div className="flex gap-2 self-start">
+                <button onClick={() => setMode('static')} className={`px-4 py-1.5 rounded-full text-xs font-bold uppercase transition-all ${mode === 'static' ? 'bg-purple-600 text-white' : 'bg-stone-100 text-stone-500 hover:bg-stone-200'}`}>{t('optics.static')}</button>
+                <button onClick={() => setMode('drainage')} className={`px-4 py-1.5 rounded-full text-xs font-bold uppercase transition-all ${mode === 'drainage' ? 'bg-purple-600 text-white' : 'bg-stone-100 text-stone-500 hover:bg-stone-200'}`}>{t('optics.drainage')}</button>
+            </div>
+            {mode === 'static' ? <ThinFilmExperiment defaults={defaults} validation={validation} /> : <FilmDrainage />}
+        </div>
+    );
+};
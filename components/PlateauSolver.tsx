@@ -0,0 +1,232 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { Billboard, Environment, Line, OrbitControls, Text } from '@react-three/drei';
+import * as THREE from 'three';
+import { Pause, Play, RotateCcw } from 'lucide-react';
+import { LineChart } from './LineChart';
+import { ThinFilmMaterial } from './ThinFilmMaterial';
+import { useI18n } from '../i18n';
+import {
+  DEFAULT_POLYLINE,
+  FRAMES,
+  PolylineError,
+  TETRAHEDRAL_ANGLE,
+  advancePlateau,
+  createFrame,
+  createPlateauState,
+  formatPolyline,
+  parsePolyline,
+  tetrahedralPoints,
+  tripleLines,
+  vertexPosition,
+  type FilmMesh,
+  type FrameId,
+  type PlateauState,
+} from '../physics/plateau';
+
+const ITERATIONS_PER_FRAME = 5;
+const GOOD_ANGLE = 5; // degrees from the ideal that still counts as "at 120°"
+
+// The physics uses z up; the scene uses y up.
+const Z_UP: [number, number, number] = [-Math.PI / 2, 0, 0];
+
+const FilmSurface = ({ mesh }: { mesh: FilmMesh }) => {
+  // A new geometry only when refinement changes the triangles.
+  const geometry = useMemo(() => {
+    const g = new THREE.BufferGeometry();
+    g.setIndex(new THREE.BufferAttribute(mesh.triangles, 1));
+    g.setAttribute('position', new THREE.BufferAttribute(new Float32Array(mesh.positions.length), 3));
+    return g;
+  }, [mesh.triangles]);
+
+  useEffect(() => {
+    const attr = geometry.getAttribute('position');
+    (attr.array as Float32Array).set(mesh.positions);
+    attr.needsUpdate = true;
+    geometry.computeVertexNormals();
+    geometry.computeBoundingSphere();
+  }, [geometry, mesh.positions]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <mesh geometry={geometry}>
+      <ThinFilmMaterial drain={0.2} side={THREE.DoubleSide} />
+    </mesh>
+  );
+};
+
+const PlateauBorders = ({ mesh }: { mesh: FilmMesh }) => {
+  const { formatNumber } = useI18n();
+  const lines = tripleLines(mesh);
+  const tets = tetrahedralPoints(mesh, lines);
+  const segments = (good: boolean) =>
+    lines.filter((l) => (l.error < GOOD_ANGLE) === good).flatMap((l) => [vertexPosition(mesh, l.a), vertexPosition(mesh, l.b)]);
+  const good = segments(true);
+  const bad = segments(false);
+  return (
+    <group>
+      {good.length > 0 && <Line points={good} segments color="#16a34a" lineWidth={3} />}
+      {bad.length > 0 && <Line points={bad} segments color="#f97316" lineWidth={3} />}
+      {tets.map((tet) => {
+        const p = vertexPosition(mesh, tet.index);
+        const ok = Math.abs(tet.angle - TETRAHEDRAL_ANGLE) < GOOD_ANGLE / 2;
+        return (
+          <group key={tet.index} position={p}>
+            <mesh>
+              <sphereGeometry args={[0.05, 16, 16]} />
+              <meshBasicMaterial color={ok ? '#16a34a' : '#f97316'} />
+            </mesh>
+            <Billboard position={[0, 0, 0.18]}>
+              <Text fontSize={0.12} color={ok ? '#15803d' : '#c2410c'}>{`${formatNumber(tet.angle, 1)}°`}</Text>
+            </Billboard>
+          </group>
+        );
+      })}
+    </group>
+  );
+};
+
+export interface PlateauDefaults {
+  frame: FrameId;
+}
+
+export const PlateauSolver: React.FC<{ defaults: PlateauDefaults }> = ({ defaults }) => {
+  const { t, formatNumber } = useI18n();
+  const [frameId, setFrameId] = useState<FrameId>(defaults.frame);
+  const [polylineText, setPolylineText] = useState(formatPolyline(DEFAULT_POLYLINE));
+  const [polylineError, setPolylineError] = useState<PolylineError | null>(null);
+  const [showBorders, setShowBorders] = useState(true);
+  const [playing, setPlaying] = useState(true);
+  const [state, setState] = useState<PlateauState>(() => createPlateauState(createFrame(defaults.frame)));
+  const stateRef = useRef(state);
+
+  const load = (id: FrameId, text = polylineText) => {
+    let polyline = DEFAULT_POLYLINE;
+    if (id === 'custom') {
+      try {
+        polyline = parsePolyline(text);
+        setPolylineError(null);
+      } catch (err) {
+        if (!(err instanceof PolylineError)) throw err;
+        setPolylineError(err);
+        return;
+      }
+    }
+    setFrameId(id);
+    const fresh = createPlateauState(createFrame(id, polyline));
+    stateRef.current = fresh;
+    setState(fresh);
+    setPlaying(true);
+  };
+
+  useEffect(() => {
+    if (!playing) return;
+    let rafId: number;
+    const step = () => {
+      const next = advancePlateau(stateRef.current, ITERATIONS_PER_FRAME);
+      stateRef.current = next;
+      setState(next);
+      if (next.converged) {
+        setPlaying(false);
+        return;
+      }
+      rafId = requestAnimationFrame(step);
+    };
+    rafId = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(rafId);
+  }, [playing]);
+
+  const { mesh, frame } = state;
+  const lines = useMemo(() => tripleLines(mesh), [mesh]);
+  const tets = useMemo(() => tetrahedralPoints(mesh, lines), [mesh, lines]);
+  const meanError = lines.length ? lines.reduce((s, l) => s + l.error, 0) / lines.length : 0;
+  const meanTet = tets.length ? tets.reduce((s, tet) => s + tet.angle, 0) / tets.length : 0;
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-8 h-full">
+      <div className="w-full lg:w-2/3 h-[400px] bg-stone-900 rounded-xl overflow-hidden relative">
+        <Canvas camera={{ position: [3.2, 2.4, 3.6], fov: 40 }}>
+          <ambientLight intensity={1} />
+          <spotLight position={[10, 10, 10]} intensity={1} />
+          <Environment preset="city" />
+          <group rotation={Z_UP}>
+            <FilmSurface mesh={mesh} />
+            {frame.wires.map((wire, i) => (
+              <Line key={`${frame.id}-${i}`} points={wire} color="#d6d3d1" lineWidth={4} />
+            ))}
+            {showBorders && <PlateauBorders mesh={mesh} />}
+          </group>
+          <OrbitControls enablePan={false} minDistance={3} maxDistance={9} />
+        </Canvas>
+        <div className="absolute top-4 left-4 text-stone-400 text-xs font-mono space-y-1 pointer-events-none">
+          <div>{t('plateau.area', { area: formatNumber(state.area, 4) })}</div>
+          <div>{t('plateau.iteration', { iteration: state.iteration, level: state.level, levels: frame.levels })}</div>
+          <div>{t('plateau.triangles', { count: mesh.triangles.length / 3 })}</div>
+          {state.converged && <div className="text-green-400">{t('plateau.converged')}</div>}
+        </div>
+      </div>
+
+      <div className="w-full lg:w-1/3 flex flex-col justify-center p-4">
+        <h3 className="font-serif text-xl text-stone-900 mb-4">{t('plateau.title')}</h3>
+        <p className="text-sm text-stone-500 mb-6">
+          {t('plateau.description')}
+        </p>
+
+        <div className="space-y-4 mb-6">
+          <div className="flex flex-wrap gap-1">
+            {FRAMES.map((f) => (
+              <button key={f.id} onClick={() => load(f.id)} className={`px-3 py-1 rounded text-xs font-bold transition-all ${frameId === f.id ? 'bg-stone-800 text-white' : 'bg-stone-100 text-stone-500 hover:bg-stone-200'}`}>{t(`frame.${f.id}`)}</button>
+            ))}
+          </div>
+          {frameId === 'custom' && (
+            <div>
+              <div className="text-sm font-medium mb-1">{t('plateau.polyline')} <span className="text-stone-400 font-normal">{t('plateau.polylineHint')}</span></div>
+              <textarea value={polylineText} onChange={(e) => setPolylineText(e.target.value)} rows={6} className="w-full text-xs font-mono border border-stone-200 rounded p-2" />
+              {polylineError && <div className="text-xs text-red-500 mt-1">{t(`plateau.error.${polylineError.reason}`, { line: polylineError.line ?? '' })}</div>}
+              <button onClick={() => load('custom')} className="mt-1 px-3 py-1 rounded text-xs font-bold bg-stone-100 text-stone-600 hover:bg-stone-200">{t('plateau.apply')}</button>
+            </div>
+          )}
+          <label className="flex items-center gap-2 text-sm font-medium">
+            <input type="checkbox" checked={showBorders} onChange={(e) => setShowBorders(e.target.checked)} className="accent-green-600" />
+            {t('plateau.highlight')}
+          </label>
+        </div>
+
+        <div className="mb-4">
+          <LineChart
+            title={t('plateau.chart')}
+            xDomain={[0, Math.max(50, state.iteration)]}
+            xLabel="it"
+            series={[{ id: 'area', label: t('plateau.series'), color: '#2563eb', points: state.history }]}
+            markers={state.refinedAt.map((x) => ({ x, label: t('plateau.refine'), color: '#a8a29e' }))}
+          />
+        </div>
+
+        <div className="bg-white p-4 rounded-xl border border-stone-200 mb-4 text-xs space-y-1">
+          <div className="text-xs font-bold text-stone-400 uppercase tracking-wider mb-2">{t('plateau.laws')}</div>
+          {lines.length === 0 ? (
+            <div className="text-stone-400">{t('plateau.singleSheet')}</div>
+          ) : (
+            <>
+              <div className="flex justify-between"><span>{t('plateau.sheetsMeet')}</span><span className={`font-mono ${meanError < GOOD_ANGLE ? 'text-green-600' : 'text-orange-500'}`}>{formatNumber(meanError, 1)}°</span></div>
+              {tets.length > 0 && (
+                <div className="flex justify-between"><span>{t('plateau.linesMeet', { angle: formatNumber(TETRAHEDRAL_ANGLE, 2) })}</span><span className="font-mono text-green-600">{formatNumber(meanTet, 2)}°</span></div>
+              )}
+            </>
+          )}
+        </div>
+
+        <button onClick={() => setPlaying(!playing)} disabled={state.converged} className={`w-full py-3 rounded-lg font-bold transition-all flex items-center justify-center gap-2 disabled:opacity-40 ${playing ? 'bg-stone-200 text-stone-600' : 'bg-blue-600 text-white hover:bg-blue-700'}`}>
+          {playing ? <><Pause size={16} /> {t('common.pause')}</> : <><Play size={16} /> {t('common.relax')}</>}
+        </button>
+        <button onClick={() => load(frameId)} className="mt-2 w-full py-2 text-stone-500 hover:text-stone-800 flex items-center justify-center gap-2"><RotateCcw size={14} /> {t('common.reset')}</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { COLOR_TABLE_MAX, createColorTable, createDrainageAtlas } from '../physics/bubbleFilm';
+import { DEFAULT_FILM } from '../physics/thinFilm';
+
+// Both textures are the same for every bubble, so they are built once on first use.
+let sharedTextures: { profile: THREE.DataTexture; colors: THREE.DataTexture } | null = null;
+
+const textures = () => {
+  if (sharedTextures) return sharedTextures;
+  const atlas = createDrainageAtlas();
+  const half = new Uint16Array(atlas.thickness.length);
+  atlas.thickness.forEach((d, i) => { half[i] = THREE.DataUtils.toHalfFloat(d); });
+  const profile = new THREE.DataTexture(half, atlas.columns, atlas.rows, THREE.RedFormat, THREE.HalfFloatType);
+  const table = createColorTable();
+  const colors = new THREE.DataTexture(table, table.length / 4, 1, THREE.RGBAFormat);
+  [profile, colors].forEach((t) => {
+    t.magFilter = THREE.LinearFilter;
+    t.minFilter = THREE.LinearFilter;
+    t.wrapS = THREE.ClampToEdgeWrapping;
+    t.wrapT = THREE.ClampToEdgeWrapping;
+    t.needsUpdate = true;
+  });
+  sharedTextures = { profile, colors };
+  return sharedTextures;
+};
+
+const vertexShader = /* glsl */ `
+  varying vec3 vDir;
+  varying vec3 vNormalW;
+  varying vec3 vViewDir;
+  void main() {
+    // Direction from the mesh's centre in world axes, so a rotated mesh still drains downward.
+    vDir = normalize(mat3(modelMatrix) * position);
+    vec4 world = modelMatrix * vec4(position, 1.0);
+    vNormalW = normalize(mat3(modelMatrix) * normal);
+    vViewDir = cameraPosition - world.xyz;
+    gl_Position = projectionMatrix * viewMatrix * world;
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  uniform sampler2D uProfile;
+  uniform sampler2D uColors;
+  uniform float uMaxThickness;
+  uniform float uIor;
+  uniform float uDrain;
+  uniform float uSwirl;
+  uniform float uTime;
+  uniform float uOpacity;
+  uniform vec3 uTint;
+  uniform vec3 uLightDir;
+  varying vec3 vDir;
+  varying vec3 vNormalW;
+  varying vec3 vViewDir;
+
+  void main() {
+    // Depth along the meridian: 0 at the top of the bubble, 1 at the bottom, by world up.
+    float depth = acos(clamp(vDir.y, -1.0, 1.0)) / 3.14159265;
+
+    // Marangoni swirls stir the film: shift where it samples the profile and its local thickness.
+    float swirl = sin(vDir.x * 5.0 + uTime * 0.7 + 2.0 * sin(vDir.z * 4.0 - uTime * 0.5))
+                * sin(vDir.z * 6.0 + uTime * 0.4 + 3.0 * vDir.y);
+    depth = clamp(depth + uSwirl * 0.08 * swirl, 0.0, 1.0);
+    float d = texture2D(uProfile, vec2(depth, uDrain)).r * (1.0 + uSwirl * 0.12 * swirl);
+
+    // Oblique light sees the colour of a thinner film: d·cosθt at normal incidence.
+    vec3 N = normalize(vNormalW);
+    vec3 V = normalize(vViewDir);
+    float cosI = abs(dot(N, V));
+    float sinT = sqrt(1.0 - cosI * cosI) / uIor;
+    float cosT = sqrt(1.0 - sinT * sinT);
+    vec3 film = texture2D(uColors, vec2(d * cosT / uMaxThickness, 0.5)).rgb * uTint;
+
+    float fresnel = pow(1.0 - cosI, 3.0);
+    vec3 H = normalize(normalize(uLightDir) + V);
+    float spec = pow(max(abs(dot(N, H)), 0.0), 80.0);
+    float alpha = clamp(max(film.r, max(film.g, film.b)) * (0.3 + 0.7 * fresnel) + spec, 0.0, 1.0) * uOpacity;
+    gl_FragColor = vec4(film + spec, alpha);
+  }
+`;
+
+/**
+ * Soap-film shading from the drainage and interference models. `drain` runs
+ * from 0 (freshly blown, uniformly thick) to 1 (about to rupture, black top).
+ */
+export const ThinFilmMaterial = ({ drain = 0.3, swirl = 1, tint = '#ffffff', opacity = 1, side = THREE.DoubleSide }: { drain?: number; swirl?: number; tint?: string; opacity?: number; side?: THREE.Side }) => {
+  const material = useMemo(() => {
+    const { profile, colors } = textures();
+    return new THREE.ShaderMaterial({
+      vertexShader,
+      fragmentShader,
+      uniforms: {
+        uProfile: { value: profile },
+        uColors: { value: colors },
+        uMaxThickness: { value: COLOR_TABLE_MAX },
+        uIor: { value: DEFAULT_FILM.refractiveIndex },
+        uDrain: { value: drain },
+        uSwirl: { value: swirl },
+        uTime: { value: Math.random() * 100 },
+        uOpacity: { value: opacity },
+        uTint: { value: new THREE.Color(tint) },
+        uLightDir: { value: new THREE.Vector3(10, 10, 5) },
+      },
+      transparent: true,
+      depthWrite: false,
+      side,
+    });
+  }, []);
+
+  useEffect(() => {
+    material.uniforms.uDrain.value = drain;
+    material.uniforms.uSwirl.value = swirl;
+    material.uniforms.uOpacity.value = opacity;
+    material.uniforms.uTint.value.set(tint);
+  }, [material, drain, swirl, tint, opacity]);
+
+  useEffect(() => {
+    material.side = side;
+    material.needsUpdate = true;
+  }, [material, side]);
+
+  useEffect(() => () => material.dispose(), [material]);
+
+  useFrame((_, delta) => {
+    material.uniforms.uTime.value += delta;
+  });
+
+  return <primitive object={material} attach="material" />;
+};
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Pause, Play, Rewind, StepBack, StepForward } from 'lucide-react';
+import { useI18n, type MessageKey } from '../i18n';
+
+// Play, pause, single step, time scale and rewind for any experiment that runs
+// a simulation. It holds no state of its own: the experiment owns the clock and
+// the recording, and decides what a step is.
+
+/** Time-scale choices, as multiples of the experiment's normal pace. */
+export const TRANSPORT_SPEEDS = [0.1, 0.25, 0.5, 1, 2, 5, 10];
+
+/** How often a running experiment's side panel and charts catch up with it. */
+export const PANEL_REFRESH_MS = 100;
+
+/** The transport clock inside a three.js canvas: calls `onFrame` from the canvas's own frame loop. */
+export const FrameDriver = ({ onFrame }: { onFrame: (delta: number) => void }) => {
+    useFrame((_, delta) => onFrame(delta));
+    return null;
+};
+
+/**
+ * The transport clock for experiments drawn outside a three.js canvas: calls `onFrame` with the wall-clock seconds
+ * since the last display frame while `playing`. A frame after the tab was
+ * hidden counts as at most 0.1 s. The latest `onFrame` is always the one
+ * called, so it can read refs and props without restarting the loop.
+ */
+export const useTransportClock = (playing: boolean, onFrame: (delta: number) => void) => {
+    const onFrameRef = useRef(onFrame);
+    onFrameRef.current = onFrame;
+    useEffect(() => {
+        if (!playing) return;
+        let rafId: number;
+        let last = performance.now();
+        const frame = (now: number) => {
+            const delta = Math.min(0.1, (now - last) / 1000);
+            last = now;
+            onFrameRef.current(delta);
+            rafId = requestAnimationFrame(frame);
+        };
+        rafId = requestAnimationFrame(frame);
+        return () => cancelAnimationFrame(rafId);
+    }, [playing]);
+};
+
+/** The recorded span of a run and the moment on show, for rewinding through it. */
+export interface TransportTimeline {
+    /** First and last recorded moments, simulated seconds. */
+    start: number;
+    end: number;
+    time: number;
+    onSeek: (time: number) => void;
+    /** Decimals for the time readout. */
+    digits?: number;
+}
+
+export interface TransportControlsProps {
+    playing: boolean;
+    onPlay: () => void;
+    onPause: () => void;
+    /** One step forward while paused. */
+    onStep: () => void;
+    /** One recorded moment back while paused. */
+    onStepBack?: () => void;
+    speed: number;
+    onSpeed: (speed: number) => void;
+    speeds?: number[];
+    timeline?: TransportTimeline | null;
+    canPlay?: boolean;
+    canStep?: boolean;
+    playLabel?: MessageKey;
+    accent?: 'blue' | 'purple';
+}
+
+const ACCENTS = {
+    blue: { button: 'bg-blue-600 text-white hover:bg-blue-700', range: 'accent-blue-500' },
+    purple: { button: 'bg-purple-600 text-white hover:bg-purple-700', range: 'accent-purple-500' },
+};
+
+const STEP_BUTTON = 'px-3 rounded-lg bg-stone-100 text-stone-600 hover:bg-stone-200 transition-all disabled:opacity-40';
+
+export const TransportControls: React.FC<TransportControlsProps> = ({
+    playing, onPlay, onPause, onStep, onStepBack, speed, onSpeed, speeds = TRANSPORT_SPEEDS, timeline,
+    canPlay = true, canStep = canPlay, playLabel = 'common.play', accent = 'blue',
+}) => {
+    const { t, formatNumber } = useI18n();
+    const colors = ACCENTS[accent];
+    const atStart = !timeline || timeline.time <= timeline.start;
+
+    return (
+        <div className="space-y-4">
+            <div className="flex gap-2">
+                <button onClick={onStepBack} disabled={playing || !onStepBack || atStart} title={t('transport.stepBack')} className={STEP_BUTTON}>
+                    <StepBack size={16} />
+                </button>
+                <button onClick={playing ? onPause : onPlay} disabled={!playing && !canPlay} className={`flex-1 py-3 rounded-lg font-bold transition-all flex items-center justify-center gap-2 disabled:opacity-40 ${playing ? 'bg-stone-200 text-stone-600' : colors.button}`}>
+                    {playing ? <><Pause size={16} /> {t('common.pause')}</> : <><Play size={16} /> {t(playLabel)}</>}
+                </button>
+                <button onClick={onStep} disabled={playing || !canStep} title={t('transport.step')} className={STEP_BUTTON}>
+                    <StepForward size={16} />
+                </button>
+            </div>
+            <div>
+                <div className="text-sm font-medium mb-1">{t('common.timeSpeed')}</div>
+                <div className="flex gap-1">
+                    {speeds.map((s) => (
+                        <button key={s} onClick={() => onSpeed(s)} className={`flex-1 py-1 rounded text-xs font-bold transition-all ${speed === s ? 'bg-stone-800 text-white' : 'bg-stone-100 text-stone-500 hover:bg-stone-200'}`}>×{s}</button>
+                    ))}
+                </div>
+            </div>
+            {timeline && timeline.end > timeline.start && (
+                <div>
+                    <div className="flex justify-between items-center text-xs text-stone-500 mb-1">
+                        <button onClick={() => timeline.onSeek(timeline.start)} disabled={atStart} className="flex items-center gap-1 font-medium hover:text-stone-800 disabled:opacity-40">
+                            <Rewind size={12} /> {t('transport.rewind')}
+                        </button>
+                        <span className="font-mono">
+                            {t('transport.time', { time: formatNumber(timeline.time, timeline.digits ?? 2), end: formatNumber(timeline.end, timeline.digits ?? 2) })}
+                        </span>
+                    </div>
+                    <input type="range" min={timeline.start} max={timeline.end} step="any" value={timeline.time} onChange={(e) => timeline.onSeek(parseFloat(e.target.value))} className={`w-full ${colors.range}`} />
+                </div>
+            )}
+        </div>
+    );
+};
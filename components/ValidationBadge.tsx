@@ -0,0 +1,20 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { useI18n } from '../i18n';
+
+/** Pass/fail marker for a live validation overlay, with the tolerance it was judged against. */
+export const ValidationBadge: React.FC<{ pass: boolean, tolerance: string }> = ({ pass, tolerance }) => {
+    const { t } = useI18n();
+    return (
+        <div className={`flex items-center gap-1 font-bold ${pass ? 'text-green-600' : 'text-red-500'}`}>
+            {pass ? <CheckCircle size={12} /> : <XCircle size={12} />}
+            {t(pass ? 'validation.pass' : 'validation.fail')}
+            <span className="font-normal text-stone-400">({t('validation.tolerance', { tolerance })})</span>
+        </div>
+    );
+};
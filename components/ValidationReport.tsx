@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo } from 'react';
+import { CheckCircle, ClipboardCheck, XCircle } from 'lucide-react';
+import { useI18n } from '../i18n';
+import { EXPERIMENTS } from './experiments';
+import { runValidation } from '../physics/validation';
+
+// Every analytic check against the lab's models, with pass/fail against its
+// tolerance. The active experiment's checks come first.
+
+const scientific = (value: number) => (value === 0 ? '0' : value.toExponential(1));
+
+export const ValidationReport: React.FC<{ experiment: string }> = ({ experiment }) => {
+    const { t, formatNumber } = useI18n();
+    const results = useMemo(() => runValidation(), []);
+    const passed = results.filter((r) => r.pass).length;
+    const groups = [...EXPERIMENTS]
+        .sort((a, b) => Number(b.id === experiment) - Number(a.id === experiment))
+        .map((e) => ({ experiment: e, results: results.filter((r) => r.check.experiment === e.id) }))
+        .filter((g) => g.results.length > 0);
+
+    const value = (v: number) => {
+        const a = Math.abs(v);
+        return a !== 0 && (a < 1e-3 || a >= 1e5) ? scientific(v) : formatNumber(v, 4);
+    };
+
+    return (
+        <div className="mt-8 rounded-xl border border-stone-200 bg-stone-50 p-4">
+            <div className="flex items-center gap-2 mb-3">
+                <ClipboardCheck size={16} className="text-stone-500" />
+                <h4 className="font-serif text-lg text-stone-900">{t('validation.title')}</h4>
+                <span className={`ml-auto text-xs font-bold ${passed === results.length ? 'text-green-600' : 'text-red-500'}`}>
+                    {t('validation.summary', { passed, total: results.length })}
+                </span>
+            </div>
+            <p className="text-xs text-stone-500 mb-4">{t('validation.description')}</p>
+            <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                    <thead>
+                        <tr className="text-left text-[10px] uppercase tracking-wider text-stone-400">
+                            <th className="py-1 pr-2 font-bold">{t('validation.check')}</th>
+                            <th className="py-1 px-2 font-bold text-right">{t('validation.expected')}</th>
+                            <th className="py-1 px-2 font-bold text-right">{t('validation.actual')}</th>
+                            <th className="py-1 px-2 font-bold text-right">{t('validation.error')}</th>
+                            <th className="py-1 pl-2 font-bold" />
+                        </tr>
+                    </thead>
+                    {groups.map((g) => (
+                        <tbody key={g.experiment.id} className={g.experiment.id === experiment ? '' : 'text-stone-500'}>
+                            <tr>
+                                <td colSpan={5} className="pt-3 pb-1 font-bold text-stone-700">{t(g.experiment.label)}</td>
+                            </tr>
+                            {g.results.map((r) => (
+                                <tr key={r.check.id} className="border-t border-stone-200">
+                                    <td className="py-1.5 pr-2">{t(`validation.${r.check.id}`)}</td>
+                                    <td className="py-1.5 px-2 text-right font-mono whitespace-nowrap">{value(r.expected)} {r.check.unit}</td>
+                                    <td className="py-1.5 px-2 text-right font-mono whitespace-nowrap">{value(r.actual)} {r.check.unit}</td>
+                                    <td className="py-1.5 px-2 text-right font-mono whitespace-nowrap" title={t(r.check.absolute ? 'validation.absolute' : 'validation.relative')}>
+                                        {scientific(r.error)} ≤ {scientific(r.check.tolerance)}
+                                    </td>
+                                    <td className="py-1.5 pl-2">
+                                        {r.pass
+                                            ? <span className="flex items-center gap-1 text-green-600 font-bold"><CheckCircle size={14} /> {t('validation.pass')}</span>
+                                            : <span className="flex items-center gap-1 text-red-500 font-bold"><XCircle size={14} /> {t('validation.fail')}</span>}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    ))}
+                </table>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { lazy, type ComponentType, type LazyExoticComponent } from 'react';
+import { Box, Cylinder, Eye, Hexagon, Play, Square, Wind, type LucideIcon } from 'lucide-react';
+import type { MessageKey } from '../i18n';
+import { DEFAULT_FLUID } from '../physics/fluids';
+import type { BlowingDefaults } from './BlowingExperiment';
+import type { CatenoidDefaults } from './CatenoidExperiment';
+import type { FoamDefaults } from './FoamCluster';
+import type { GeometryDefaults } from './GeometryExperiment';
+import type { MechanicsDefaults } from './MechanicsExperiment';
+import type { OpticsDefaults } from './OpticsExperiment';
+import type { PlateauDefaults } from './PlateauSolver';
+
+// The lab's tabs, in display order. Each experiment lives in its own module
+// and is only downloaded when its tab first opens, so the three.js scenes stay
+// out of the initial bundle. To add one, write the component (it receives its
+// `defaults` as a prop) and add an entry here.
+
+export interface ExperimentProps<P> {
+  defaults: P;
+  /** Validation mode: overlay analytic results on the live simulation where the experiment has them. */
+  validation: boolean;
+}
+
+export interface Experiment<P = unknown> {
+  /** Hash path segment, e.g. #experiments/optics. */
+  id: string;
+  label: MessageKey;
+  icon: LucideIcon;
+  /** Starting parameters; the URL overrides them where the experiment reads it. */
+  defaults: P;
+  component: LazyExoticComponent<ComponentType<ExperimentProps<P>>>;
+}
+
+const defineExperiment = <P>(experiment: Experiment<P>) => experiment as Experiment<unknown>;
+
+export const EXPERIMENTS: Experiment[] = [
+  defineExperiment<MechanicsDefaults>({
+    id: 'mechanics',
+    label: 'lab.tab.mechanics',
+    icon: Play,
+    defaults: { mode: 'pair', fluid: DEFAULT_FLUID.id, surface: 'film', r1: 12, r2: 8, ambient: 101.325, temperature: 20 },
+    component: lazy(() => import('./MechanicsExperiment').then((m) => ({ default: m.MechanicsExperiment }))),
+  }),
+  defineExperiment<BlowingDefaults>({
+    id: 'blowing',
+    label: 'lab.tab.blowing',
+    icon: Wind,
+    defaults: { mode: 'volume', ring: 10 },
+    component: lazy(() => import('./BlowingExperiment').then((m) => ({ default: m.BlowingExperiment }))),
+  }),
+  defineExperiment<GeometryDefaults>({
+    id: 'geometry',
+    label: 'lab.tab.geometry',
+    icon: Square,
+    defaults: { mode: 'solver', net: 'soap' },
+    component: lazy(() => import('./GeometryExperiment').then((m) => ({ default: m.GeometryExperiment }))),
+  }),
+  defineExperiment<PlateauDefaults>({
+    id: 'plateau',
+    label: 'lab.tab.plateau',
+    icon: Box,
+    defaults: { frame: 'cube' },
+    component: lazy(() => import('./PlateauSolver').then((m) => ({ default: m.PlateauSolver }))),
+  }),
+  defineExperiment<CatenoidDefaults>({
+    id: 'catenoid',
+    label: 'lab.tab.catenoid',
+    icon: Cylinder,
+    defaults: { ring: 20, separation: 20 },
+    component: lazy(() => import('./CatenoidExperiment').then((m) => ({ default: m.CatenoidExperiment }))),
+  }),
+  defineExperiment<FoamDefaults>({
+    id: 'foam',
+    label: 'lab.tab.foam',
+    icon: Hexagon,
+    defaults: { cells: 120, speed: 1 },
+    component: lazy(() => import('./FoamCluster').then((m) => ({ default: m.FoamCluster }))),
+  }),
+  defineExperiment<OpticsDefaults>({
+    id: 'optics',
+    label: 'lab.tab.optics',
+    icon: Eye,
+    defaults: { mode: 'static', thickness: 400, angle: 0, refractiveIndex: 1.33, polarization: 'unpolarized', illuminant: 'D65' },
+    component: lazy(() => import('./OpticsExperiment').then((m) => ({ default: m.OpticsExperiment }))),
+  }),
+];
+
+export const experimentById = (id: string) => EXPERIMENTS.find((e) => e.id === id) ?? EXPERIMENTS[0];
@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { formatFixed, formatLength, formatPressure } from '../physics/units';
+import type { Lesson } from './lessons';
+
+// The guided lessons, one per lab that has one. Each host experiment builds
+// the matching context from its state every render.
+
+// --- Connected bubbles ---
+
+export interface PairLessonContext {
+  bubbles: { id: string; radius: number; pressure: number; collapsed: boolean }[];
+  valveOpen: boolean;
+  /** The valve has run and a bubble has emptied. */
+  finished: boolean;
+}
+
+const smallerFirst = (c: PairLessonContext) => [...c.bubbles].sort((a, b) => a.radius - b.radius);
+
+const emptied = (final: PairLessonContext, start: PairLessonContext) => {
+  const gone = final.bubbles.find((b) => b.collapsed);
+  if (!gone) return null;
+  return gone.id === smallerFirst(start)[0].id ? 'small' : 'large';
+};
+
+export const PAIR_LESSON: Lesson<PairLessonContext> = {
+  id: 'connected-bubbles',
+  title: 'lesson.pair.title',
+  questions: [
+    {
+      id: 'flow',
+      prompt: 'lesson.pair.flow.prompt',
+      choices: [
+        { id: 'small-to-large', label: 'lesson.pair.flow.smallToLarge' },
+        { id: 'large-to-small', label: 'lesson.pair.flow.largeToSmall' },
+        { id: 'none', label: 'lesson.pair.flow.none' },
+      ],
+      outcome: (final, start) => {
+        const side = emptied(final, start);
+        return side === 'small' ? 'small-to-large' : side === 'large' ? 'large-to-small' : 'none';
+      },
+    },
+    {
+      id: 'end',
+      prompt: 'lesson.pair.end.prompt',
+      choices: [
+        { id: 'equal', label: 'lesson.pair.end.equal' },
+        { id: 'small-empties', label: 'lesson.pair.end.smallEmpties' },
+        { id: 'large-empties', label: 'lesson.pair.end.largeEmpties' },
+      ],
+      outcome: (final, start) => {
+        const side = emptied(final, start);
+        return side === 'small' ? 'small-empties' : side === 'large' ? 'large-empties' : 'equal';
+      },
+    },
+  ],
+  stages: [
+    {
+      kind: 'setup',
+      body: 'lesson.pair.setup',
+      enter: 'reset',
+      ready: (c) => !c.valveOpen && Math.abs(c.bubbles[0].radius - c.bubbles[1].radius) >= 1,
+      waiting: 'lesson.pair.setupWaiting',
+    },
+    { kind: 'predict', body: 'lesson.pair.predict', locks: true },
+    { kind: 'observe', body: 'lesson.pair.observe', enter: 'openValve', done: (c) => c.finished, locks: true },
+    { kind: 'compare', body: 'lesson.compare' },
+    {
+      kind: 'explain',
+      body: 'lesson.pair.explain',
+      vars: (final, start, locale) => {
+        const [small, large] = smallerFirst(start ?? final);
+        const grown = final.bubbles.find((b) => b.id === large.id) ?? large;
+        return {
+          small: small.id,
+          large: large.id,
+          rSmall: formatLength(small.radius, locale),
+          rLarge: formatLength(large.radius, locale),
+          pSmall: formatPressure(small.pressure, locale),
+          pLarge: formatPressure(large.pressure, locale),
+          rFinal: formatLength(grown.radius, locale),
+        };
+      },
+    },
+  ],
+};
+
+// --- Steiner networks ---
+
+export interface SteinerLessonContext {
+  lengths: { mst: number; star: number; soap: number };
+  /** Mean angle between films at the soap network's junctions, in degrees; null without junctions. */
+  junctionAngle: number | null;
+}
+
+const shortest = (c: SteinerLessonContext) =>
+  (Object.entries(c.lengths) as [keyof SteinerLessonContext['lengths'], number][]).reduce((a, b) => (b[1] < a[1] ? b : a))[0];
+
+export const STEINER_LESSON: Lesson<SteinerLessonContext> = {
+  id: 'steiner-square',
+  title: 'lesson.steiner.title',
+  questions: [
+    {
+      id: 'shortest',
+      prompt: 'lesson.steiner.shortest.prompt',
+      choices: [
+        { id: 'mst', label: 'lesson.steiner.shortest.mst' },
+        { id: 'star', label: 'lesson.steiner.shortest.star' },
+        { id: 'soap', label: 'lesson.steiner.shortest.soap' },
+      ],
+      outcome: (final) => shortest(final),
+    },
+    {
+      id: 'angle',
+      prompt: 'lesson.steiner.angle.prompt',
+      choices: [
+        { id: '90', label: 'lesson.steiner.angle.90' },
+        { id: '120', label: 'lesson.steiner.angle.120' },
+        { id: 'varies', label: 'lesson.steiner.angle.varies' },
+      ],
+      outcome: (final) => {
+        if (final.junctionAngle == null) return 'varies';
+        return Math.abs(final.junctionAngle - 120) < 1 ? '120' : Math.abs(final.junctionAngle - 90) < 1 ? '90' : 'varies';
+      },
+    },
+  ],
+  stages: [
+    { kind: 'setup', body: 'lesson.steiner.setup', enter: 'resetSquare' },
+    { kind: 'predict', body: 'lesson.steiner.predict', enter: 'showMst', locks: true },
+    { kind: 'observe', body: 'lesson.steiner.observe', enter: 'showSoap' },
+    { kind: 'compare', body: 'lesson.compare' },
+    {
+      kind: 'explain',
+      body: 'lesson.steiner.explain',
+      vars: (final, _start, locale) => ({
+        mst: formatFixed(final.lengths.mst, 3, locale),
+        star: formatFixed(final.lengths.star, 3, locale),
+        soap: formatFixed(final.lengths.soap, 3, locale),
+      }),
+    },
+  ],
+};
+
+// --- Thin-film colour ---
+
+export interface ThinFilmLessonContext {
+  thickness: number; // nm
+  opd: number; // nm
+  /** Mean reflectance over the visible band, 0…1. */
+  reflectance: number;
+}
+
+export const THIN_FILM_LESSON: Lesson<ThinFilmLessonContext> = {
+  id: 'black-film',
+  title: 'lesson.film.title',
+  questions: [
+    {
+      id: 'look',
+      prompt: 'lesson.film.look.prompt',
+      choices: [
+        { id: 'white', label: 'lesson.film.look.white' },
+        { id: 'black', label: 'lesson.film.look.black' },
+        { id: 'colour', label: 'lesson.film.look.colour' },
+      ],
+      // The same bands as the note under the sliders.
+      outcome: (final) => (final.thickness < 30 ? 'black' : final.thickness < 150 ? 'white' : 'colour'),
+    },
+    {
+      id: 'light',
+      prompt: 'lesson.film.light.prompt',
+      choices: [
+        { id: 'more', label: 'lesson.film.light.more' },
+        { id: 'same', label: 'lesson.film.light.same' },
+        { id: 'less', label: 'lesson.film.light.less' },
+      ],
+      outcome: (final, start) => {
+        const ratio = final.reflectance / Math.max(1e-9, start.reflectance);
+        return ratio > 1.2 ? 'more' : ratio < 0.8 ? 'less' : 'same';
+      },
+    },
+  ],
+  stages: [
+    { kind: 'setup', body: 'lesson.film.setup', enter: 'thickFilm' },
+    { kind: 'predict', body: 'lesson.film.predict', locks: true },
+    { kind: 'observe', body: 'lesson.film.observe', done: (c) => c.thickness < 30 },
+    { kind: 'compare', body: 'lesson.compare' },
+    {
+      kind: 'explain',
+      body: 'lesson.film.explain',
+      vars: (final, start, locale) => ({
+        d: formatFixed(final.thickness, 0, locale),
+        opd: formatFixed(final.opd, 0, locale),
+        before: formatFixed(100 * (start ?? final).reflectance, 1, locale),
+        after: formatFixed(100 * final.reflectance, 1, locale),
+      }),
+    },
+  ],
+};
@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useState } from 'react';
+import type { Locale, MessageKey, MessageVars } from '../i18n';
+
+// Predict–observe–explain lessons. A lesson is data: a list of stages and the
+// questions the learner answers before the experiment runs. The host
+// experiment supplies a context snapshot of its live state each render and
+// named actions the stages can trigger; the engine decides when to move on,
+// scores the predictions against what actually happened and keeps the results
+// in localStorage.
+
+export type LessonStageKind = 'setup' | 'predict' | 'observe' | 'compare' | 'explain';
+
+export interface LessonChoice {
+  id: string;
+  label: MessageKey;
+}
+
+export interface LessonQuestion<C> {
+  id: string;
+  prompt: MessageKey;
+  choices: LessonChoice[];
+  /** The choice that matches what happened, from the final state and the state when the predictions were locked in. */
+  outcome: (final: C, start: C) => string;
+}
+
+export interface LessonStage<C> {
+  kind: LessonStageKind;
+  body: MessageKey;
+  /** Values for `{name}` placeholders in `body`; `start` is null before the predictions are locked in. */
+  vars?: (context: C, start: C | null, locale: Locale) => MessageVars;
+  /** Host action to run when the stage opens. */
+  enter?: string;
+  /** Setup: the learner may continue only once this holds. */
+  ready?: (context: C) => boolean;
+  /** Shown while `ready` does not hold. */
+  waiting?: MessageKey;
+  /** Observe: continue by itself once this holds; without it the learner continues by hand. */
+  done?: (context: C, start: C) => boolean;
+  /** Freeze the experiment's own controls while this stage is open. */
+  locks?: boolean;
+}
+
+export interface Lesson<C> {
+  id: string;
+  title: MessageKey;
+  questions: LessonQuestion<C>[];
+  stages: LessonStage<C>[];
+}
+
+export interface LessonScore {
+  correct: number;
+  total: number;
+}
+
+export interface LessonRecord {
+  attempts: number;
+  last: LessonScore;
+  best: LessonScore;
+  answers: Record<string, string>;
+  completedAt: number;
+}
+
+const STORAGE_KEY = 'bubble-physics:lessons';
+
+export const loadLessonRecords = (): Record<string, LessonRecord> => {
+  try {
+    return JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '{}') ?? {};
+  } catch {
+    return {};
+  }
+};
+
+const saveLessonRecord = (id: string, answers: Record<string, string>, score: LessonScore) => {
+  const records = loadLessonRecords();
+  const previous = records[id];
+  const best = previous && previous.best.correct >= score.correct ? previous.best : score;
+  records[id] = { attempts: (previous?.attempts ?? 0) + 1, last: score, best, answers, completedAt: Date.now() };
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+  } catch {
+    // Storage can be full or disabled; the lesson still works without a record.
+  }
+  return records[id];
+};
+
+export const scoreLesson = <C>(lesson: Lesson<C>, answers: Record<string, string>, outcome: Record<string, string>): LessonScore => ({
+  correct: lesson.questions.filter((q) => answers[q.id] === outcome[q.id]).length,
+  total: lesson.questions.length,
+});
+
+export interface LessonSession<C> {
+  lesson: Lesson<C>;
+  active: boolean;
+  index: number;
+  stage: LessonStage<C> | null;
+  context: C;
+  start: C | null;
+  answers: Record<string, string>;
+  outcome: Record<string, string> | null;
+  record: LessonRecord | undefined;
+  /** True while the current stage freezes the experiment's controls. */
+  locked: boolean;
+  canContinue: boolean;
+  begin: () => void;
+  answer: (question: string, choice: string) => void;
+  next: () => void;
+  exit: () => void;
+}
+
+/** Run `lesson` against the host's live `context`; `actions` are what stages may trigger by name. */
+export const useLesson = <C>(lesson: Lesson<C>, context: C, actions: Record<string, () => void>): LessonSession<C> => {
+  const [active, setActive] = useState(false);
+  const [index, setIndex] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [start, setStart] = useState<C | null>(null);
+  const [outcome, setOutcome] = useState<Record<string, string> | null>(null);
+  const [record, setRecord] = useState<LessonRecord | undefined>(() => loadLessonRecords()[lesson.id]);
+
+  const stage = active ? lesson.stages[index] ?? null : null;
+
+  const open = (i: number) => {
+    setIndex(i);
+    const enter = lesson.stages[i]?.enter;
+    if (enter) actions[enter]?.();
+  };
+
+  const begin = () => {
+    setActive(true);
+    setAnswers({});
+    setStart(null);
+    setOutcome(null);
+    open(0);
+  };
+
+  const next = () => {
+    if (!stage) return;
+    if (index + 1 >= lesson.stages.length) {
+      setActive(false);
+      return;
+    }
+    let from = start;
+    if (stage.kind === 'predict') {
+      from = context;
+      setStart(context);
+    }
+    if (stage.kind === 'observe' && from) {
+      const result = Object.fromEntries(lesson.questions.map((q) => [q.id, q.outcome(context, from!)]));
+      setOutcome(result);
+      setRecord(saveLessonRecord(lesson.id, answers, scoreLesson(lesson, answers, result)));
+    }
+    open(index + 1);
+  };
+
+  // An observation ends by itself once the experiment reaches the state it waits for.
+  useEffect(() => {
+    if (stage?.kind === 'observe' && start && stage.done?.(context, start)) next();
+  });
+
+  const canContinue = !!stage && (
+    stage.kind === 'predict' ? lesson.questions.every((q) => answers[q.id]) :
+    stage.kind === 'setup' ? stage.ready?.(context) ?? true :
+    stage.kind === 'observe' ? !stage.done :
+    true
+  );
+
+  return {
+    lesson,
+    active,
+    index,
+    stage,
+    context,
+    start,
+    answers,
+    outcome,
+    record,
+    locked: !!stage?.locks,
+    canContinue,
+    begin,
+    answer: (question, choice) => setAnswers((a) => ({ ...a, [question]: choice })),
+    next,
+    exit: () => setActive(false),
+  };
+};
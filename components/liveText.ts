@@ -0,0 +1,19 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type * as THREE from 'three';
+
+// Scene labels that follow a running simulation are updated from the frame
+// loop through a ref to the mesh instead of through React state.
+
+/** The troika mesh behind drei's <Text>. */
+export type TextMesh = THREE.Mesh & { text: string, sync: () => void };
+
+/** Troika re-lays out text on sync(), so only touch it when the string changes. */
+export const setText = (mesh: TextMesh | null, text: string) => {
+  if (!mesh || mesh.text === text) return;
+  mesh.text = text;
+  mesh.sync();
+};
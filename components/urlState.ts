@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useState } from 'react';
+
+// Lab state lives in the location hash, e.g. #experiments/optics?d=320, so a
+// link reproduces an exact setup. Each change is a history entry and
+// back/forward step through them; only values that differ from their defaults
+// are written, which keeps links short.
+
+export const LAB_SECTION = 'experiments';
+
+export interface LabLocation {
+  tab: string | null;
+  params: URLSearchParams;
+}
+
+export interface ParamCodec<T> {
+  /** Returns undefined for a missing or invalid value, which falls back to the default. */
+  parse: (raw: string) => T | undefined;
+  format: (value: T) => string;
+}
+
+export const numberParam = (min: number, max: number): ParamCodec<number> => ({
+  parse: (raw) => {
+    const value = parseFloat(raw);
+    return Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : undefined;
+  },
+  format: (value) => String(Math.round(value * 1000) / 1000),
+});
+
+export const enumParam = <T extends string>(values: readonly T[]): ParamCodec<T> => ({
+  parse: (raw) => (values.includes(raw as T) ? (raw as T) : undefined),
+  format: (value) => value,
+});
+
+export const readLabLocation = (hash = window.location.hash): LabLocation => {
+  const match = hash.match(new RegExp(`^#${LAB_SECTION}(?:/([^?]*))?(?:\\?(.*))?$`));
+  if (!match) return { tab: null, params: new URLSearchParams() };
+  return { tab: match[1] || null, params: new URLSearchParams(match[2] ?? '') };
+};
+
+export const formatLabHash = ({ tab, params }: LabLocation) => {
+  const query = params.toString();
+  return `#${LAB_SECTION}${tab ? `/${tab}` : ''}${query ? `?${query}` : ''}`;
+};
+
+export const readParam = <T>(params: URLSearchParams, key: string, fallback: T, codec: ParamCodec<T>): T => {
+  const raw = params.get(key);
+  return raw == null ? fallback : codec.parse(raw) ?? fallback;
+};
+
+// Dragging a slider changes a value dozens of times a second; changes to the
+// same key this close together replace the last history entry instead.
+const COALESCE_MS = 700;
+let lastWrite = { key: '', at: 0 };
+
+const writeLabLocation = (location: LabLocation, key: string) => {
+  const hash = formatLabHash(location);
+  if (hash === window.location.hash) return;
+  const now = performance.now();
+  const coalesce = key === lastWrite.key && now - lastWrite.at < COALESCE_MS;
+  lastWrite = { key, at: now };
+  if (coalesce) window.history.replaceState(null, '', hash);
+  else window.history.pushState(null, '', hash);
+};
+
+/** Set (or, with null, remove) parameters of the current tab. */
+export const updateLabParams = (changes: Record<string, string | null>, key = Object.keys(changes).join(',')) => {
+  const location = readLabLocation();
+  Object.entries(changes).forEach(([k, v]) => {
+    if (v == null) location.params.delete(k);
+    else location.params.set(k, v);
+  });
+  writeLabLocation(location, key);
+};
+
+/** Switch tab; the new tab starts from its defaults. */
+export const setLabTab = (tab: string) => {
+  if (readLabLocation().tab === tab) return;
+  writeLabLocation({ tab, params: new URLSearchParams() }, 'tab');
+};
+
+/**
+ * Calls `listener` when back/forward or a followed link changes the location.
+ * Both fire popstate; hashchange would follow it for the same navigation.
+ */
+export const onLabNavigate = (listener: (location: LabLocation) => void) => {
+  const handle = () => listener(readLabLocation());
+  window.addEventListener('popstate', handle);
+  return () => window.removeEventListener('popstate', handle);
+};
+
+/** useState backed by one hash parameter of the current tab. */
+export const useUrlParam = <T>(key: string, fallback: T, codec: ParamCodec<T>): [T, (value: T) => void] => {
+  const [value, setValue] = useState<T>(() => readParam(readLabLocation().params, key, fallback, codec));
+
+  useEffect(() => onLabNavigate(({ params }) => setValue(readParam(params, key, fallback, codec))), [key]);
+
+  const update = (next: T) => {
+    setValue(next);
+    updateLabParams({ [key]: next === fallback ? null : codec.format(next) }, key);
+  };
+  return [value, update];
+};
+
+/** The active tab, kept in the hash path. */
+export const useLabTab = <T extends string>(tabs: readonly T[], fallback: T): [T, (tab: T) => void] => {
+  const parse = (tab: string | null) => (tabs.includes(tab as T) ? (tab as T) : fallback);
+  const [tab, setTab] = useState<T>(() => parse(readLabLocation().tab));
+
+  useEffect(() => onLabNavigate((location) => setTab(parse(location.tab))), []);
+
+  const update = (next: T) => {
+    setTab(next);
+    setLabTab(next);
+  };
+  return [tab, update];
+};
@@ -0,0 +1,416 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { MessageKey } from './zh-TW';
+
+// English. Keys left out here (text that reads the same in both languages)
+// fall back to the Traditional Chinese catalogue.
+
+export const en: Partial<Record<MessageKey, string>> = {
+  // --- Navigation and narrative ---
+  'nav.intro': 'Introduction',
+  'nav.lab': 'Virtual Lab',
+  'nav.conclusion': 'Conclusion',
+  'nav.journal': 'Science Development',
+  'nav.language': 'Language',
+
+  'hero.badge': 'Feature',
+  'hero.title': 'The Beauty of Bubbles',
+  'hero.subtitle': 'Physics, chemistry and mathematics in a soap film',
+  'hero.authors': 'Tzung-May Fu, Jen-Ping Chen / Department of Atmospheric Sciences, National Taiwan University',
+
+  'intro.heading': 'Foreword',
+  'intro.quote': '“Blow a soap bubble and observe it. You may study it all your life, and draw one lesson after another in physics from it.”',
+  'intro.lead': 'Few of us did not love blowing soap bubbles as children. On a sunny afternoon we watched sphere after sphere appear and dance on the breeze. Bubbles are perfect and fragile at once, and the brilliant colours on their films are endlessly fascinating. Behind that beauty lie deep principles of physics, chemistry and mathematics.',
+  'intro.mechanics.title': 'Film Mechanics',
+  'intro.mechanics.body': 'Why is a freshly blown bubble a perfect sphere? Because **surface tension** always pulls a film towards the smallest area it can have. And when two bubbles of different sizes are connected, the air flows the opposite way to what most people expect: the “connected bubbles paradox” we explore in the lab.',
+  'intro.geometry.title': 'Geometry',
+  'intro.geometry.body': 'When many bubbles gather, they arrange themselves into definite shapes that obey Plateau\'s laws. A film always seeks its lowest-energy state, and mathematical models show that these structures are the shortest networks joining a set of points.',
+  'intro.optics.title': 'Interference',
+  'intro.optics.body': 'The rainbow on a bubble comes from no pigment: it is **thin-film interference**. Light reflected from the two surfaces of the film interferes, and as gravity thins the film, the colours shift in mesmerising patterns.',
+
+  'lab.badge': 'Interactive Laboratory',
+  'lab.title': 'Bubble Science Lab',
+  'lab.intro': 'From mathematical models to physical phenomena, explore the secrets of bubbles through interactive simulations. Pick a tab below to begin.',
+  'lab.tab.mechanics': 'Film Mechanics',
+  'lab.tab.blowing': 'Blowing Bubbles',
+  'lab.tab.geometry': 'Geometry',
+  'lab.tab.plateau': 'Minimal Surfaces',
+  'lab.tab.catenoid': 'Catenoid',
+  'lab.tab.foam': 'Foam Coarsening',
+  'lab.tab.optics': 'Interference',
+  'lab.copyLink': 'Copy link',
+  'lab.copied': 'Copied',
+  'lab.copyLinkHint': 'The link reopens this tab with the current settings',
+  'lab.loading': 'Loading experiment…',
+  'lab.validate': 'Validate',
+  'lab.validateHint': 'Overlay analytic results on the simulation with their error, and list every check in a report',
+
+  'conclusion.heading': 'Conclusion',
+  'conclusion.body': 'Thanks to the work of many scientists in physics, chemistry, mathematics and biology, we now understand bubbles and surfaces far better. Surface phenomena remain a major concern in academia and industry alike: how atoms arrange themselves at a surface, how reactions proceed there and how to put them to use are all thriving fields of research.',
+  'conclusion.seaSpray.title': 'Sea Spray',
+  'conclusion.seaSpray.body': 'Climate effects and condensation nuclei',
+  'conclusion.origin.title': 'Origin of Life',
+  'conclusion.origin.body': 'Lipid molecules and protocells',
+  'conclusion.recipe.title': 'Bubble Recipes',
+  'conclusion.recipe.body': 'Glycerin and surface tension',
+
+  'footer.title': 'Bubble Science',
+  'footer.source': 'Based on "The Beauty of Bubbles", Science Development Journal Vol 29 No 11.',
+  'footer.credit': 'Visualization generated by AI',
+
+  // --- Shared controls ---
+  'common.play': 'Play',
+  'common.pause': 'Pause',
+  'common.reset': 'Reset',
+  'common.relax': 'Relax',
+  'common.timeSpeed': 'Time Speed',
+  'common.units': 'units',
+  'transport.step': 'Step forward',
+  'transport.stepBack': 'Step back',
+  'transport.rewind': 'Rewind',
+  'transport.time': 't = {time} / {end} s',
+
+  // --- Experiment 1: connected bubbles ---
+  'mech.title': 'Experiment 1: Connected Bubbles',
+  'mech.mode.pair': 'Two Bubbles',
+  'mech.mode.network': 'Network',
+  'mech.mode.double': 'Double Bubble',
+  'mech.double.hint': 'Drag one bubble into the other. When they touch they share a wall and keep their volumes.',
+  'mech.double.merged': 'Three spherical films meet on a circle at 120°. Change a radius to reshape the pair.',
+  'mech.double.chamber': 'Chamber {id}',
+  'mech.double.wall': 'Shared wall r₃',
+  'mech.double.wallPressure': 'Across the wall',
+  'mech.double.curvature': '1/r₃ = 1/r{small} − 1/r{large}',
+  'mech.double.angles': 'Angles at the junction',
+  'mech.double.bulge': 'Bubble {small} is smaller and at higher pressure, so the shared wall bulges into bubble {large}.',
+  'mech.double.flat': 'Equal bubbles, equal pressures: the shared wall is flat.',
+  'mech.double.separate': 'Pull Apart',
+  'mech.bubble': 'Bubble {id}',
+  'mech.bubbleRadius': 'Bubble {id} Radius',
+  'mech.valve.open': 'OPEN',
+  'mech.valve.shut': 'SHUT',
+  'mech.solution': 'Solution',
+  'mech.surface.film': 'Soap film · 4γ/r',
+  'mech.surface.filmHint': 'Soap bubble in air: two liquid–air surfaces, ΔP = 4γ/r',
+  'mech.surface.drop': 'Drop · 2γ/r',
+  'mech.surface.dropHint': 'Liquid drop or gas bubble in liquid: one surface, ΔP = 2γ/r',
+  'mech.ambient': 'Air Pressure P₀',
+  'mech.ambient.sea': 'Sea level',
+  'mech.ambient.city': '1,600 m',
+  'mech.ambient.everest': 'Everest',
+  'mech.ambient.chamber': 'Bell jar',
+  'mech.temperature': 'Temperature',
+  'mech.gasHint': 'Each bubble keeps its gas: PV = nRT with P = P₀ + ΔP. Thinner air or a warmer room makes every bubble swell.',
+  'mech.openValve': 'Open Valve',
+  'mech.valveOpen': 'Valve Open',
+  'mech.simulating': 'Simulating...',
+  'mech.runNetwork': 'Run Network',
+  'mech.tool.select': 'Select',
+  'mech.tool.add': 'Add Bubble',
+  'mech.tool.connect': 'Connect',
+  'mech.hint.select': 'Click a bubble to select it; click a valve to open or shut it.',
+  'mech.hint.add': 'Click the floor to blow a new bubble.',
+  'mech.hint.connect': 'Click one bubble, then another, to join them with a pipe.',
+  'mech.collapsed': 'collapsed',
+  'mech.removeBubble': 'Remove bubble {id}',
+  'mech.replay': 'replay t = {time} s',
+  'mech.peak': 'Freeze at peak ΔP ({dp}, t = {time} s)',
+  'mech.peakMarker': 'ΔP max',
+  'mech.chart.radius': 'Radius r',
+  'mech.chart.pressure': 'Pressure ΔP',
+  'mech.chart.flow': 'Flow Q',
+
+  'fluid.dish-soap.name': 'Dish-soap solution',
+  'fluid.dish-soap.note': 'Surfactant lowers γ to about a third of pure water and stabilises the film.',
+  'fluid.soap-glycerin.name': 'Soap + glycerin (bubble mix)',
+  'fluid.soap-glycerin.note': 'Glycerin slows evaporation and drainage, so films last longer.',
+  'fluid.water.name': 'Pure water',
+  'fluid.water.note': 'High γ, but without surfactant a free film drains and bursts at once.',
+  'fluid.glycerin-50.name': 'Glycerin–water 50%',
+  'fluid.glycerin-50.note': 'Viscous and slightly less tense than water.',
+  'fluid.glycerin.name': 'Pure glycerin',
+  'fluid.glycerin.note': 'Very viscous; γ close to that of water.',
+
+  // --- Blowing a bubble ---
+  'blow.title': 'Blowing a Bubble Through a Ring',
+  'blow.description': 'Push gas under a film stretched across a ring. The film bulges into a spherical cap, and its pressure ΔP = 4γ/R peaks when the cap is a hemisphere, its radius R equal to the ring\'s.',
+  'blow.mode.volume': 'Syringe',
+  'blow.mode.pressure': 'Steady Pressure',
+  'blow.modeHint.volume': 'The syringe fixes the volume, so the film passes smoothly over the pressure peak.',
+  'blow.modeHint.pressure': 'A steady supply fixes the pressure. Past the hemisphere a bigger cap needs less pressure, so nothing holds it back.',
+  'blow.ring': 'Ring Radius a',
+  'blow.syringe': 'Gas Pushed In V',
+  'blow.supply': 'Supply Pressure',
+  'blow.supplyRatio': '{ratio} × peak',
+  'blow.blow': 'Blow',
+  'blow.height': 'Cap height h',
+  'blow.radius': 'Radius of curvature R',
+  'blow.peak': 'Peak at the hemisphere: ΔP = 4γ/a = {p}',
+  'blow.stable': 'Below the hemisphere: a bigger cap needs more pressure (stable).',
+  'blow.unstable': 'Past the hemisphere: a bigger cap needs less pressure (unstable).',
+  'blow.equilibria': 'At this supply the film can rest at h = {stable} (stable) or h = {unstable} (unstable).',
+  'blow.runaway': 'The supply is above the peak: no cap can hold it, so the bubble runs away.',
+  'blow.detached': 'The bubble broke free of the ring',
+  'blow.hemisphere': 'hemisphere',
+  'blow.chart.radius': 'ΔP against cap radius R',
+  'blow.chart.volume': 'ΔP against volume V',
+  'blow.series.theory': '4γ/R',
+  'blow.series.live': 'blown',
+  'blow.series.supply': 'supply',
+
+  // --- Experiment 2: geometry ---
+  'geometry.solver': 'Steiner Solver',
+  'geometry.relax': 'Film Relaxation',
+
+  'steiner.title': 'Experiment 2: Geometry',
+  'steiner.description': 'Plateau\'s problem: find the smallest total length that joins these points. Nature settles into the state of least energy.',
+  'steiner.hint': 'Click empty space to add a pin · drag to move · double-click or right-click to remove',
+  'steiner.mode.mst': 'Direct (MST)',
+  'steiner.mode.star': 'Star',
+  'steiner.mode.soap': 'Soap Film',
+  'steiner.row.soap': 'Steiner (soap film)',
+  'steiner.row.mst': 'Minimum spanning tree',
+  'steiner.row.star': 'Star from centroid',
+  'steiner.totalLength': 'Total Path Length',
+  'steiner.shorter': '✓ Soap film is {percent}% shorter than the MST',
+  'steiner.pins': '{count} pins',
+  'steiner.exact': 'exact solver',
+  'steiner.heuristic': 'heuristic (N > {limit})',
+  'steiner.resetSquare': 'Reset to Square',
+
+  'relax.title': 'Film Relaxation',
+  'relax.description': 'Every film pulls on its ends with the same tension, so junctions move along the net force and the total length only ever shrinks. A four-way crossing splits into two 120° Y junctions. This only guarantees a local minimum: from a different starting topology the film can settle on a network that is not the shortest.',
+  'relax.hint': 'Click a node, then another spot, to draw a film · double-click or right-click to remove a junction · pale blue is the global minimum',
+  'relax.layout.square': 'Square',
+  'relax.layout.rectangle': 'Rectangle',
+  'relax.layout.pentagon': 'Pentagon',
+  'relax.t1': 'T1 flips',
+  'relax.splits': 'junction splits',
+  'relax.start': 'Starting Network',
+  'relax.preset.star': 'Star',
+  'relax.preset.horizontal': 'Bridge ↔',
+  'relax.preset.vertical': 'Bridge ↕',
+  'relax.preset.draw': 'Draw',
+  'relax.aspect': 'Aspect Ratio (w : h)',
+  'relax.totalLength': 'Total Film Length',
+  'relax.globalMinimum': 'Global minimum',
+  'relax.notJoined': 'Network does not join every pin yet.',
+  'relax.relaxing': 'Relaxing…',
+  'relax.pressRelax': 'Press Relax to let the film pull tight.',
+  'relax.atGlobal': '✓ Settled at the global minimum',
+  'relax.atLocal': 'Stuck in a local minimum: {percent}% longer than the Steiner tree',
+  'relax.chart': 'Topology length',
+  'relax.switch': 'switch 1:1',
+
+  // --- Minimal surfaces ---
+  'plateau.title': 'Minimal Surfaces on Wire Frames',
+  'plateau.description': 'Dip a wire frame in soapy water and lift it out: the film shrinks to the surface of least area. Here the film is cut into a triangle mesh whose vertices move down the area gradient, refining step by step until the area stops falling. Three films always meet at 120° along a border, and four borders meet at about 109.47° at a point.',
+  'plateau.area': 'area: {area}',
+  'plateau.iteration': 'iteration {iteration} · level {level}/{levels}',
+  'plateau.triangles': '{count} triangles',
+  'plateau.converged': 'converged',
+  'plateau.polyline': 'Closed Polyline',
+  'plateau.polylineHint': '(x, y, z per line)',
+  'plateau.apply': 'Apply',
+  'plateau.highlight': 'Highlight Plateau borders',
+  'plateau.chart': 'Film area',
+  'plateau.series': 'area',
+  'plateau.error.numbers': 'Line {line}: expected three numbers',
+  'plateau.error.tooFew': 'Need at least three points',
+  'plateau.refine': 'refine',
+  'plateau.laws': 'Plateau\'s Laws',
+  'plateau.singleSheet': 'A single sheet: no triple lines.',
+  'plateau.sheetsMeet': 'Sheets meet at (mean deviation from 120°)',
+  'plateau.linesMeet': 'Triple lines meet at (ideal {angle}°)',
+
+  'frame.cube': 'Cube',
+  'frame.tetrahedron': 'Tetrahedron',
+  'frame.prism': 'Triangular prism',
+  'frame.rings': 'Two rings',
+  'frame.custom': 'Custom polyline',
+
+  // --- Catenoid ---
+  'catenoid.title': 'A Film Between Two Rings',
+  'catenoid.description': 'Pull the rings apart. The film takes the shape of a catenoid, r = c·cosh(z/c), the only surface of revolution with zero mean curvature. Up to about 1.325 ring radii there are two: a fat stable one and a thin unstable one. Past that there is none, and the film snaps into two flat discs.',
+  'catenoid.separation': 'Ring Separation d',
+  'catenoid.ring': 'Ring Radius R',
+  'catenoid.showUnstable': 'Show the unstable catenoid',
+  'catenoid.neck.stable': 'Neck, stable',
+  'catenoid.neck.unstable': 'Neck, unstable',
+  'catenoid.area.stable': 'Area, stable catenoid',
+  'catenoid.area.unstable': 'Area, unstable catenoid',
+  'catenoid.area.discs': 'Area, two discs',
+  'catenoid.status.global': 'The catenoid has less area than the two discs: it is the true minimum.',
+  'catenoid.status.local': 'Past {goldschmidt} R the two discs have less area. The catenoid survives only as a local minimum.',
+  'catenoid.status.broken': 'No catenoid can span rings more than {limit} R apart, so the film has fallen back to two discs.',
+  'catenoid.pinching': 'The neck is pinching off',
+  'catenoid.discs': 'Two flat discs',
+  'catenoid.redip': 'Dip the Rings Again',
+  'catenoid.redipHint': 'Bring the rings closer to dip again',
+  'catenoid.goldschmidt': 'equal area',
+  'catenoid.critical': 'limit',
+  'catenoid.chart.neck': 'Neck radius c against separation',
+  'catenoid.chart.area': 'Area against separation',
+  'catenoid.series.stable': 'stable',
+  'catenoid.series.unstable': 'unstable',
+  'catenoid.series.discs': 'discs',
+
+  // --- Foam coarsening ---
+  'foam.title': 'Foam Coarsening',
+  'foam.description': 'In a dry 2D foam every film is a circular arc whose curvature is set by the pressure difference across it, and films always meet three at a time at 120°. Gas diffuses from small, high-pressure bubbles into large, low-pressure ones: bubbles with fewer than six sides shrink and those with more grow (von Neumann\'s law, dA/dt ∝ n − 6), so the foam keeps coarsening.',
+  'foam.cells': '{count} cells',
+  'foam.junctions': 'junctions: {error}° from 120°',
+  'foam.chart.area': 'Mean cell area',
+  'foam.chart.rate': 'Growth rate by sides',
+  'foam.measured': 'measured',
+  'foam.histogram': 'Side-count Histogram',
+  'foam.cellCount': 'Cells',
+  'foam.coarsen': 'Coarsen',
+  'foam.newFoam': 'New Foam',
+
+  // --- Experiment 3: optics ---
+  'optics.static': 'Thin Film',
+  'optics.drainage': 'Gravity Drainage',
+  'optics.title': 'Experiment 3: Interference Colours',
+  'optics.description': 'A bubble\'s colours come from no pigment: light reflected from the top and bottom of the film interferes. The thickness decides which colours are reinforced and which cancel.',
+  'optics.crossSection': 'Film Cross-Section',
+  'optics.observed': 'Observed Color',
+  'optics.blackFilm': 'Black Film (Fragile!)',
+  'optics.reflectance': 'Reflectance R(λ)',
+  'optics.thickness': 'Film Thickness (d)',
+  'optics.angle': 'Angle of Incidence (θ)',
+  'optics.index': 'Refractive Index (n)',
+  'optics.unpolarized': 'Unpolarized',
+  'optics.polarized': '{pol}-pol.',
+  'optics.illuminant': 'Illuminant',
+  'optics.note.black': 'When the film is extremely thin (<30 nm), the path difference makes the reflections cancel: the bubble turns black (a black film) and is about to burst.',
+  'optics.note.silver': 'The film looks silvery white or golden.',
+  'optics.note.cycle': 'As the film gets thicker, the colours cycle through violet, blue, green, yellow and red.',
+  'optics.constructive': 'reinforced {list}',
+  'optics.noConstructive': 'no visible reinforcement',
+  'optics.destructive': 'cancelled {list}',
+
+  'illuminant.D65': 'Daylight (D65)',
+  'illuminant.A': 'Incandescent (A)',
+  'illuminant.E': 'Equal energy (E)',
+
+  'drainage.title': 'Gravity Drainage',
+  'drainage.description': 'In an upright film, gravity keeps pulling the liquid down. The top thins first and the interference bands slide downwards; once the top has turned black and thinned to its limit, the film bursts.',
+  'drainage.popped': 'Pop! Film ruptured',
+  'drainage.blackFilm': '← black film',
+  'drainage.verticalFilm': 'Vertical Film',
+  'drainage.top': 'top',
+  'drainage.middle': 'middle',
+  'drainage.bottom': 'bottom',
+  'drainage.black': 'black',
+  'drainage.liquidLeft': 'liquid left',
+  'drainage.profile': 'Starting Profile',
+  'drainage.initialThickness': 'Initial Thickness',
+  'drainage.timeScale': 'Time scale: at ×1, each second on screen is {factor} s of draining.',
+
+  'profile.uniform': 'Uniform',
+  'profile.wedge': 'Wedge (thin top)',
+  'profile.wavy': 'Wavy',
+
+  // --- Guided lessons ---
+  'lesson.start': 'Guided lesson: {title}',
+  'lesson.best': 'best {correct}/{total}',
+  'lesson.exit': 'Leave lesson',
+  'lesson.next': 'Next',
+  'lesson.lockIn': 'Lock in prediction',
+  'lesson.finish': 'Finish',
+  'lesson.watching': 'Watching…',
+  'lesson.yours': 'Your prediction',
+  'lesson.observed': 'What happened',
+  'lesson.score': '{correct}/{total} correct',
+  'lesson.compare': 'Compare your prediction with what actually happened.',
+  'lesson.stage.setup': 'Set up',
+  'lesson.stage.predict': 'Predict',
+  'lesson.stage.observe': 'Observe',
+  'lesson.stage.compare': 'Compare',
+  'lesson.stage.explain': 'Explain',
+
+  'lesson.pair.title': 'The Connected-Bubbles Paradox',
+  'lesson.pair.setup': 'Use the sliders to give the two bubbles different sizes. Keep the valve shut for now.',
+  'lesson.pair.setupWaiting': 'The radii must differ by at least 1 mm.',
+  'lesson.pair.predict': 'Before the valve opens, write down your prediction.',
+  'lesson.pair.flow.prompt': 'Which way will the air flow?',
+  'lesson.pair.flow.smallToLarge': 'From the small bubble into the large one',
+  'lesson.pair.flow.largeToSmall': 'From the large bubble into the small one',
+  'lesson.pair.flow.none': 'It will not flow',
+  'lesson.pair.end.prompt': 'How will it end?',
+  'lesson.pair.end.equal': 'Both bubbles end up the same size',
+  'lesson.pair.end.smallEmpties': 'The small bubble empties and the large one grows',
+  'lesson.pair.end.largeEmpties': 'The large bubble empties and the small one grows',
+  'lesson.pair.observe': 'The valve is open. Watch the air in the pipe and the pressure of each bubble.',
+  'lesson.pair.explain': 'Before the valve opened, bubble {small} (r = {rSmall}) held a pressure excess of **{pSmall}**, while bubble {large} (r = {rLarge}) held only **{pLarge}**. By the Young–Laplace law, ΔP = 4γ/r, the smaller bubble has the higher pressure, so air flows from small to large. As the small bubble shrinks its pressure climbs even further, so the flow never reverses: it empties into bubble {large}, which ends at r = {rFinal}.',
+
+  'lesson.steiner.title': 'The Shortest Network on a Square',
+  'lesson.steiner.setup': 'Four pins sit at the corners of a unit square. Which way of joining them has the shortest total length?',
+  'lesson.steiner.predict': 'The view shows the pins joined along three sides. Write down your prediction first.',
+  'lesson.steiner.shortest.prompt': 'Which network is shortest?',
+  'lesson.steiner.shortest.mst': 'Along three sides (minimum spanning tree)',
+  'lesson.steiner.shortest.star': 'An X through the centre (both diagonals)',
+  'lesson.steiner.shortest.soap': 'A network with extra junctions of its own',
+  'lesson.steiner.angle.prompt': 'At what angle do the films meet at a junction?',
+  'lesson.steiner.angle.90': '90°, like the corners of the square',
+  'lesson.steiner.angle.120': '120°, three films sharing the turn equally',
+  'lesson.steiner.angle.varies': 'It depends on where the pins are',
+  'lesson.steiner.observe': 'This is the network the soap film finds. Compare the three with the buttons above, then continue.',
+  'lesson.steiner.explain': 'Three sides measure {mst} and the X {star}, but the soap film needs only **{soap}**. It adds two junctions in the middle, and at each one three films meet at **120°**: if any angle were smaller, sliding the junction that way would shorten the total, so the point where the tensions balance is exactly the shortest network.',
+
+  'lesson.film.title': 'The Black Film Before a Bubble Bursts',
+  'lesson.film.setup': 'This film is 600 nm thick and shows a vivid interference colour. A real bubble drains under gravity and keeps thinning until it bursts.',
+  'lesson.film.predict': 'Before you thin the film, write down your prediction.',
+  'lesson.film.look.prompt': 'When the film is only a few tens of nanometres thick and about to burst, what colour is it?',
+  'lesson.film.look.white': 'Bright white',
+  'lesson.film.look.black': 'Black',
+  'lesson.film.look.colour': 'The most vivid colours yet',
+  'lesson.film.light.prompt': 'Compared with now, how much light will it reflect?',
+  'lesson.film.light.more': 'More',
+  'lesson.film.light.same': 'About the same',
+  'lesson.film.light.less': 'Much less',
+  'lesson.film.observe': 'Drag the thickness slider below 30 nm.',
+  'lesson.film.explain': 'At d = {d} nm the optical path difference is only {opd} nm, far shorter than any visible wavelength. Reflection at the top surface adds a half-wave shift, so the two reflected waves almost cancel: the mean reflectance drops from {before}% to **{after}%** and the film looks **black**, the sign that the bubble is about to burst.',
+
+  // --- Validation ---
+  'validation.title': 'Validation report',
+  'validation.description': 'Each check runs the lab\'s own model on a case with an analytic answer (or an independent high-accuracy integration) and passes if the error is within its tolerance.',
+  'validation.summary': '{passed} of {total} checks pass',
+  'validation.check': 'Check',
+  'validation.expected': 'Theory',
+  'validation.actual': 'Simulated',
+  'validation.error': 'Error',
+  'validation.relative': 'Relative error',
+  'validation.absolute': 'Absolute error',
+  'validation.pass': 'Pass',
+  'validation.fail': 'Fail',
+  'validation.tolerance': 'tolerance {tolerance}',
+  'validation.pairRadius': 'Final radius of a connected 12 mm and 8 mm pair vs a bubble holding both bubbles\' gas (the emptied bubble keeps a sliver below 2 mm)',
+  'validation.pairGas': 'Total amount of gas (mol) conserved over the run',
+  'validation.pairTime': 'Time for the small bubble to empty vs an RK4 integration at a hundredth of the step',
+  'validation.networkGas': 'Total amount of gas (mol) conserved across a four-bubble ring of pipes',
+  'validation.steinerTriangle': 'Minimal network of an equilateral triangle vs √3·s',
+  'validation.steinerSquare': 'Minimal network of a square vs (1 + √3)·s',
+  'validation.steinerHexagon': 'Minimal network of a regular hexagon vs 5·s (perimeter less one side)',
+  'validation.steinerAngles': 'Junction angles of the square\'s network vs 120°',
+  'validation.airyNormal': 'Reflectance spectrum of a 400 nm film at normal incidence vs the Airy formula',
+  'validation.airyOblique': 'Reflectance spectrum of a 650 nm film at 60° (s and p) vs the Airy formula',
+  'validation.quarterWave': 'Reflectance of a quarter-wave film vs ((n² − 1)/(n² + 1))²',
+  'validation.halfWave': 'Reflectance of a half-wave film vs 0',
+  'validation.pair.exact': 'Analytic end state: n∞ = n_A + n_B, r∞ = {r}',
+  'validation.pair.live': 'Simulated: {r} (error {error}%)',
+  'validation.network.gas': 'Total gas (mol) drift: {drift}',
+  'validation.steiner.exact': 'Exact minimal length for a regular {n}-gon: {length}',
+  'validation.steiner.error': 'Relative error: {error}',
+  'validation.steiner.none': 'No closed form for these pins. Try a regular polygon:',
+  'validation.steiner.angles': 'Largest junction deviation from 120°: {deviation}°',
+  'validation.steiner.triangle': 'Triangle',
+  'validation.steiner.square': 'Square',
+  'validation.steiner.hexagon': 'Hexagon',
+  'validation.optics.series': 'Airy formula',
+  'validation.optics.error': 'Largest deviation from the Airy formula: {error}',
+};
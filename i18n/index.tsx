@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { formatFixed } from '../physics/units';
+import { en } from './en';
+import { zhTW, type MessageKey } from './zh-TW';
+
+// The zh-TW catalogue is the reference: every key exists there, and a key
+// missing from another locale falls back to it.
+
+export type { MessageKey };
+
+export type Locale = 'zh-TW' | 'en';
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'zh-TW', label: '中文' },
+  { id: 'en', label: 'EN' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'zh-TW';
+
+const CATALOGUES: Record<Locale, Partial<Record<MessageKey, string>>> = { 'zh-TW': zhTW, en };
+
+const STORAGE_KEY = 'bubble-physics:locale';
+
+export type MessageVars = Record<string, string | number>;
+
+/** Look up `key` and fill `{name}` placeholders from `vars`. */
+export const translate = (locale: Locale, key: MessageKey, vars?: MessageVars) => {
+  const message = CATALOGUES[locale][key] ?? zhTW[key] ?? key;
+  if (!vars) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name) => (name in vars ? String(vars[name]) : match));
+};
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some((l) => l.id === value);
+
+/** A stored choice wins; otherwise Chinese browsers get zh-TW and everyone else English. */
+const initialLocale = (): Locale => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage can be disabled; fall through to the browser language.
+  }
+  const language = typeof navigator === 'undefined' ? '' : navigator.language.toLowerCase();
+  if (!language) return DEFAULT_LOCALE;
+  return language.startsWith('zh') ? 'zh-TW' : 'en';
+};
+
+interface I18nValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, vars?: MessageVars) => string;
+  /** Fixed decimals with the locale's separators. */
+  formatNumber: (value: number, digits?: number) => string;
+}
+
+const I18nContext = createContext<I18nValue | null>(null);
+
+export const I18nProvider = ({ children }: { children: React.ReactNode }) => {
+  const [locale, setLocale] = useState<Locale>(initialLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    try {
+      window.localStorage.setItem(STORAGE_KEY, locale);
+    } catch {
+      // Not persisting is fine; the choice still holds for this visit.
+    }
+  }, [locale]);
+
+  const value = useMemo<I18nValue>(() => ({
+    locale,
+    setLocale,
+    t: (key, vars) => translate(locale, key, vars),
+    formatNumber: (n, digits = 0) => formatFixed(n, digits, locale),
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => {
+  const value = useContext(I18nContext);
+  if (!value) throw new Error('useI18n must be used inside <I18nProvider>');
+  return value;
+};
+
+/** Render `**bold**` spans in a message, for the emphasised terms in the narrative. */
+export const rich = (text: string) =>
+  text.split(/\*\*(.+?)\*\*/g).map((part, i) =>
+    i % 2 ? <strong key={i} className="text-stone-700">{part}</strong> : <React.Fragment key={i}>{part}</React.Fragment>
+  );
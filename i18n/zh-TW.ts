@@ -0,0 +1,420 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Traditional Chinese, the site's original language and the reference
+// catalogue: every key exists here, and a key another locale leaves out falls
+// back to this text. `{name}` marks a value filled in at runtime; `**text**`
+// marks emphasis in narrative paragraphs.
+
+export const zhTW = {
+  // --- Navigation and narrative ---
+  'nav.intro': '導讀',
+  'nav.lab': '虛擬實驗室',
+  'nav.conclusion': '結語',
+  'nav.journal': '科學發展月刊',
+  'nav.language': '語言',
+
+  'hero.badge': '專題報導',
+  'hero.title': '冒泡的美',
+  'hero.subtitle': 'The Beauty of Bubbles',
+  'hero.authors': '傅宗玫、陳正平 ／ 台灣大學大氣科學研究所',
+
+  'intro.heading': '前言',
+  'intro.quote': '「請吹一個泡泡，並好好觀察它。你可以窮一生之力對它進行研究，而不斷獲得物理學的知識。」',
+  'intro.quoteAuthor': '— Lord Kelvin (1824-1907)',
+  'intro.lead': '應該很少人小時候不愛吹肥皂泡泡的吧！陽光燦爛的午後，看著一個個球形出現，隨著微風飄舞。泡泡既完美又脆弱的特質，和泡膜上反射出的斑斕色彩，都令人深深著迷。然而，這美麗的背後隱藏著深刻的物理、化學與數學原理。',
+  'intro.mechanics.title': '泡膜力學',
+  'intro.mechanics.body': '為什麼吹出來的泡泡會呈完美的球形？這源於**表面張力**傾向於採取最小表面積的特性。而當兩個大小不同的泡泡連通時，空氣流動的方向往往違反直覺——這正是我們將在實驗室中探索的「連通管悖論」。',
+  'intro.geometry.title': '幾何結構',
+  'intro.geometry.body': '當多個泡泡聚集時，它們會遵循普拉圖定律 (Plateau\'s Laws) 自動形成特定的幾何結構。泡膜總是尋找能量最低的狀態，透過數學模型，我們可以證明這些結構是連接多點的最短路徑。',
+  'intro.optics.title': '光學干涉',
+  'intro.optics.body': '泡膜上的彩虹並非來自色素，而是**薄膜干涉**的結果。光線在薄膜上下表面反射並相互作用，隨著重力使膜厚改變，顏色也隨之產生迷人的動態變化。',
+
+  'lab.badge': '互動實驗室',
+  'lab.title': '泡泡科學實驗室',
+  'lab.intro': '從數學模型到物理現象，透過互動模擬深入了解泡泡的奧秘。請選擇下方頁籤開始探索。',
+  'lab.tab.mechanics': '泡膜力學',
+  'lab.tab.blowing': '吹泡泡',
+  'lab.tab.geometry': '幾何結構',
+  'lab.tab.plateau': '極小曲面',
+  'lab.tab.catenoid': '懸鏈曲面',
+  'lab.tab.foam': '泡沫粗化',
+  'lab.tab.optics': '光學干涉',
+  'lab.copyLink': '複製連結',
+  'lab.copied': '已複製',
+  'lab.copyLinkHint': '連結會以目前的設定重新開啟這個頁籤',
+  'lab.loading': '載入實驗中…',
+  'lab.validate': '驗證模式',
+  'lab.validateHint': '在模擬上疊加解析解並顯示誤差，並列出所有檢驗的報告',
+
+  'conclusion.heading': '結語',
+  'conclusion.body': '透過許多科學家在物理、化學、數學和生物學方面的研究，我們對於泡泡、表面相關問題終於有了較多的瞭解。今日，不論學術界和工業界對於「表面」現象仍然非常重視，包括物質表面的原子排列和化學反應機制及其應用，都是方興未艾的研究課題。',
+  'conclusion.seaSpray.title': '海沫 (Sea Spray)',
+  'conclusion.seaSpray.body': '氣候影響與凝結核',
+  'conclusion.origin.title': '生命起源',
+  'conclusion.origin.body': '脂類分子與原始細胞',
+  'conclusion.recipe.title': '泡泡配方',
+  'conclusion.recipe.body': '甘油與表面張力',
+
+  'footer.title': '泡泡科學',
+  'footer.source': '改編自〈冒泡的美〉，科學發展月刊第 29 卷第 11 期。',
+  'footer.credit': '視覺化由 AI 生成',
+
+  // --- Shared controls ---
+  'common.play': '播放',
+  'common.pause': '暫停',
+  'common.reset': '重設',
+  'common.relax': '鬆弛',
+  'common.timeSpeed': '時間倍率',
+  'common.units': '單位長',
+  'transport.step': '前進一步',
+  'transport.stepBack': '後退一步',
+  'transport.rewind': '倒轉',
+  'transport.time': 't = {time} / {end} s',
+
+  // --- Experiment 1: connected bubbles ---
+  'mech.title': '實驗一：連通泡泡',
+  'mech.mode.pair': '兩個泡泡',
+  'mech.mode.network': '泡泡網路',
+  'mech.mode.double': '雙泡',
+  'mech.double.hint': '把一顆泡泡拖向另一顆。兩者接觸後會共用一面隔膜，各自的體積不變。',
+  'mech.double.merged': '三片球面膜在一個圓上以 120° 相交。調整半徑即可改變雙泡的形狀。',
+  'mech.double.chamber': '氣室 {id}',
+  'mech.double.wall': '共用隔膜 r₃',
+  'mech.double.wallPressure': '隔膜兩側壓差',
+  'mech.double.curvature': '1/r₃ = 1/r{small} − 1/r{large}',
+  'mech.double.angles': '交界處夾角',
+  'mech.double.bulge': '泡泡 {small} 較小、壓力較高，所以共用隔膜鼓向泡泡 {large}。',
+  'mech.double.flat': '兩顆泡泡一樣大、壓力相等：共用隔膜是平的。',
+  'mech.double.separate': '拉開',
+  'mech.bubble': '泡泡 {id}',
+  'mech.bubbleRadius': '泡泡 {id} 半徑',
+  'mech.valve.open': '開',
+  'mech.valve.shut': '關',
+  'mech.solution': '溶液',
+  'mech.surface.film': '肥皂膜 · 4γ/r',
+  'mech.surface.filmHint': '空氣中的肥皂泡：兩個液–氣界面，ΔP = 4γ/r',
+  'mech.surface.drop': '液滴 · 2γ/r',
+  'mech.surface.dropHint': '液滴或液體中的氣泡：只有一個界面，ΔP = 2γ/r',
+  'mech.ambient': '大氣壓力 P₀',
+  'mech.ambient.sea': '海平面',
+  'mech.ambient.city': '海拔 1600 m',
+  'mech.ambient.everest': '聖母峰頂',
+  'mech.ambient.chamber': '抽氣鐘罩',
+  'mech.temperature': '溫度',
+  'mech.gasHint': '每個泡泡內的氣體量不變：PV = nRT，其中 P = P₀ + ΔP。空氣越稀薄或溫度越高，泡泡就越脹。',
+  'mech.openValve': '打開閥門',
+  'mech.valveOpen': '閥門已開',
+  'mech.simulating': '模擬中…',
+  'mech.runNetwork': '執行網路',
+  'mech.tool.select': '選取',
+  'mech.tool.add': '新增泡泡',
+  'mech.tool.connect': '連接',
+  'mech.hint.select': '點選泡泡以選取；點選閥門可開關。',
+  'mech.hint.add': '點擊地面吹出新泡泡。',
+  'mech.hint.connect': '先點一個泡泡，再點另一個，用管子連起來。',
+  'mech.collapsed': '已破滅',
+  'mech.removeBubble': '移除泡泡 {id}',
+  'mech.replay': '回放 t = {time} s',
+  'mech.peak': '停在壓差最大處（{dp}，t = {time} s）',
+  'mech.peakMarker': 'ΔP 最大',
+  'mech.chart.radius': '半徑 r',
+  'mech.chart.pressure': '壓差 ΔP',
+  'mech.chart.flow': '流量 Q',
+
+  'fluid.dish-soap.name': '洗碗精溶液',
+  'fluid.dish-soap.note': '界面活性劑把 γ 降到純水的三分之一左右，並讓泡膜穩定。',
+  'fluid.soap-glycerin.name': '肥皂＋甘油（泡泡水）',
+  'fluid.soap-glycerin.note': '甘油減緩蒸發與排液，泡膜能維持更久。',
+  'fluid.water.name': '純水',
+  'fluid.water.note': 'γ 很高，但沒有界面活性劑，自由膜會立刻排液破裂。',
+  'fluid.glycerin-50.name': '甘油水溶液 50%',
+  'fluid.glycerin-50.note': '黏稠，張力略低於水。',
+  'fluid.glycerin.name': '純甘油',
+  'fluid.glycerin.note': '非常黏稠；γ 與水相近。',
+
+  // --- Blowing a bubble ---
+  'blow.title': '從圓環吹出泡泡',
+  'blow.description': '把氣體推進撐在圓環上的薄膜下方。薄膜鼓成球冠，其壓力 ΔP = 4γ/R 在球冠恰為半球、曲率半徑 R 等於圓環半徑時達到最大。',
+  'blow.mode.volume': '注射筒',
+  'blow.mode.pressure': '定壓供氣',
+  'blow.modeHint.volume': '注射筒固定體積，薄膜會平順地越過壓力峰值。',
+  'blow.modeHint.pressure': '定壓供氣固定壓力。越過半球後，球冠越大所需壓力越小，沒有任何東西能讓它停下。',
+  'blow.ring': '圓環半徑 a',
+  'blow.syringe': '推入氣體 V',
+  'blow.supply': '供氣壓力',
+  'blow.supplyRatio': '峰值的 {ratio} 倍',
+  'blow.blow': '吹氣',
+  'blow.height': '球冠高度 h',
+  'blow.radius': '曲率半徑 R',
+  'blow.peak': '半球時達峰值：ΔP = 4γ/a = {p}',
+  'blow.stable': '尚未到半球：球冠越大需要越大壓力（穩定）。',
+  'blow.unstable': '已越過半球：球冠越大需要越小壓力（不穩定）。',
+  'blow.equilibria': '在此供氣壓力下，薄膜可停在 h = {stable}（穩定）或 h = {unstable}（不穩定）。',
+  'blow.runaway': '供氣壓力高於峰值：沒有任何球冠撐得住，泡泡會失控脹大。',
+  'blow.detached': '泡泡脫離了圓環',
+  'blow.hemisphere': '半球',
+  'blow.chart.radius': 'ΔP 對曲率半徑 R',
+  'blow.chart.volume': 'ΔP 對體積 V',
+  'blow.series.theory': '4γ/R',
+  'blow.series.live': '吹出',
+  'blow.series.supply': '供氣',
+
+  // --- Experiment 2: geometry ---
+  'geometry.solver': '史坦納求解',
+  'geometry.relax': '泡膜鬆弛',
+
+  'steiner.title': '實驗二：幾何結構',
+  'steiner.description': '普拉圖問題 (Plateau\'s Problem)：尋找連接這些點的最小總長度。自然界傾向於最小能量狀態。',
+  'steiner.hint': '點擊空白處新增釘點 · 拖曳移動 · 雙擊或右鍵移除',
+  'steiner.mode.mst': '直連 (MST)',
+  'steiner.mode.star': '星形',
+  'steiner.mode.soap': '泡膜',
+  'steiner.row.soap': '史坦納樹（泡膜）',
+  'steiner.row.mst': '最小生成樹',
+  'steiner.row.star': '重心星形',
+  'steiner.totalLength': '總路徑長度',
+  'steiner.shorter': '✓ 泡膜比最小生成樹短 {percent}%',
+  'steiner.pins': '{count} 個釘點',
+  'steiner.exact': '精確解',
+  'steiner.heuristic': '啟發式 (N > {limit})',
+  'steiner.resetSquare': '還原正方形',
+
+  'relax.title': '泡膜鬆弛',
+  'relax.description': '每段膜都以相同張力拉扯兩端，接點沿合力方向移動，總長度只減不增。四膜交會會分裂成兩個 120° 的 Y 形接點；但這只保證局部最短，起始拓撲不同，最後可能停在不是全域最短的網路。',
+  'relax.hint': '點選節點再點另一處以畫出膜 · 雙擊或右鍵移除接點 · 淡藍為全域最短',
+  'relax.layout.square': '正方形',
+  'relax.layout.rectangle': '長方形',
+  'relax.layout.pentagon': '正五邊形',
+  'relax.t1': 'T1 翻轉',
+  'relax.splits': '接點分裂',
+  'relax.start': '起始網路',
+  'relax.preset.star': '星形',
+  'relax.preset.mst': 'MST',
+  'relax.preset.horizontal': '橫橋 ↔',
+  'relax.preset.vertical': '直橋 ↕',
+  'relax.preset.draw': '手繪',
+  'relax.aspect': '長寬比 (w : h)',
+  'relax.totalLength': '膜總長',
+  'relax.globalMinimum': '全域最小值',
+  'relax.notJoined': '網路尚未連接所有釘點。',
+  'relax.relaxing': '鬆弛中…',
+  'relax.pressRelax': '按「鬆弛」讓泡膜收緊。',
+  'relax.atGlobal': '✓ 停在全域最短',
+  'relax.atLocal': '卡在局部最短：比史坦納樹長 {percent}%',
+  'relax.chart': '拓撲長度',
+  'relax.switch': '1:1 轉換',
+
+  // --- Minimal surfaces ---
+  'plateau.title': '線框上的極小曲面',
+  'plateau.description': '把線框浸入肥皂水再拉出，膜會自行收縮成面積最小的曲面。這裡把膜切成三角網格，反覆沿面積梯度移動頂點並逐步加密，直到面積不再下降。三片膜總是以 120° 相交於一條邊界線，四條邊界線則以約 109.47° 交於一點。',
+  'plateau.area': '面積：{area}',
+  'plateau.iteration': '第 {iteration} 步 · 細分 {level}/{levels}',
+  'plateau.triangles': '{count} 個三角形',
+  'plateau.converged': '已收斂',
+  'plateau.polyline': '封閉折線',
+  'plateau.polylineHint': '（每行一組 x, y, z）',
+  'plateau.apply': '套用',
+  'plateau.highlight': '標示普拉圖邊界',
+  'plateau.chart': '膜面積',
+  'plateau.series': '面積',
+  'plateau.error.numbers': '第 {line} 行：需要三個數字',
+  'plateau.error.tooFew': '至少需要三個點',
+  'plateau.refine': '細分',
+  'plateau.laws': '普拉圖定律',
+  'plateau.singleSheet': '單片膜：沒有三重線。',
+  'plateau.sheetsMeet': '膜面交角（與 120° 的平均偏差）',
+  'plateau.linesMeet': '三重線交角（理想值 {angle}°）',
+
+  'frame.cube': '立方體',
+  'frame.tetrahedron': '正四面體',
+  'frame.prism': '三角柱',
+  'frame.rings': '雙圓環',
+  'frame.custom': '自訂折線',
+
+  // --- Catenoid ---
+  'catenoid.title': '兩個圓環之間的泡膜',
+  'catenoid.description': '把圓環拉開。泡膜呈懸鏈曲面 r = c·cosh(z/c)，這是唯一平均曲率為零的旋轉曲面。間距在約 1.325 倍圓環半徑以內時有兩個解：粗而穩定的一個與細而不穩定的一個。超過這個距離就沒有解，泡膜會斷成兩片平面圓膜。',
+  'catenoid.separation': '圓環間距 d',
+  'catenoid.ring': '圓環半徑 R',
+  'catenoid.showUnstable': '顯示不穩定的懸鏈曲面',
+  'catenoid.neck.stable': '頸部半徑（穩定）',
+  'catenoid.neck.unstable': '頸部半徑（不穩定）',
+  'catenoid.area.stable': '面積：穩定懸鏈曲面',
+  'catenoid.area.unstable': '面積：不穩定懸鏈曲面',
+  'catenoid.area.discs': '面積：兩片圓膜',
+  'catenoid.status.global': '懸鏈曲面的面積小於兩片圓膜：它是真正的最小值。',
+  'catenoid.status.local': '超過 {goldschmidt} R 後兩片圓膜面積較小，懸鏈曲面只是局部最小值。',
+  'catenoid.status.broken': '圓環相距超過 {limit} R 時沒有懸鏈曲面撐得住，泡膜已退回兩片圓膜。',
+  'catenoid.pinching': '頸部正在斷開',
+  'catenoid.discs': '兩片平面圓膜',
+  'catenoid.redip': '重新沾膜',
+  'catenoid.redipHint': '把圓環靠近後才能重新沾膜',
+  'catenoid.goldschmidt': '面積相等',
+  'catenoid.critical': '極限',
+  'catenoid.chart.neck': '頸部半徑 c 對間距',
+  'catenoid.chart.area': '面積對間距',
+  'catenoid.series.stable': '穩定',
+  'catenoid.series.unstable': '不穩定',
+  'catenoid.series.discs': '圓膜',
+
+  // --- Foam coarsening ---
+  'foam.title': '泡沫粗化',
+  'foam.description': '二維乾泡沫中，每片膜都是圓弧，曲率由兩側壓力差決定；三片膜總在 120° 交會。氣體從高壓的小泡擴散到低壓的大泡：邊數少於六的泡泡縮小，多於六的長大（von Neumann 定律 dA/dt ∝ n − 6），泡沫因此越變越粗。',
+  'foam.cells': '{count} 個泡',
+  'foam.junctions': '接點：偏離 120° {error}°',
+  'foam.chart.area': '平均泡面積',
+  'foam.chart.rate': '各邊數的成長率',
+  'foam.measured': '實測',
+  'foam.histogram': '邊數分布',
+  'foam.cellCount': '泡數',
+  'foam.coarsen': '粗化',
+  'foam.newFoam': '新泡沫',
+
+  // --- Experiment 3: optics ---
+  'optics.static': '薄膜',
+  'optics.drainage': '重力排液',
+  'optics.title': '實驗三：干涉色彩',
+  'optics.description': '泡膜的顏色並非來自色素，而是光在薄膜上下表面反射後產生的干涉現象。厚度決定了哪些顏色的光被增強或抵消。',
+  'optics.crossSection': '薄膜剖面',
+  'optics.observed': '觀察到的顏色',
+  'optics.blackFilm': '黑膜（即將破裂！）',
+  'optics.reflectance': '反射率 R(λ)',
+  'optics.thickness': '膜厚 (d)',
+  'optics.angle': '入射角 (θ)',
+  'optics.index': '折射率 (n)',
+  'optics.unpolarized': '非偏振',
+  'optics.polarized': '{pol} 偏振',
+  'optics.illuminant': '光源',
+  'optics.note.black': '當膜厚極薄 (<30nm) 時，光程差導致破壞性干涉，泡泡呈現黑色（Black Film），即將破裂。',
+  'optics.note.silver': '薄膜呈現銀白色或金色。',
+  'optics.note.cycle': '隨著厚度增加，顏色會依序呈現紫、藍、綠、黃、紅的循環變化。',
+  'optics.constructive': '增強 {list}',
+  'optics.noConstructive': '可見光無增強',
+  'optics.destructive': '抵消 {list}',
+
+  'illuminant.D65': '日光 (D65)',
+  'illuminant.A': '白熾燈 (A)',
+  'illuminant.E': '等能光 (E)',
+
+  'drainage.title': '重力排液',
+  'drainage.description': '直立的泡膜受重力影響，液體不斷向下流失。上方最先變薄，干涉色帶隨之向下移動；當頂端變成黑膜並薄到極限時，泡膜便會破裂。',
+  'drainage.popped': '啵！泡膜破裂',
+  'drainage.blackFilm': '← 黑膜',
+  'drainage.verticalFilm': '直立泡膜',
+  'drainage.top': '頂端',
+  'drainage.middle': '中間',
+  'drainage.bottom': '底部',
+  'drainage.black': '黑膜',
+  'drainage.liquidLeft': '剩餘液量',
+  'drainage.profile': '初始厚度分布',
+  'drainage.initialThickness': '初始厚度',
+  'drainage.timeScale': '時間比例：在 ×1 時，畫面上每一秒相當於 {factor} 秒的排液。',
+
+  'profile.uniform': '均勻',
+  'profile.wedge': '楔形（上薄）',
+  'profile.wavy': '波浪',
+
+  // --- Guided lessons ---
+  'lesson.start': '引導課程：{title}',
+  'lesson.best': '最佳 {correct}/{total}',
+  'lesson.exit': '離開課程',
+  'lesson.next': '下一步',
+  'lesson.lockIn': '鎖定預測',
+  'lesson.finish': '完成',
+  'lesson.watching': '觀察中…',
+  'lesson.yours': '你的預測',
+  'lesson.observed': '實際結果',
+  'lesson.score': '答對 {correct}/{total}',
+  'lesson.compare': '把你的預測和實際發生的情況對照一下。',
+  'lesson.stage.setup': '準備',
+  'lesson.stage.predict': '預測',
+  'lesson.stage.observe': '觀察',
+  'lesson.stage.compare': '對照',
+  'lesson.stage.explain': '解釋',
+
+  'lesson.pair.title': '連通管悖論',
+  'lesson.pair.setup': '用滑桿把兩個泡泡調成不同大小，閥門先保持關閉。',
+  'lesson.pair.setupWaiting': '兩個半徑至少要相差 1 mm。',
+  'lesson.pair.predict': '閥門打開之前，先寫下你的預測。',
+  'lesson.pair.flow.prompt': '空氣會往哪個方向流？',
+  'lesson.pair.flow.smallToLarge': '從小泡泡流向大泡泡',
+  'lesson.pair.flow.largeToSmall': '從大泡泡流向小泡泡',
+  'lesson.pair.flow.none': '不會流動',
+  'lesson.pair.end.prompt': '最後會變成什麼樣子？',
+  'lesson.pair.end.equal': '兩個泡泡變得一樣大',
+  'lesson.pair.end.smallEmpties': '小泡泡消失，大泡泡變得更大',
+  'lesson.pair.end.largeEmpties': '大泡泡消失，小泡泡變大',
+  'lesson.pair.observe': '閥門打開了，注意管中的氣流與兩個泡泡的壓差。',
+  'lesson.pair.explain': '開閥前，泡泡 {small}（r = {rSmall}）內的壓差是 **{pSmall}**，而泡泡 {large}（r = {rLarge}）只有 **{pLarge}**。由楊–拉普拉斯公式 ΔP = 4γ/r，半徑越小壓力越大，所以空氣從小泡泡流向大泡泡。小泡泡縮小時壓力還會再升高，氣流永遠不會反轉：它一路排空到泡泡 {large}，後者最後長到 r = {rFinal}。',
+
+  'lesson.steiner.title': '正方形的最短網路',
+  'lesson.steiner.setup': '四個釘點位在單位正方形的四個角。怎樣連起來，總長度最短？',
+  'lesson.steiner.predict': '畫面上是沿正方形三邊的連法。先寫下你的預測。',
+  'lesson.steiner.shortest.prompt': '哪一種網路最短？',
+  'lesson.steiner.shortest.mst': '沿著三條邊（最小生成樹）',
+  'lesson.steiner.shortest.star': '穿過中心的 X 形（兩條對角線）',
+  'lesson.steiner.shortest.soap': '另外加上新接點的網路',
+  'lesson.steiner.angle.prompt': '泡膜在接點處以什麼角度相交？',
+  'lesson.steiner.angle.90': '90°，和正方形的角一樣',
+  'lesson.steiner.angle.120': '120°，三片膜平分一圈',
+  'lesson.steiner.angle.varies': '視釘點位置而定',
+  'lesson.steiner.observe': '這是泡膜找到的網路。用上方按鈕比較三種連法，看完再繼續。',
+  'lesson.steiner.explain': '三邊長 {mst}、X 形 {star}，泡膜網路只有 **{soap}**。泡膜在中間多加了兩個接點，每個接點都有三片膜以 **120°** 相交：只要任何角小於 120°，把接點往那邊移就能再縮短總長，所以張力平衡的位置正是最短的位置。',
+
+  'lesson.film.title': '泡泡破裂前的黑膜',
+  'lesson.film.setup': '這片膜厚 600 nm，呈現鮮豔的干涉色。真實的泡泡會因重力排液而越來越薄，直到破裂。',
+  'lesson.film.predict': '在你把膜變薄之前，先寫下你的預測。',
+  'lesson.film.look.prompt': '膜只剩幾十奈米、即將破裂時，看起來是什麼顏色？',
+  'lesson.film.look.white': '明亮的白色',
+  'lesson.film.look.black': '黑色',
+  'lesson.film.look.colour': '最鮮豔的彩色',
+  'lesson.film.light.prompt': '與現在相比，它反射的光會？',
+  'lesson.film.light.more': '更多',
+  'lesson.film.light.same': '差不多',
+  'lesson.film.light.less': '少很多',
+  'lesson.film.observe': '把膜厚滑桿拖到 30 nm 以下。',
+  'lesson.film.explain': '在 d = {d} nm 時，光程差只有 {opd} nm，遠小於任何可見光波長。上表面的反射多了半個波長的相位差，兩道反射光幾乎完全抵消：平均反射率從 {before}% 掉到 **{after}%**，膜看起來是**黑色**的——這正是泡泡即將破裂的信號。',
+
+  // --- Validation ---
+  'validation.title': '驗證報告',
+  'validation.description': '每一項都用實驗室的同一套模型計算一個有解析解（或獨立高精度積分）的情況，並以容差判定是否通過。',
+  'validation.summary': '{passed}/{total} 項通過',
+  'validation.check': '檢驗項目',
+  'validation.expected': '理論值',
+  'validation.actual': '模擬值',
+  'validation.error': '誤差',
+  'validation.relative': '相對誤差',
+  'validation.absolute': '絕對誤差',
+  'validation.pass': '通過',
+  'validation.fail': '未通過',
+  'validation.tolerance': '容差 {tolerance}',
+  'validation.pairRadius': '12 mm 與 8 mm 泡泡相連後的終態半徑，對照裝有兩泡泡全部氣體的單一泡泡（排空的泡泡會留下半徑小於 2 mm 的殘餘氣體）',
+  'validation.pairGas': '整個過程中總氣體量（mol）守恆',
+  'validation.pairTime': '小泡泡排空所需時間，對照步長縮小 100 倍的 RK4 積分',
+  'validation.networkGas': '四個泡泡以管線連成一圈，總氣體量（mol）守恆',
+  'validation.steinerTriangle': '正三角形的最短網路，對照 √3·s',
+  'validation.steinerSquare': '正方形的最短網路，對照 (1 + √3)·s',
+  'validation.steinerHexagon': '正六邊形的最短網路，對照 5·s（周長減一邊）',
+  'validation.steinerAngles': '正方形網路中接點的夾角，對照 120°',
+  'validation.airyNormal': '400 nm 膜、正向入射的反射光譜，對照艾里公式',
+  'validation.airyOblique': '650 nm 膜、60° 入射（s 與 p 偏振）的反射光譜，對照艾里公式',
+  'validation.quarterWave': '四分之一波長膜的反射率，對照 ((n² − 1)/(n² + 1))²',
+  'validation.halfWave': '二分之一波長膜的反射率，對照 0',
+  'validation.pair.exact': '解析終態：n∞ = n_A + n_B，r∞ = {r}',
+  'validation.pair.live': '模擬：{r}（誤差 {error}%）',
+  'validation.network.gas': '總氣體量（mol）漂移：{drift}',
+  'validation.steiner.exact': '正 {n} 邊形的解析最短長度：{length}',
+  'validation.steiner.error': '相對誤差：{error}',
+  'validation.steiner.none': '這組釘點沒有解析解。可改用下方的正多邊形：',
+  'validation.steiner.angles': '接點夾角與 120° 的最大偏差：{deviation}°',
+  'validation.steiner.triangle': '正三角形',
+  'validation.steiner.square': '正方形',
+  'validation.steiner.hexagon': '正六邊形',
+  'validation.optics.series': '艾里公式',
+  'validation.optics.error': '與艾里公式的最大偏差：{error}',
+};
+
+export type MessageKey = keyof typeof zhTW;
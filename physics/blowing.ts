@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Blowing a bubble through a circular ring. The film is a spherical cap
+// spanning the ring; pushing gas in raises the cap, and its Young–Laplace
+// pressure peaks when the cap is a hemisphere, its radius of curvature equal to
+// the ring's. Past that point a bigger bubble needs less pressure, so gas fed
+// at a steady pressure above the peak never finds a resting shape: the bubble
+// runs away. The connected-bubbles paradox is the same instability.
+// Lengths in mm, volumes in mm³, pressures in Pa.
+
+import { DEFAULT_CONFIG, flowRate, laplacePressure, pipeConductance, type BubbleSystemConfig } from './bubbles';
+
+export interface CapState {
+  /** Gas under the film, mm³. */
+  volume: number;
+  /** Height of the cap above the ring, mm. */
+  height: number;
+  /** Radius of curvature, mm; Infinity while the film is flat. */
+  radius: number;
+  /** Laplace excess, Pa. */
+  pressure: number;
+}
+
+export interface BlowingState {
+  volume: number;
+  /** Simulated seconds. */
+  time: number;
+  /** The cap grew past DETACH_HEIGHT and broke free of the ring. */
+  detached: boolean;
+}
+
+/** Cap height, in ring radii, beyond which the bubble pinches off the ring. */
+export const DETACH_HEIGHT = 3;
+
+// The film blown through a drinking straw (2 mm bore) rather than the lab's
+// thin pipe, so a run-away takes seconds, not minutes.
+export const BLOWING_CONFIG: BubbleSystemConfig = { ...DEFAULT_CONFIG, pipeRadius: 2 };
+
+// Small enough to keep explicit steps stable on a flat film over a 5 mm ring,
+// where the pressure rises fastest with volume.
+const BLOWING_STEP = 1 / 1000;
+
+export const capVolume = (ring: number, height: number) => (Math.PI * height * (3 * ring * ring + height * height)) / 6;
+
+/**
+ * Height of the cap holding `volume` over a ring of radius `ring`: the one
+ * real root of h³ + 3a²h = 6V/π, by Cardano's formula.
+ */
+export const capHeight = (ring: number, volume: number) => {
+  if (volume <= 0) return 0;
+  const q = (3 * volume) / Math.PI;
+  const u = Math.cbrt(q + Math.sqrt(q * q + Math.pow(ring, 6)));
+  return u - (ring * ring) / u;
+};
+
+export const capRadius = (ring: number, height: number) => (height > 0 ? (ring * ring + height * height) / (2 * height) : Infinity);
+
+export const capFromVolume = (ring: number, volume: number, config: BubbleSystemConfig = BLOWING_CONFIG): CapState => {
+  const height = capHeight(ring, volume);
+  const radius = capRadius(ring, height);
+  return {
+    volume,
+    height,
+    radius,
+    pressure: height > 0 ? laplacePressure(radius, config.surfaceTension, config.surfaces) : 0,
+  };
+};
+
+/** The hemisphere, where the pressure peaks at 2sγ/a. */
+export const hemisphere = (ring: number, config: BubbleSystemConfig = BLOWING_CONFIG) =>
+  capFromVolume(ring, capVolume(ring, ring), config);
+
+/**
+ * Cap heights at which the film holds `pressure`: ΔP = 2sγ·2h/(a² + h²) has a
+ * stable root below the hemisphere and an unstable one above it. Null when
+ * `pressure` is above the peak and no cap can hold it.
+ */
+export const equilibriumHeights = (
+  ring: number,
+  pressure: number,
+  config: BubbleSystemConfig = BLOWING_CONFIG,
+): [number, number] | null => {
+  if (pressure <= 0) return [0, Infinity];
+  // ΔP·R, Pa·mm.
+  const c = laplacePressure(1, config.surfaceTension, config.surfaces);
+  const d = c * c - pressure * pressure * ring * ring;
+  if (d < 0) return null;
+  return [(c - Math.sqrt(d)) / pressure, (c + Math.sqrt(d)) / pressure];
+};
+
+export const createBlowing = (volume = 0): BlowingState => ({ volume, time: 0, detached: false });
+
+/**
+ * Blowing at a steady `supply` pressure (Pa) through the straw:
+ * dV/dt = G·(P_supply − ΔP), in fixed steps over `elapsed` simulated seconds.
+ */
+export const advanceBlowing = (
+  state: BlowingState,
+  ring: number,
+  supply: number,
+  elapsed: number,
+  config: BubbleSystemConfig = BLOWING_CONFIG,
+): BlowingState => {
+  const conductance = pipeConductance(config);
+  let next = state;
+  let remaining = elapsed;
+  while (remaining > 1e-9 && !next.detached) {
+    const dt = Math.min(BLOWING_STEP, remaining);
+    const cap = capFromVolume(ring, next.volume, config);
+    const volume = Math.max(0, next.volume + flowRate(supply, cap.pressure, conductance) * dt);
+    next = { volume, time: next.time + dt, detached: capHeight(ring, volume) > DETACH_HEIGHT * ring };
+    remaining -= dt;
+  }
+  return next;
+};
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Film thickness over the surface of a 3D bubble, for shading. A bubble wall
+// drains like the vertical film in drainage.ts, with depth measured along a
+// meridian from the top, so one precomputed run gives thickness as a function
+// of (depth, age). Colours come from thinFilm.ts at normal incidence; at an
+// oblique angle the optical path 2nd·cosθt equals that of a film of thickness
+// d·cosθt seen head-on, which is what a shader looks up.
+
+import { DEFAULT_DRAINAGE, advanceDrainage, createDrainage, thicknessAt, type DrainageParams } from './drainage';
+import { createColorLookup, type ColorOptions, type FilmParams } from './thinFilm';
+
+export interface DrainageAtlas {
+  /** Thickness in nm, row-major: `rows` ages × `columns` depths (top first). */
+  thickness: Float32Array;
+  rows: number;
+  columns: number;
+  /** Simulated seconds spanned by the last row. */
+  duration: number;
+}
+
+export const BUBBLE_FILM_THICKNESS = 1200; // nm, freshly blown
+export const COLOR_TABLE_MAX = 1600; // nm, thickest film the colour table covers
+
+/**
+ * Drain a uniform film until just before it ruptures, sampling `rows`
+ * snapshots. Thinning is fastest at first, so ages are spaced as the cube of
+ * the row fraction to keep detail early on.
+ */
+export const createDrainageAtlas = (
+  rows = 48,
+  columns = 128,
+  initialThickness = BUBBLE_FILM_THICKNESS,
+  params: DrainageParams = DEFAULT_DRAINAGE,
+): DrainageAtlas => {
+  let probe = createDrainage('uniform', initialThickness, params);
+  while (!probe.ruptured) probe = advanceDrainage(probe, params.height * 10, params);
+  const duration = 0.95 * (probe.ruptureTime ?? probe.time);
+
+  const thickness = new Float32Array(rows * columns);
+  let state = createDrainage('uniform', initialThickness, params);
+  for (let r = 0; r < rows; r++) {
+    const age = duration * Math.pow(r / (rows - 1), 3);
+    state = advanceDrainage(state, age - state.time, params);
+    for (let c = 0; c < columns; c++) {
+      thickness[r * columns + c] = thicknessAt(state, ((c + 0.5) / columns) * params.height, params);
+    }
+  }
+  return { thickness, rows, columns, duration };
+};
+
+/** RGBA bytes of the interference colour for thickness 0…maxThickness nm. */
+export const createColorTable = (
+  size = 512,
+  maxThickness = COLOR_TABLE_MAX,
+  film: Partial<FilmParams> = {},
+  options?: ColorOptions,
+) => {
+  const step = maxThickness / (size - 1);
+  const lookup = createColorLookup(maxThickness, step, film, options);
+  const data = new Uint8Array(size * 4);
+  for (let i = 0; i < size; i++) {
+    const [r, g, b] = lookup(i * step);
+    data.set([r, g, b, 255], i * 4);
+  }
+  return data;
+};
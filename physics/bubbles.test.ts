@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import {
+  advanceBubbleSystem,
+  createBubbleSystem,
+  createPairSystem,
+  runToCompletion,
+  setPipeOpen,
+  totalMoles,
+  type BubbleSystem,
+} from './bubbles';
+import { exactPairRadius } from './validation';
+
+// Feed the system frame deltas the way the render loop does, until it stops.
+const runAtFrameRate = (system: BubbleSystem, hz: number, maxTime = 600) => {
+  let next = system;
+  while (!next.finished && next.time < maxTime) next = advanceBubbleSystem(next, 1 / hz);
+  return next;
+};
+
+const drift = (before: BubbleSystem, after: BubbleSystem) =>
+  Math.abs(totalMoles(after) - totalMoles(before)) / totalMoles(before);
+
+describe('connected bubbles', () => {
+  it('conserves gas over a full two-bubble run', () => {
+    const start = createPairSystem(12, 8);
+    expect(drift(start, runToCompletion(start, 600))).toBeLessThanOrEqual(1e-9);
+  });
+
+  it('conserves gas across a network with several open pipes', () => {
+    const start = createBubbleSystem(
+      [{ id: 'A', radius: 10 }, { id: 'B', radius: 7 }, { id: 'C', radius: 5 }, { id: 'D', radius: 12 }],
+      [
+        { id: 'A-B', from: 'A', to: 'B', open: true },
+        { id: 'B-C', from: 'B', to: 'C', open: true },
+        { id: 'C-D', from: 'C', to: 'D', open: true },
+        { id: 'A-C', from: 'A', to: 'C', open: true },
+      ],
+    );
+    expect(drift(start, runToCompletion(start, 600))).toBeLessThanOrEqual(1e-9);
+  });
+
+  it('empties the smaller bubble into the larger one', () => {
+    const final = runToCompletion(createPairSystem(12, 8), 600);
+    const [a, b] = final.bubbles;
+    expect(final.finished).toBe(true);
+    expect(b.collapsed).toBe(true);
+    expect(a.collapsed).toBe(false);
+    // The emptied bubble keeps the sliver of gas below minRadius.
+    expect(Math.abs(a.radius - exactPairRadius(12, 8)) / exactPairRadius(12, 8)).toBeLessThan(0.01);
+  });
+
+  it('grows whichever bubble starts larger', () => {
+    const final = runToCompletion(createPairSystem(6, 15), 600);
+    expect(final.bubbles[0].collapsed).toBe(true);
+    expect(final.bubbles[1].radius).toBeGreaterThan(15);
+  });
+
+  it('gives the same run at 60 Hz and 144 Hz', () => {
+    const start = setPipeOpen(createPairSystem(12, 8), 'A-B', true);
+    const at60 = runAtFrameRate(start, 60);
+    const at144 = runAtFrameRate(start, 144);
+    expect(at60.finished && at144.finished).toBe(true);
+    // Both consume the same fixed steps; only the last frame's leftover differs.
+    expect(Math.abs(at60.time - at144.time)).toBeLessThanOrEqual(1e-9);
+    at60.bubbles.forEach((b, i) => {
+      expect(b.radius).toBeCloseTo(at144.bubbles[i].radius, 9);
+      expect(b.moles).toBeCloseTo(at144.bubbles[i].moles, 15);
+    });
+  });
+});
@@ -0,0 +1,384 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Young–Laplace model of soap bubbles joined by pipes, filled with an ideal gas.
+// Units: lengths in mm, volumes in mm³, surface tension in N/m, pressures in Pa,
+// amounts of gas in mol, temperatures in K. Pure TypeScript: no React, no
+// three.js, no DOM. Components feed it wall-clock time and read back bubble
+// state; it never touches the frame loop itself.
+//
+// The system is a graph: bubbles are nodes, pipes are edges with a valve each.
+// On every step gas flows across all open pipes at once, driven by the pressure
+// difference between their ends. A bubble's size follows from the gas it holds:
+// PV = nRT, with P the ambient pressure plus the bubble's Laplace excess.
+
+import { MM, mToMm, mmToM } from './units';
+
+export interface BubbleState {
+  id: string;
+  /** Gas held, mol. */
+  moles: number;
+  volume: number;
+  radius: number;
+  /** Laplace excess over the ambient pressure, Pa. */
+  pressure: number;
+  /** Emptied below minRadius; it no longer exchanges gas. */
+  collapsed: boolean;
+}
+
+export interface PipeState {
+  id: string;
+  from: string;
+  to: string;
+  open: boolean;
+}
+
+export interface BubbleSpec {
+  id: string;
+  radius: number;
+}
+
+export interface BubbleSystemConfig {
+  /** Surface tension γ, N/m. */
+  surfaceTension: number;
+  /** Liquid–air surfaces per interface: 2 for a soap film, 1 for a drop. */
+  surfaces: 1 | 2;
+  /** Pressure of the surrounding air, Pa. */
+  ambientPressure: number;
+  /** Temperature of the gas and its surroundings, K. */
+  temperature: number;
+  /** Bore radius and length of every pipe, mm. */
+  pipeRadius: number;
+  pipeLength: number;
+  /** Dynamic viscosity of the gas, Pa·s. */
+  gasViscosity: number;
+  /** Fixed integration step in seconds. */
+  timeStep: number;
+  /** A bubble smaller than this (mm) counts as emptied. */
+  minRadius: number;
+  /** Upper bound on steps per advance() call, so a stalled tab cannot freeze the page. */
+  maxStepsPerAdvance: number;
+}
+
+export interface BubbleSystem {
+  bubbles: BubbleState[];
+  pipes: PipeState[];
+  /** Simulated seconds since the system was created. */
+  time: number;
+  /** Wall-clock time not yet consumed by a whole step. */
+  accumulator: number;
+  /** Set once no open pipe joins two live bubbles. */
+  finished: boolean;
+}
+
+/** Molar gas constant, J mol⁻¹ K⁻¹. */
+export const GAS_CONSTANT = 8.314462618;
+
+/** Standard atmosphere at sea level, Pa. */
+export const SEA_LEVEL_PRESSURE = 101325;
+
+// Dish-soap film in room air at sea level; the pipe (1 mm bore, 110 mm long) is
+// chosen so a 12 mm / 8 mm pair settles in a few seconds, slow enough to watch.
+export const DEFAULT_CONFIG: BubbleSystemConfig = {
+  surfaceTension: 0.025,
+  surfaces: 2,
+  ambientPressure: SEA_LEVEL_PRESSURE,
+  temperature: 293.15,
+  pipeRadius: 1,
+  pipeLength: 110,
+  gasViscosity: 1.81e-5,
+  timeStep: 1 / 240,
+  minRadius: 2,
+  maxStepsPerAdvance: 240,
+};
+
+const MIN_VOLUME = 1e-4;
+const MIN_MOLES = 1e-15;
+
+export const volumeFromRadius = (radius: number) => (4 / 3) * Math.PI * Math.pow(radius, 3);
+
+export const radiusFromVolume = (volume: number) =>
+  Math.pow((3 * Math.max(MIN_VOLUME, volume)) / (4 * Math.PI), 1 / 3);
+
+/**
+ * Young–Laplace excess pressure (Pa) inside a sphere of radius `radius` mm:
+ * ΔP = 2γ/r per surface, so 4γ/r for a soap film and 2γ/r for a drop.
+ */
+export const laplacePressure = (radius: number, surfaceTension: number, surfaces: 1 | 2 = 2) =>
+  (2 * surfaces * surfaceTension) / mmToM(radius);
+
+/** Gas (mol) in a bubble of radius `radius` mm: n = (P₀ + ΔP)·V / RT. */
+export const molesFromRadius = (radius: number, config: BubbleSystemConfig = DEFAULT_CONFIG) => {
+  const pressure = config.ambientPressure + laplacePressure(radius, config.surfaceTension, config.surfaces);
+  return (pressure * volumeFromRadius(radius) * Math.pow(MM, 3)) / (GAS_CONSTANT * config.temperature);
+};
+
+/**
+ * Radius (mm) of a bubble holding `moles` of gas: the root of
+ * (P₀ + 2sγ/r)·(4/3)πr³ = nRT. Either pressure term alone gives an upper
+ * bound, and the left side is convex and increasing in r, so Newton's method
+ * from the smaller bound converges from above.
+ */
+export const radiusFromMoles = (moles: number, config: BubbleSystemConfig = DEFAULT_CONFIG) => {
+  const nrt = Math.max(MIN_MOLES, moles) * GAS_CONSTANT * config.temperature;
+  const sphere = (4 / 3) * Math.PI;
+  const p0 = config.ambientPressure;
+  const k = 2 * config.surfaces * config.surfaceTension;
+  let r = Math.min(p0 > 0 ? Math.cbrt(nrt / (sphere * p0)) : Infinity, Math.sqrt(nrt / (sphere * k)));
+  for (let i = 0; i < 50; i++) {
+    const dr = (sphere * r * r * (p0 * r + k) - nrt) / (sphere * r * (3 * p0 * r + 2 * k));
+    r -= dr;
+    if (Math.abs(dr) <= 1e-12 * r) break;
+  }
+  return mToMm(r);
+};
+
+/** Hagen–Poiseuille conductance of one pipe, πa⁴/8μL, as mm³ Pa⁻¹ s⁻¹. */
+export const pipeConductance = (config: BubbleSystemConfig = DEFAULT_CONFIG) =>
+  (Math.PI * Math.pow(mmToM(config.pipeRadius), 4)) / (8 * config.gasViscosity * mmToM(config.pipeLength)) / Math.pow(MM, 3);
+
+/** Volume flow from bubble a to bubble b per second; negative means b → a. */
+export const flowRate = (pressureA: number, pressureB: number, conductance: number) =>
+  (pressureA - pressureB) * conductance;
+
+/**
+ * Gas (mol/s) carried by a volume flow `flow` mm³/s. Isothermal Poiseuille
+ * flow of an ideal gas moves G·(P_a² − P_b²)/2RT, which is the volume flow
+ * G·ΔP counted at the mean absolute pressure of the two ends.
+ */
+export const molarFlow = (flow: number, meanExcess: number, config: BubbleSystemConfig = DEFAULT_CONFIG) =>
+  (flow * Math.pow(MM, 3) * (config.ambientPressure + meanExcess)) / (GAS_CONSTANT * config.temperature);
+
+export const bubbleFromMoles = (
+  id: string,
+  moles: number,
+  config: BubbleSystemConfig = DEFAULT_CONFIG,
+): BubbleState => {
+  const radius = radiusFromMoles(moles, config);
+  return {
+    id,
+    moles,
+    volume: volumeFromRadius(radius),
+    radius,
+    pressure: laplacePressure(radius, config.surfaceTension, config.surfaces),
+    collapsed: radius < config.minRadius,
+  };
+};
+
+export const bubbleFromRadius = (id: string, radius: number, config: BubbleSystemConfig = DEFAULT_CONFIG): BubbleState =>
+  bubbleFromMoles(id, molesFromRadius(radius, config), config);
+
+/**
+ * Recompute every bubble after the fluid, temperature or ambient pressure
+ * changes. Each keeps its gas, so the bubbles swell or shrink to suit.
+ */
+export const applyConfig = (system: BubbleSystem, config: BubbleSystemConfig): BubbleSystem => ({
+  ...system,
+  bubbles: system.bubbles.map((b) => bubbleFromMoles(b.id, b.moles, config)),
+  finished: false,
+});
+
+export const totalVolume = (system: BubbleSystem) => system.bubbles.reduce((sum, b) => sum + b.volume, 0);
+
+export const totalMoles = (system: BubbleSystem) => system.bubbles.reduce((sum, b) => sum + b.moles, 0);
+
+/**
+ * End state of two connected bubbles, as mol of gas in each. Equal bubbles sit
+ * in an (unstable) equilibrium; otherwise the smaller one, having the higher
+ * pressure, empties entirely into the larger one.
+ */
+export const equilibriumMoles = (molesA: number, molesB: number): [number, number] => {
+  if (molesA === molesB) return [molesA, molesB];
+  const total = molesA + molesB;
+  return molesA < molesB ? [0, total] : [total, 0];
+};
+
+const isLivePipe = (pipe: PipeState, byId: Map<string, BubbleState>) => {
+  const a = byId.get(pipe.from);
+  const b = byId.get(pipe.to);
+  return pipe.open && !!a && !!b && !a.collapsed && !b.collapsed;
+};
+
+export const createBubbleSystem = (
+  bubbles: BubbleSpec[],
+  pipes: PipeState[] = [],
+  config: BubbleSystemConfig = DEFAULT_CONFIG,
+): BubbleSystem => ({
+  bubbles: bubbles.map((b) => bubbleFromRadius(b.id, b.radius, config)),
+  pipes,
+  time: 0,
+  accumulator: 0,
+  finished: false,
+});
+
+/** The classic experiment: bubbles A and B joined by one valved pipe. */
+export const createPairSystem = (radiusA: number, radiusB: number, config: BubbleSystemConfig = DEFAULT_CONFIG) =>
+  createBubbleSystem(
+    [{ id: 'A', radius: radiusA }, { id: 'B', radius: radiusB }],
+    [{ id: 'A-B', from: 'A', to: 'B', open: false }],
+    config,
+  );
+
+export const addBubble = (system: BubbleSystem, spec: BubbleSpec, config: BubbleSystemConfig = DEFAULT_CONFIG): BubbleSystem => ({
+  ...system,
+  bubbles: [...system.bubbles, bubbleFromRadius(spec.id, spec.radius, config)],
+  finished: false,
+});
+
+export const removeBubble = (system: BubbleSystem, id: string): BubbleSystem => ({
+  ...system,
+  bubbles: system.bubbles.filter((b) => b.id !== id),
+  pipes: system.pipes.filter((p) => p.from !== id && p.to !== id),
+});
+
+export const setBubbleRadius = (
+  system: BubbleSystem,
+  id: string,
+  radius: number,
+  config: BubbleSystemConfig = DEFAULT_CONFIG,
+): BubbleSystem => ({
+  ...system,
+  bubbles: system.bubbles.map((b) => (b.id === id ? bubbleFromRadius(id, radius, config) : b)),
+  finished: false,
+});
+
+/** Join two bubbles. Self-loops and duplicate pipes are ignored. */
+export const addPipe = (system: BubbleSystem, from: string, to: string): BubbleSystem => {
+  if (from === to) return system;
+  const exists = system.pipes.some((p) => (p.from === from && p.to === to) || (p.from === to && p.to === from));
+  if (exists) return system;
+  return { ...system, pipes: [...system.pipes, { id: `${from}-${to}`, from, to, open: false }] };
+};
+
+export const removePipe = (system: BubbleSystem, id: string): BubbleSystem => ({
+  ...system,
+  pipes: system.pipes.filter((p) => p.id !== id),
+});
+
+export const setPipeOpen = (system: BubbleSystem, id: string, open: boolean): BubbleSystem => ({
+  ...system,
+  pipes: system.pipes.map((p) => (p.id === id ? { ...p, open } : p)),
+  finished: false,
+});
+
+/**
+ * Flow through every pipe (mm³/s at the pipe's mean pressure, positive means
+ * from → to). Shut or dead pipes carry 0.
+ */
+export const pipeFlows = (system: BubbleSystem, config: BubbleSystemConfig = DEFAULT_CONFIG): Record<string, number> => {
+  const byId = new Map(system.bubbles.map((b) => [b.id, b]));
+  const conductance = pipeConductance(config);
+  const flows: Record<string, number> = {};
+  system.pipes.forEach((pipe) => {
+    flows[pipe.id] = isLivePipe(pipe, byId)
+      ? flowRate(byId.get(pipe.from)!.pressure, byId.get(pipe.to)!.pressure, conductance)
+      : 0;
+  });
+  return flows;
+};
+
+const hasLivePipe = (system: BubbleSystem) => {
+  const byId = new Map(system.bubbles.map((b) => [b.id, b]));
+  return system.pipes.some((p) => isLivePipe(p, byId));
+};
+
+/** One fixed step: every open pipe exchanges gas simultaneously. */
+export const stepBubbleSystem = (system: BubbleSystem, config: BubbleSystemConfig = DEFAULT_CONFIG): BubbleSystem => {
+  if (system.finished) return { ...system, time: system.time + config.timeStep };
+
+  const flows = pipeFlows(system, config);
+  const byId = new Map(system.bubbles.map((b) => [b.id, b]));
+  // Gas (mol) each pipe carries this step, from → to.
+  const moved = new Map<string, number>();
+  const outflow = new Map<string, number>();
+  system.pipes.forEach((pipe) => {
+    if (flows[pipe.id] === 0) return;
+    const meanExcess = (byId.get(pipe.from)!.pressure + byId.get(pipe.to)!.pressure) / 2;
+    const dn = molarFlow(flows[pipe.id], meanExcess, config) * config.timeStep;
+    moved.set(pipe.id, dn);
+    const donor = dn > 0 ? pipe.from : pipe.to;
+    outflow.set(donor, (outflow.get(donor) ?? 0) + Math.abs(dn));
+  });
+
+  // Never let a bubble give away more gas than it holds; this keeps amounts
+  // non-negative even when the step is coarse relative to the final collapse.
+  const scale = new Map<string, number>();
+  outflow.forEach((out, id) => {
+    const moles = byId.get(id)!.moles;
+    scale.set(id, out > moles ? moles / out : 1);
+  });
+
+  const delta = new Map<string, number>();
+  system.pipes.forEach((pipe) => {
+    let dn = moved.get(pipe.id);
+    if (dn === undefined) return;
+    dn *= scale.get(dn > 0 ? pipe.from : pipe.to) ?? 1;
+    delta.set(pipe.from, (delta.get(pipe.from) ?? 0) - dn);
+    delta.set(pipe.to, (delta.get(pipe.to) ?? 0) + dn);
+  });
+
+  const bubbles = system.bubbles.map((b) =>
+    b.collapsed || !delta.has(b.id) ? b : bubbleFromMoles(b.id, b.moles + delta.get(b.id)!, config),
+  );
+  const next = { ...system, bubbles, time: system.time + config.timeStep };
+  return { ...next, finished: !hasLivePipe(next) };
+};
+
+/**
+ * Consume `elapsed` wall-clock seconds in whole fixed steps. The remainder is
+ * carried in the accumulator so results don't depend on the caller's frame rate.
+ */
+export const advanceBubbleSystem = (
+  system: BubbleSystem,
+  elapsed: number,
+  config: BubbleSystemConfig = DEFAULT_CONFIG,
+): BubbleSystem => {
+  let next: BubbleSystem = { ...system, accumulator: system.accumulator + Math.max(0, elapsed) };
+  let steps = 0;
+  while (next.accumulator >= config.timeStep && steps < config.maxStepsPerAdvance) {
+    next = stepBubbleSystem(next, config);
+    next.accumulator -= config.timeStep;
+    steps++;
+    if (next.finished) {
+      next.accumulator = 0;
+      break;
+    }
+  }
+  if (steps === config.maxStepsPerAdvance) next.accumulator = 0;
+  return next;
+};
+
+/** Open every valve and run until nothing can flow or `maxTime` passes. */
+export const runToCompletion = (
+  system: BubbleSystem,
+  maxTime: number,
+  config: BubbleSystemConfig = DEFAULT_CONFIG,
+): BubbleSystem => {
+  let next: BubbleSystem = { ...system, pipes: system.pipes.map((p) => ({ ...p, open: true })), finished: false };
+  next = { ...next, finished: !hasLivePipe(next) };
+  while (!next.finished && next.time < maxTime) next = stepBubbleSystem(next, config);
+  return next;
+};
+
+/**
+ * Run as the lab does, valves as they are, and keep a snapshot every
+ * `interval` simulated seconds until nothing can flow or `maxTime` passes.
+ */
+export const sampleBubbleSystem = (
+  system: BubbleSystem,
+  interval: number,
+  maxTime: number,
+  config: BubbleSystemConfig = DEFAULT_CONFIG,
+): BubbleSystem[] => {
+  // One advance() per sample must be able to cover the whole interval.
+  const stepping = { ...config, maxStepsPerAdvance: Math.ceil(interval / config.timeStep) + 1 };
+  const samples = [system];
+  let next = system;
+  while (!next.finished && next.time < maxTime - 1e-9) {
+    next = advanceBubbleSystem(next, interval, stepping);
+    samples.push(next);
+  }
+  return samples;
+};
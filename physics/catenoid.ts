@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A soap film spanning two coaxial rings of radius R a distance d apart. With
+// no pressure difference across it the film has zero mean curvature: a
+// catenoid, r(z) = c·cosh(z/c), with the neck radius c fixed by
+// c·cosh(d/2c) = R. Writing x = d/2c, the rings sit at d/R = 2x/cosh x, which
+// rises to a maximum where x·tanh x = 1 and falls again: below that
+// separation there are two catenoids, a fat stable one and a thin unstable
+// one; above it (about 1.325 R) there is none, and the film pinches off into
+// two flat discs. Lengths in any one unit; areas in its square.
+
+export interface CatenoidShape {
+  /** Neck radius c. */
+  neck: number;
+  /** Film area, both sides counted once. */
+  area: number;
+}
+
+export interface CatenoidBranches {
+  stable: CatenoidShape;
+  unstable: CatenoidShape;
+}
+
+const newton = (f: (x: number) => number, df: (x: number) => number, x0: number) => {
+  let x = x0;
+  for (let i = 0; i < 50; i++) {
+    const dx = f(x) / df(x);
+    x -= dx;
+    if (Math.abs(dx) < 1e-14 * Math.max(1, Math.abs(x))) break;
+  }
+  return x;
+};
+
+/** The x = d/2c at which the two branches meet: the root of x·tanh x = 1. */
+export const LIMIT_SHAPE = newton(
+  (x) => x * Math.tanh(x) - 1,
+  (x) => Math.tanh(x) + x / Math.pow(Math.cosh(x), 2),
+  1.2,
+);
+
+/** Largest separation, in ring radii, that a catenoid can span: about 1.3255. */
+export const CRITICAL_SEPARATION = (2 * LIMIT_SHAPE) / Math.cosh(LIMIT_SHAPE);
+
+/** Separation and area, in ring radii and R², of the catenoid with shape parameter x = d/2c. */
+const branchPoint = (x: number) => {
+  const c = 1 / Math.cosh(x);
+  return { separation: 2 * x * c, neck: c, area: Math.PI * c * c * (2 * x + Math.sinh(2 * x)) };
+};
+
+/** Area of the catenoid with neck `neck` between rings `separation` apart. */
+export const catenoidArea = (neck: number, separation: number) =>
+  Math.PI * neck * (separation + neck * Math.sinh(separation / neck));
+
+/** The two flat discs the film falls back to: 2πR². */
+export const discArea = (ring: number) => 2 * Math.PI * ring * ring;
+
+/** Radius of the catenoid with neck `neck` at height `z` above the neck. */
+export const catenoidRadius = (neck: number, z: number) => neck * Math.cosh(z / neck);
+
+/**
+ * Both catenoids between rings of radius `ring` set `separation` apart, or
+ * null past the critical separation. Each is found by bisection on
+ * 2x/cosh x = d/R, either side of the limit shape.
+ */
+export const catenoidBranches = (ring: number, separation: number): CatenoidBranches | null => {
+  const target = separation / ring;
+  if (target > CRITICAL_SEPARATION) return null;
+  const solve = (lo: number, hi: number) => {
+    const rising = branchPoint(lo).separation < branchPoint(hi).separation;
+    for (let i = 0; i < 100; i++) {
+      const mid = (lo + hi) / 2;
+      if (branchPoint(mid).separation < target === rising) lo = mid;
+      else hi = mid;
+    }
+    return (lo + hi) / 2;
+  };
+  const shape = (x: number): CatenoidShape => {
+    const neck = ring / Math.cosh(x);
+    return { neck, area: catenoidArea(neck, separation) };
+  };
+  // Far along the thin branch the neck is below e⁻⁵⁰ of the ring, as good as pinched.
+  return { stable: shape(solve(0, LIMIT_SHAPE)), unstable: shape(solve(LIMIT_SHAPE, 50)) };
+};
+
+/**
+ * Separation, in ring radii, at which the stable catenoid and the two discs
+ * have the same area (about 1.055): beyond it the catenoid is only a local
+ * minimum. Goldschmidt's solution takes over from there.
+ */
+export const GOLDSCHMIDT_SEPARATION = (() => {
+  let lo = 0.5;
+  let hi = CRITICAL_SEPARATION;
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (catenoidBranches(1, mid)!.stable.area < discArea(1)) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+})();
+
+/**
+ * Both branches traced out for charting against separation: [d/R, c/R] and
+ * [d/R, A/2πR²] pairs, the area as a fraction of the two discs'. The stable
+ * branch starts at zero separation, the unstable one at the limit shape.
+ */
+export const catenoidCurves = (samples = 120) => {
+  const trace = (from: number, to: number) => {
+    const points = Array.from({ length: samples + 1 }, (_, i) => branchPoint(from + ((to - from) * i) / samples));
+    return {
+      neck: points.map((p) => [p.separation, p.neck] as [number, number]),
+      area: points.map((p) => [p.separation, p.area / discArea(1)] as [number, number]),
+    };
+  };
+  return { stable: trace(1e-3, LIMIT_SHAPE), unstable: trace(LIMIT_SHAPE, 8) };
+};
+
+/**
+ * Film profile r(z), for |z| up to half the separation, while it pinches off
+ * past the critical separation: the neck shrinks from `neck` to nothing as
+ * `progress` runs from 0 to 1 and the film stays on the rings. A picture of
+ * the collapse, not a model of its dynamics.
+ */
+export const pinchProfile = (ring: number, separation: number, neck: number, progress: number) => {
+  const half = separation / 2;
+  const n = neck * (1 - progress);
+  const rise = Math.cosh(half / neck) - 1;
+  return (z: number) => n + ((ring - n) * (Math.cosh(z / neck) - 1)) / rise;
+};
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The standard double bubble: two bubbles that touch share a wall, and the
+// three films are spherical caps meeting on a circle at 120°. Young–Laplace on
+// each film ties the radii together, 1/r₃ = 1/r_small − 1/r_large, so the wall
+// bulges into the larger bubble and is flat only when the two are equal. With
+// the 120° angles the centres of the outer spheres sit √(r₁² + r₂² − r₁r₂)
+// apart. Lengths in mm, volumes in mm³.
+
+export interface DoubleBubble {
+  /** Outer radii of the larger and the smaller chamber. */
+  large: number;
+  small: number;
+  /** Radius of the shared wall; Infinity when it is flat. */
+  wall: number;
+  /** Distance between the centres of the two outer spheres. */
+  separation: number;
+  /** Distance along the axis from the larger sphere's centre to the plane of the junction circle. */
+  junction: number;
+  /** Radius of the junction circle. */
+  ring: number;
+  /** Distance along the axis from the larger sphere's centre to the wall's. */
+  wallCentre: number;
+  /** Volumes of the larger and the smaller chamber. */
+  volumes: [number, number];
+}
+
+export const sphereVolume = (radius: number) => (4 / 3) * Math.PI * radius * radius * radius;
+
+/** Volume of the cap of height `height` cut from a sphere of radius `radius`. */
+const capVolume = (radius: number, height: number) => (Math.PI * height * height * (3 * radius - height)) / 3;
+
+/** Radius of the shared wall between bubbles of radii `small` and `large`. */
+export const wallRadius = (small: number, large: number) => (small >= large ? Infinity : (small * large) / (large - small));
+
+/** The double bubble whose outer films have radii `large` ≥ `small`. */
+export const doubleBubbleFromRadii = (large: number, small: number): DoubleBubble => {
+  const separation = Math.sqrt(large * large + small * small - large * small);
+  const junction = (large * large - small * small + separation * separation) / (2 * separation);
+  const ring = Math.sqrt(Math.max(0, large * large - junction * junction));
+  const wall = wallRadius(small, large);
+  // Written so that a nearly flat wall does not lose its bulge to cancellation.
+  const bulge = Number.isFinite(wall) ? (ring * ring) / (wall + Math.sqrt(wall * wall - ring * ring)) : 0;
+  const lens = Number.isFinite(wall) ? capVolume(wall, bulge) : 0;
+  return {
+    large,
+    small,
+    wall,
+    separation,
+    junction,
+    ring,
+    wallCentre: junction - bulge + wall,
+    volumes: [
+      sphereVolume(large) - capVolume(large, large - junction) - lens,
+      sphereVolume(small) - capVolume(small, small - (separation - junction)) + lens,
+    ],
+  };
+};
+
+/**
+ * The double bubble enclosing `volumeA` and `volumeB` (either order). The
+ * shape up to scale depends only on r_small/r_large, found by bisection on the
+ * ratio of the two volumes; the scale then follows from the larger volume.
+ */
+export const doubleBubble = (volumeA: number, volumeB: number): DoubleBubble => {
+  const larger = Math.max(volumeA, volumeB);
+  const target = Math.min(volumeA, volumeB) / larger;
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    const [vl, vs] = doubleBubbleFromRadii(1, mid).volumes;
+    if (vs / vl < target) lo = mid;
+    else hi = mid;
+  }
+  const ratio = (lo + hi) / 2;
+  const scale = Math.cbrt(larger / doubleBubbleFromRadii(1, ratio).volumes[0]);
+  return doubleBubbleFromRadii(scale, ratio * scale);
+};
+
+/**
+ * Angles (degrees) between the three films where they meet: larger outer
+ * film and wall, smaller outer film and wall, the two outer films. Each
+ * should be 120°.
+ */
+export const junctionAngles = (shape: DoubleBubble): [number, number, number] => {
+  // In the meridian plane: x along the axis from the larger centre, y out to
+  // the junction. Of a film's two tangents there, take the one running along
+  // it away from the junction: back round the larger sphere, on round the
+  // smaller, and down to the axis for the wall.
+  const normal = (centre: number, radius: number) => [(shape.junction - centre) / radius, shape.ring / radius];
+  const [lx, ly] = normal(0, shape.large);
+  const [sx, sy] = normal(shape.separation, shape.small);
+  const outerLarge = [-ly, lx];
+  const outerSmall = [sy, -sx];
+  const wall = Number.isFinite(shape.wall) ? (([wx, wy]) => [-wy, wx])(normal(shape.wallCentre, shape.wall)) : [0, -1];
+  const angle = (a: number[], b: number[]) => (Math.acos(Math.max(-1, Math.min(1, a[0] * b[0] + a[1] * b[1]))) * 180) / Math.PI;
+  return [angle(outerLarge, wall), angle(outerSmall, wall), angle(outerLarge, outerSmall)];
+};
@@ -0,0 +1,293 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Soap-film networks relaxing between fixed pins.
+//
+// Every film segment pulls on its ends with the same tension, so a free
+// junction feels the sum of unit vectors along its edges and moves with it
+// (overdamped gradient flow of total length). Topology changes follow the
+// Plateau rules:
+//   - a junction of four or more films is unstable and splits into two
+//     three-fold junctions joined by a short new film;
+//   - where two films meet at a pin at less than 120°, a new junction is
+//     pulled off the pin;
+//   - a film between two junctions that shrinks to nothing merges them, and the
+//     resulting four-fold junction splits the other way: a T1 transition.
+// Gradient flow only finds a local minimum, so a network can settle in a
+// topology that is not the global Steiner tree.
+
+import { distance, type Point } from './steiner';
+
+export interface FilmNode extends Point {
+  pinned: boolean;
+}
+
+export interface FilmNetwork {
+  nodes: FilmNode[];
+  edges: [number, number][];
+}
+
+export interface RelaxParams {
+  /** Speed (px/s) of a junction per unit of net tension. */
+  mobility: number;
+  timeStep: number;
+  /** Films shorter than this (px) collapse. */
+  collapseLength: number;
+  /** Length (px) of the film created when a junction splits. */
+  splitLength: number;
+  /** Net tension below which a junction counts as balanced. */
+  settleForce: number;
+}
+
+export interface RelaxState {
+  network: FilmNetwork;
+  time: number;
+  t1Count: number;
+  splitCount: number;
+  settled: boolean;
+}
+
+export const DEFAULT_RELAX: RelaxParams = {
+  mobility: 80,
+  timeStep: 1 / 120,
+  collapseLength: 2,
+  splitLength: 4,
+  settleForce: 0.01,
+};
+
+const TWO_THIRDS_PI = (2 * Math.PI) / 3;
+
+export const filmLength = (network: FilmNetwork) =>
+  network.edges.reduce((sum, [i, j]) => sum + distance(network.nodes[i], network.nodes[j]), 0);
+
+export const createRelaxState = (network: FilmNetwork): RelaxState => ({
+  network,
+  time: 0,
+  t1Count: 0,
+  splitCount: 0,
+  settled: false,
+});
+
+const neighbours = (network: FilmNetwork, i: number) =>
+  network.edges.flatMap(([a, b]) => (a === i ? [b] : b === i ? [a] : []));
+
+const unit = (from: Point, to: Point): Point => {
+  const d = distance(from, to) || 1;
+  return { x: (to.x - from.x) / d, y: (to.y - from.y) / d };
+};
+
+/** Net tension on every node: the sum of unit vectors along its films. */
+export const tensionForces = (network: FilmNetwork): Point[] =>
+  network.nodes.map((p, i) =>
+    neighbours(network, i).reduce(
+      (f, k) => {
+        const u = unit(p, network.nodes[k]);
+        return { x: f.x + u.x, y: f.y + u.y };
+      },
+      { x: 0, y: 0 },
+    ),
+  );
+
+/** Angles (radians) of the films leaving node `i`, sorted, with their far ends. */
+const sortedFilms = (network: FilmNetwork, i: number) =>
+  neighbours(network, i)
+    .map((k) => ({ k, angle: Math.atan2(network.nodes[k].y - network.nodes[i].y, network.nodes[k].x - network.nodes[i].x) }))
+    .sort((a, b) => a.angle - b.angle);
+
+const removeNode = (network: FilmNetwork, i: number): FilmNetwork => ({
+  nodes: network.nodes.filter((_, k) => k !== i),
+  edges: network.edges
+    .filter(([a, b]) => a !== i && b !== i)
+    .map(([a, b]) => [a > i ? a - 1 : a, b > i ? b - 1 : b] as [number, number]),
+});
+
+const dedupeEdges = (edges: [number, number][]) => {
+  const seen = new Set<string>();
+  return edges.filter(([a, b]) => {
+    if (a === b) return false;
+    const key = a < b ? `${a}-${b}` : `${b}-${a}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/** Merge node `j` into node `i` (j's films now start at i) and drop j. */
+const mergeNodes = (network: FilmNetwork, i: number, j: number, at: Point): FilmNetwork => {
+  const nodes = network.nodes.map((p, k) => (k === i ? { ...p, x: at.x, y: at.y } : p));
+  const edges = dedupeEdges(network.edges.map(([a, b]) => [a === j ? i : a, b === j ? i : b] as [number, number]));
+  return removeNode({ nodes, edges }, j);
+};
+
+/**
+ * Pull the two neighbouring films of node `i` with the strongest combined
+ * tension onto a new junction. Returns null if every adjacent pair already
+ * meets at 120° or more.
+ */
+const splitJunction = (network: FilmNetwork, i: number, params: RelaxParams): FilmNetwork | null => {
+  const films = sortedFilms(network, i);
+  if (films.length < 2) return null;
+  const p = network.nodes[i];
+  let best: { a: number; b: number; pull: Point; strength: number } | null = null;
+  for (let k = 0; k < films.length; k++) {
+    if (films.length === 2 && k === 1) break;
+    const a = films[k];
+    const b = films[(k + 1) % films.length];
+    let gap = b.angle - a.angle;
+    if (gap <= 0) gap += 2 * Math.PI;
+    if (gap >= TWO_THIRDS_PI - 1e-3) continue;
+    const ua = unit(p, network.nodes[a.k]);
+    const ub = unit(p, network.nodes[b.k]);
+    const pull = { x: ua.x + ub.x, y: ua.y + ub.y };
+    const strength = Math.hypot(pull.x, pull.y);
+    if (!best || strength > best.strength) best = { a: a.k, b: b.k, pull, strength };
+  }
+  // A free junction of degree 3 fixes its own angles by moving; only split
+  // pins and junctions of degree four or more.
+  if (!best || (!p.pinned && films.length < 4)) return null;
+
+  const s = network.nodes.length;
+  const offset = Math.min(params.splitLength, 0.4 * Math.min(distance(p, network.nodes[best.a]), distance(p, network.nodes[best.b])));
+  const node: FilmNode = {
+    x: p.x + (best.pull.x / best.strength) * offset,
+    y: p.y + (best.pull.y / best.strength) * offset,
+    pinned: false,
+  };
+  const { a, b } = best;
+  const edges = network.edges
+    .filter(([x, y]) => !((x === i && (y === a || y === b)) || (y === i && (x === a || x === b))))
+    .concat([[i, s], [a, s], [b, s]] as [number, number][]);
+  return { nodes: [...network.nodes, node], edges };
+};
+
+/** Apply at most one topology change; returns the kind applied, if any. */
+const updateTopology = (
+  network: FilmNetwork,
+  params: RelaxParams,
+): { network: FilmNetwork; event: 't1' | 'split' | 'cleanup' | null } => {
+  // Dangling films retract; free kinks that have straightened are dropped.
+  for (let i = 0; i < network.nodes.length; i++) {
+    if (network.nodes[i].pinned) continue;
+    const nbrs = neighbours(network, i);
+    if (nbrs.length <= 1) return { network: removeNode(network, i), event: 'cleanup' };
+    if (nbrs.length === 2) {
+      const ua = unit(network.nodes[i], network.nodes[nbrs[0]]);
+      const ub = unit(network.nodes[i], network.nodes[nbrs[1]]);
+      if (ua.x * ub.x + ua.y * ub.y < -0.9995) {
+        const joined = { ...network, edges: dedupeEdges([...network.edges, [nbrs[0], nbrs[1]] as [number, number]]) };
+        return { network: removeNode(joined, i), event: 'cleanup' };
+      }
+    }
+  }
+
+  // Vanishing films merge their ends.
+  for (const [a, b] of network.edges) {
+    const pa = network.nodes[a];
+    const pb = network.nodes[b];
+    if (distance(pa, pb) >= params.collapseLength || (pa.pinned && pb.pinned)) continue;
+    const keep = pa.pinned ? a : pb.pinned ? b : Math.min(a, b);
+    const drop = keep === a ? b : a;
+    const at = network.nodes[keep].pinned ? network.nodes[keep] : { x: (pa.x + pb.x) / 2, y: (pa.y + pb.y) / 2 };
+    const merged = mergeNodes(network, keep, drop, at);
+    // A merged pair of three-fold junctions is the first half of a T1.
+    return { network: merged, event: !pa.pinned && !pb.pinned ? 't1' : 'cleanup' };
+  }
+
+  // Unstable junctions split.
+  for (let i = 0; i < network.nodes.length; i++) {
+    const split = splitJunction(network, i, params);
+    if (split) return { network: split, event: 'split' };
+  }
+  return { network, event: null };
+};
+
+export const stepRelax = (state: RelaxState, params: RelaxParams = DEFAULT_RELAX): RelaxState => {
+  const { network } = state;
+  const forces = tensionForces(network);
+  let maxForce = 0;
+
+  const nodes = network.nodes.map((p, i) => {
+    if (p.pinned) return p;
+    const f = forces[i];
+    const magnitude = Math.hypot(f.x, f.y);
+    maxForce = Math.max(maxForce, magnitude);
+    // Never move further than a fraction of the shortest attached film.
+    const shortest = Math.min(...neighbours(network, i).map((k) => distance(p, network.nodes[k])), Infinity);
+    const step = Math.min(params.mobility * params.timeStep * magnitude, 0.25 * shortest);
+    if (magnitude === 0) return p;
+    return { ...p, x: p.x + (f.x / magnitude) * step, y: p.y + (f.y / magnitude) * step };
+  });
+
+  const { network: next, event } = updateTopology({ nodes, edges: network.edges }, params);
+  return {
+    network: next,
+    time: state.time + params.timeStep,
+    t1Count: state.t1Count + (event === 't1' ? 1 : 0),
+    splitCount: state.splitCount + (event === 'split' ? 1 : 0),
+    settled: event === null && maxForce < params.settleForce,
+  };
+};
+
+/** Run `steps` relaxation steps, stopping early once settled. */
+export const advanceRelax = (state: RelaxState, steps: number, params: RelaxParams = DEFAULT_RELAX): RelaxState => {
+  let next = state;
+  for (let k = 0; k < steps && !next.settled; k++) next = stepRelax(next, params);
+  return next;
+};
+
+// --- Starting networks ---
+
+export const pinsToNodes = (pins: Point[]): FilmNode[] => pins.map((p) => ({ x: p.x, y: p.y, pinned: true }));
+
+export const starNetwork = (pins: Point[]): FilmNetwork => {
+  const c = {
+    x: pins.reduce((s, p) => s + p.x, 0) / pins.length,
+    y: pins.reduce((s, p) => s + p.y, 0) / pins.length,
+  };
+  return {
+    nodes: [...pinsToNodes(pins), { ...c, pinned: false }],
+    edges: pins.map((_, i) => [i, pins.length] as [number, number]),
+  };
+};
+
+// --- Rectangle: the two competing Steiner topologies ---
+
+/**
+ * Steiner tree of a w × h rectangle whose central film runs horizontally
+ * (parallel to w). Each end is a Y-junction on the mid-line, h/(2√3) in from
+ * the short side. Exists only while w ≥ h/√3; its length is w + √3·h.
+ */
+export const rectangleTopology = (w: number, h: number, bridge: 'horizontal' | 'vertical', origin: Point = { x: 0, y: 0 }): FilmNetwork | null => {
+  const [long, short] = bridge === 'horizontal' ? [w, h] : [h, w];
+  const inset = short / (2 * Math.sqrt(3));
+  if (long < 2 * inset) return null;
+  const pins = pinsToNodes([
+    { x: origin.x, y: origin.y },
+    { x: origin.x + w, y: origin.y },
+    { x: origin.x, y: origin.y + h },
+    { x: origin.x + w, y: origin.y + h },
+  ]);
+  const junctions: FilmNode[] =
+    bridge === 'horizontal'
+      ? [
+          { x: origin.x + inset, y: origin.y + h / 2, pinned: false },
+          { x: origin.x + w - inset, y: origin.y + h / 2, pinned: false },
+        ]
+      : [
+          { x: origin.x + w / 2, y: origin.y + inset, pinned: false },
+          { x: origin.x + w / 2, y: origin.y + h - inset, pinned: false },
+        ];
+  const edges: [number, number][] =
+    bridge === 'horizontal'
+      ? [[0, 4], [2, 4], [1, 5], [3, 5], [4, 5]]
+      : [[0, 4], [1, 4], [2, 5], [3, 5], [4, 5]];
+  return { nodes: [...pins, ...junctions], edges };
+};
+
+export const rectangleTopologyLength = (w: number, h: number, bridge: 'horizontal' | 'vertical') =>
+  bridge === 'horizontal' ? w + Math.sqrt(3) * h : h + Math.sqrt(3) * w;
+
+/** The optimum switches topology where both lengths agree: at w/h = 1. */
+export const RECTANGLE_SWITCH_ASPECT = 1;
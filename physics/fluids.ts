@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DEFAULT_CONFIG, type BubbleSystemConfig } from './bubbles';
+
+/**
+ * A soap bubble in air is a thin film with two liquid–air surfaces, so its
+ * excess pressure is ΔP = 4γ/r. A liquid drop, or a gas bubble inside a
+ * liquid, has only one surface: ΔP = 2γ/r.
+ */
+export type InterfaceKind = 'film' | 'drop';
+
+export const SURFACE_COUNT: Record<InterfaceKind, 1 | 2> = { film: 2, drop: 1 };
+
+export interface Fluid {
+  id: string;
+  name: string;
+  /** Surface tension at about 20 °C, N/m. */
+  surfaceTension: number;
+  /** Whether the liquid can hold a free-standing film (needs a surfactant). */
+  filmForming: boolean;
+  note: string;
+}
+
+export const FLUIDS: Fluid[] = [
+  {
+    id: 'dish-soap',
+    name: 'Dish-soap solution',
+    surfaceTension: 0.025,
+    filmForming: true,
+    note: 'Surfactant lowers γ to about a third of pure water and stabilises the film.',
+  },
+  {
+    id: 'soap-glycerin',
+    name: 'Soap + glycerin (bubble mix)',
+    surfaceTension: 0.03,
+    filmForming: true,
+    note: 'Glycerin slows evaporation and drainage, so films last longer.',
+  },
+  {
+    id: 'water',
+    name: 'Pure water',
+    surfaceTension: 0.0728,
+    filmForming: false,
+    note: 'High γ, but without surfactant a free film drains and bursts at once.',
+  },
+  {
+    id: 'glycerin-50',
+    name: 'Glycerin–water 50%',
+    surfaceTension: 0.0675,
+    filmForming: false,
+    note: 'Viscous and slightly less tense than water.',
+  },
+  {
+    id: 'glycerin',
+    name: 'Pure glycerin',
+    surfaceTension: 0.0634,
+    filmForming: false,
+    note: 'Very viscous; γ close to that of water.',
+  },
+];
+
+export const DEFAULT_FLUID = FLUIDS[0];
+
+export const fluidById = (id: string) => FLUIDS.find((f) => f.id === id) ?? DEFAULT_FLUID;
+
+/** Only film-forming liquids can make soap bubbles; everything else falls back to a drop. */
+export const resolveInterface = (fluid: Fluid, kind: InterfaceKind): InterfaceKind =>
+  fluid.filmForming ? kind : 'drop';
+
+export const bubbleConfigFor = (
+  fluid: Fluid,
+  kind: InterfaceKind,
+  base: BubbleSystemConfig = DEFAULT_CONFIG,
+): BubbleSystemConfig => ({
+  ...base,
+  surfaceTension: fluid.surfaceTension,
+  surfaces: SURFACE_COUNT[resolveInterface(fluid, kind)],
+});
@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FOAM, advanceFoam, createFoam, type FoamState } from './foam';
+
+// Hand `total` simulated seconds to advanceFoam in `frames` equal slices.
+const advanceInFrames = (state: FoamState, total: number, frames: number) => {
+  let next = state;
+  for (let k = 0; k < frames; k++) next = advanceFoam(next, total / frames);
+  return next;
+};
+
+describe('foam clock', () => {
+  it('reaches the same simulated time however the frames are sliced', () => {
+    const start = createFoam(20, 3);
+    // 1/12 s is 5 frames at 60 Hz and 12 at 144 Hz.
+    const total = 1 / 12;
+    const at60 = advanceInFrames(start, total, 5);
+    const at144 = advanceInFrames(start, total, 12);
+    const whole = advanceFoam(start, total);
+    expect(at144.time).toBeCloseTo(at60.time, 12);
+    expect(whole.time).toBeCloseTo(at60.time, 12);
+    // Nothing is dropped: what has not been stepped yet is still owed.
+    expect(at144.time + at144.accumulator).toBeCloseTo(total, 12);
+    expect(at144.accumulator).toBeLessThan(DEFAULT_FOAM.timeStep);
+  });
+});
@@ -0,0 +1,524 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A 2D dry foam in a periodic box.
+//
+// Cells are polygons of vertices; each film between two cells is a circular
+// arc whose curvature is the pressure difference over the tension (Laplace).
+// Every vertex is pulled along the unit tangents of its three arcs, so it only
+// comes to rest where the films meet at 120°. A cell's pressure rises when it
+// is squeezed below the gas it holds, and gas diffuses through each film in
+// proportion to the pressure difference across it. With 120° junctions that
+// gives von Neumann's law, dA/dt = (π/3)·D·γ·(n − 6): cells with fewer than
+// six sides shrink, cells with more grow.
+//
+// Topology changes:
+//   - T1: a film that shrinks to nothing is replaced by one at right angles,
+//     so two cells stop touching and two others start to;
+//   - T2: a vanishing three-sided cell collapses to a single vertex.
+
+export interface FoamParams {
+  /** Side of the periodic box. */
+  size: number;
+  /** Film tension γ. */
+  tension: number;
+  /** Vertex speed per unit of net tension. */
+  mobility: number;
+  /** Pressure per unit relative compression of a cell's gas. */
+  stiffness: number;
+  /** Gas permeability of the films, D. */
+  diffusivity: number;
+  /** Films shorter than this undergo a T1. */
+  t1Length: number;
+  /** Three-sided cells smaller than this vanish (T2). */
+  t2Area: number;
+  timeStep: number;
+  maxSubsteps: number;
+}
+
+export interface FoamState {
+  /** x, y of every vertex, wrapped into the box. */
+  positions: Float64Array;
+  /** Vertex indices of every cell, in positive (shoelace) order. */
+  cells: number[][];
+  /** Stable ids, so a cell keeps its identity through topology changes. */
+  ids: number[];
+  /** Area each cell's gas would fill at zero excess pressure. */
+  gas: number[];
+  pressures: number[];
+  time: number;
+  /** Simulated time handed to advanceFoam but not yet consumed by a whole step. */
+  accumulator: number;
+  t1Count: number;
+  t2Count: number;
+}
+
+/** One film, as seen from the cell on its left (u → w runs along that cell). */
+export interface FoamEdge {
+  u: number;
+  w: number;
+  left: number;
+  right: number;
+  /** Chord from u to w (minimum image). */
+  dx: number;
+  dy: number;
+  chord: number;
+  /** Half the angle the arc subtends; 0 for a straight film. */
+  halfAngle: number;
+  /** +1 if the film bulges to the right of u → w (the left cell is at higher pressure). */
+  bulge: number;
+  radius: number;
+  arcLength: number;
+  /** Area between the chord and the arc. */
+  segment: number;
+}
+
+export const DEFAULT_FOAM: FoamParams = {
+  size: 1,
+  tension: 1,
+  mobility: 1,
+  stiffness: 2000,
+  diffusivity: 0.005,
+  t1Length: 0.006,
+  t2Area: 2e-4,
+  timeStep: 5e-4,
+  maxSubsteps: 400,
+};
+
+const MAX_HALF_ANGLE = 1.2;
+const PRESSURE_ITERATIONS = 4;
+
+// --- Geometry helpers ---
+
+const wrap = (v: number, size: number) => v - Math.floor(v / size) * size;
+const minImage = (d: number, size: number) => d - Math.round(d / size) * size;
+
+/** Deterministic PRNG (mulberry32), so a seed always gives the same foam. */
+export const seededRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/** Cell outline with periodic jumps removed, starting at its first vertex. */
+export const unwrappedCell = (state: FoamState, c: number, size: number): [number, number][] => {
+  const cell = state.cells[c];
+  const p = state.positions;
+  const out: [number, number][] = [[p[2 * cell[0]], p[2 * cell[0] + 1]]];
+  for (let k = 1; k < cell.length; k++) {
+    const [px, py] = out[k - 1];
+    const v = cell[k];
+    out.push([px + minImage(p[2 * v] - px, size), py + minImage(p[2 * v + 1] - py, size)]);
+  }
+  return out;
+};
+
+const polygonArea = (pts: [number, number][]) => {
+  let a = 0;
+  for (let k = 0; k < pts.length; k++) {
+    const [x1, y1] = pts[k];
+    const [x2, y2] = pts[(k + 1) % pts.length];
+    a += x1 * y2 - x2 * y1;
+  }
+  return a / 2;
+};
+
+// --- Initial foam: periodic Voronoi tessellation ---
+
+type Polygon = [number, number][];
+
+/** Keep the part of `poly` on the near side of the bisector between s and t. */
+const clipToBisector = (poly: Polygon, s: [number, number], t: [number, number]): Polygon => {
+  const nx = t[0] - s[0];
+  const ny = t[1] - s[1];
+  const mx = (s[0] + t[0]) / 2;
+  const my = (s[1] + t[1]) / 2;
+  const side = ([x, y]: [number, number]) => (x - mx) * nx + (y - my) * ny;
+  const out: Polygon = [];
+  for (let k = 0; k < poly.length; k++) {
+    const a = poly[k];
+    const b = poly[(k + 1) % poly.length];
+    const sa = side(a);
+    const sb = side(b);
+    if (sa <= 0) out.push(a);
+    if ((sa < 0 && sb > 0) || (sa > 0 && sb < 0)) {
+      const f = sa / (sa - sb);
+      out.push([a[0] + f * (b[0] - a[0]), a[1] + f * (b[1] - a[1])]);
+    }
+  }
+  return out;
+};
+
+const voronoiCell = (sites: [number, number][], i: number, size: number): Polygon => {
+  const s = sites[i];
+  let poly: Polygon = [
+    [s[0] - size, s[1] - size],
+    [s[0] + size, s[1] - size],
+    [s[0] + size, s[1] + size],
+    [s[0] - size, s[1] + size],
+  ];
+  sites.forEach((q, j) => {
+    for (let ox = -1; ox <= 1; ox++) {
+      for (let oy = -1; oy <= 1; oy++) {
+        if (j === i && ox === 0 && oy === 0) continue;
+        poly = clipToBisector(poly, s, [q[0] + ox * size, q[1] + oy * size]);
+      }
+    }
+  });
+  return poly;
+};
+
+/** Lloyd's relaxation: move each site to the centroid of its Voronoi cell. */
+const lloyd = (sites: [number, number][], size: number): [number, number][] =>
+  sites.map((_, i) => {
+    const poly = voronoiCell(sites, i, size);
+    let cx = 0;
+    let cy = 0;
+    let a = 0;
+    for (let k = 0; k < poly.length; k++) {
+      const [x1, y1] = poly[k];
+      const [x2, y2] = poly[(k + 1) % poly.length];
+      const cr = x1 * y2 - x2 * y1;
+      a += cr;
+      cx += (x1 + x2) * cr;
+      cy += (y1 + y2) * cr;
+    }
+    return [wrap(cx / (3 * a), size), wrap(cy / (3 * a), size)];
+  });
+
+/**
+ * Disordered foam of `cellCount` cells: the Voronoi tessellation of random
+ * sites, smoothed by `smoothing` Lloyd steps (fewer steps, more disorder).
+ */
+export const createFoam = (cellCount: number, seed = 1, smoothing = 2, params: FoamParams = DEFAULT_FOAM): FoamState => {
+  const { size } = params;
+  const random = seededRandom(seed);
+  let sites: [number, number][] = Array.from({ length: cellCount }, () => [random() * size, random() * size]);
+  for (let k = 0; k < smoothing; k++) sites = lloyd(sites, size);
+
+  const vertices: [number, number][] = [];
+  const tol = 1e-7 * size;
+  const vertexIndex = ([x, y]: [number, number]) => {
+    const wx = wrap(x, size);
+    const wy = wrap(y, size);
+    const found = vertices.findIndex(([vx, vy]) => Math.abs(minImage(vx - wx, size)) < tol && Math.abs(minImage(vy - wy, size)) < tol);
+    if (found >= 0) return found;
+    vertices.push([wx, wy]);
+    return vertices.length - 1;
+  };
+
+  const cells = sites.map((_, i) => {
+    const cell: number[] = [];
+    voronoiCell(sites, i, size).forEach((p) => {
+      const v = vertexIndex(p);
+      if (cell[cell.length - 1] !== v && cell[0] !== v) cell.push(v);
+    });
+    return cell;
+  });
+
+  const state: FoamState = {
+    positions: Float64Array.from(vertices.flat()),
+    cells,
+    ids: cells.map((_, i) => i),
+    gas: [],
+    pressures: cells.map(() => 0),
+    time: 0,
+    accumulator: 0,
+    t1Count: 0,
+    t2Count: 0,
+  };
+  state.gas = cells.map((_, c) => polygonArea(unwrappedCell(state, c, size)));
+  return state;
+};
+
+// --- Films and areas ---
+
+/** Circular arc on a chord of length `chord` across a pressure jump `dp` (Laplace: κ = Δp/γ). */
+const arc = (chord: number, dp: number, tension: number) => {
+  const halfAngle = Math.min(MAX_HALF_ANGLE, Math.asin(Math.min(1, (chord * Math.abs(dp)) / (2 * tension))));
+  if (halfAngle < 1e-9) return { halfAngle: 0, bulge: 0, radius: Infinity, arcLength: chord, segment: 0 };
+  const radius = chord / (2 * Math.sin(halfAngle));
+  return {
+    halfAngle,
+    bulge: Math.sign(dp),
+    radius,
+    arcLength: 2 * radius * halfAngle,
+    segment: radius * radius * (halfAngle - Math.sin(halfAngle) * Math.cos(halfAngle)),
+  };
+};
+
+/** Every film once, with its arc worked out from `pressures` (the state's own by default). */
+export const foamEdges = (state: FoamState, params: FoamParams = DEFAULT_FOAM, pressures = state.pressures): FoamEdge[] => {
+  const { size, tension } = params;
+  const owner = new Map<number, number>();
+  const key = (u: number, w: number) => u * 1048576 + w;
+  state.cells.forEach((cell, c) => cell.forEach((u, k) => owner.set(key(u, cell[(k + 1) % cell.length]), c)));
+
+  const edges: FoamEdge[] = [];
+  state.cells.forEach((cell, left) => {
+    cell.forEach((u, k) => {
+      const w = cell[(k + 1) % cell.length];
+      const right = owner.get(key(w, u));
+      // Each film is listed once, from the side with the lower vertex first.
+      if (right == null || u > w) return;
+      const dx = minImage(state.positions[2 * w] - state.positions[2 * u], size);
+      const dy = minImage(state.positions[2 * w + 1] - state.positions[2 * u + 1], size);
+      const chord = Math.hypot(dx, dy);
+      edges.push({ u, w, left, right, dx, dy, chord, ...arc(chord, pressures[left] - pressures[right], tension) });
+    });
+  });
+  return edges;
+};
+
+/** Cell areas including the circular segments of their curved films. */
+export const cellAreas = (state: FoamState, edges: FoamEdge[], params: FoamParams = DEFAULT_FOAM) => {
+  const areas = state.cells.map((_, c) => polygonArea(unwrappedCell(state, c, params.size)));
+  edges.forEach((e) => {
+    areas[e.left] += e.bulge * e.segment;
+    areas[e.right] -= e.bulge * e.segment;
+  });
+  return areas;
+};
+
+// --- Topology changes ---
+
+const removeVertices = (state: FoamState, dead: Set<number>): FoamState => {
+  const remap: number[] = [];
+  const positions: number[] = [];
+  for (let v = 0; v < state.positions.length / 2; v++) {
+    if (dead.has(v)) continue;
+    remap[v] = positions.length / 2;
+    positions.push(state.positions[2 * v], state.positions[2 * v + 1]);
+  }
+  return {
+    ...state,
+    positions: Float64Array.from(positions),
+    cells: state.cells.map((cell) => cell.filter((v) => !dead.has(v)).map((v) => remap[v])),
+  };
+};
+
+const removeCell = (state: FoamState, c: number): FoamState => ({
+  ...state,
+  cells: state.cells.filter((_, k) => k !== c),
+  ids: state.ids.filter((_, k) => k !== c),
+  gas: state.gas.filter((_, k) => k !== c),
+  pressures: state.pressures.filter((_, k) => k !== c),
+});
+
+/** Neighbour switch on film u → w of cell `left` (T1). */
+const t1 = (state: FoamState, e: FoamEdge, params: FoamParams): FoamState => {
+  const { u: a, w: b, left: c1, right: c2 } = e;
+  const cells = state.cells.map((cell) => [...cell]);
+  const c3 = cells.findIndex((cell, k) => k !== c1 && k !== c2 && cell.includes(a));
+  const c4 = cells.findIndex((cell, k) => k !== c1 && k !== c2 && cell.includes(b));
+  if (c3 < 0 || c4 < 0 || c3 === c4) return state;
+  // c1 (a → b) and c2 (b → a) each lose a vertex; c3 and c4 gain the new film.
+  cells[c1] = cells[c1].filter((v) => v !== b);
+  cells[c2] = cells[c2].filter((v) => v !== a);
+  cells[c3].splice(cells[c3].indexOf(a), 0, b);
+  cells[c4].splice(cells[c4].indexOf(b), 0, a);
+
+  // New film, centred on the old one and turned a quarter: a towards c1, b towards c2.
+  const positions = Float64Array.from(state.positions);
+  const mx = positions[2 * a] + e.dx / 2;
+  const my = positions[2 * a + 1] + e.dy / 2;
+  const half = (1.5 * params.t1Length) / 2;
+  const nx = (-e.dy / (e.chord || 1)) * half;
+  const ny = (e.dx / (e.chord || 1)) * half;
+  positions[2 * a] = wrap(mx + nx, params.size);
+  positions[2 * a + 1] = wrap(my + ny, params.size);
+  positions[2 * b] = wrap(mx - nx, params.size);
+  positions[2 * b + 1] = wrap(my - ny, params.size);
+  return { ...state, positions, cells, t1Count: state.t1Count + 1 };
+};
+
+/** A three-sided cell shrinks to a point (T2); its gas is lost. */
+const t2 = (state: FoamState, c: number, params: FoamParams): FoamState => {
+  const [a, b, d] = state.cells[c];
+  const pts = unwrappedCell(state, c, params.size);
+  const positions = Float64Array.from(state.positions);
+  positions[2 * a] = wrap((pts[0][0] + pts[1][0] + pts[2][0]) / 3, params.size);
+  positions[2 * a + 1] = wrap((pts[0][1] + pts[1][1] + pts[2][1]) / 3, params.size);
+  const cells = state.cells.map((cell) => {
+    const merged = cell.map((v) => (v === b || v === d ? a : v));
+    return merged.filter((v, k) => v !== merged[(k + 1) % merged.length]);
+  });
+  let next: FoamState = { ...state, positions, cells, t2Count: state.t2Count + 1 };
+  next = removeCell(next, c);
+  return removeVertices(next, new Set([b, d]));
+};
+
+/** Cells left with two sides are lenses: drop them and straighten the film they sat on. */
+const removeLenses = (state: FoamState): FoamState => {
+  let next = state;
+  for (let c = next.cells.length - 1; c >= 0; c--) {
+    if (next.cells[c].length > 2) continue;
+    const dead = new Set(next.cells[c]);
+    next = removeVertices(removeCell(next, c), dead);
+  }
+  return next;
+};
+
+const updateTopology = (state: FoamState, edges: FoamEdge[], areas: number[], params: FoamParams): FoamState => {
+  // Vanishing triangles first, then the shortest film that is too short.
+  for (let c = 0; c < state.cells.length; c++) {
+    if (state.cells[c].length === 3 && areas[c] < params.t2Area) return removeLenses(t2(state, c, params));
+  }
+  let shortest: FoamEdge | null = null;
+  edges.forEach((e) => {
+    if (e.chord >= params.t1Length) return;
+    if (state.cells[e.left].length <= 3 || state.cells[e.right].length <= 3) return;
+    if (!shortest || e.chord < shortest.chord) shortest = e;
+  });
+  return shortest ? t1(state, shortest, params) : state;
+};
+
+// --- Dynamics ---
+
+/**
+ * Pressures that agree with the current geometry. A cell's area depends on
+ * its pressure through the bulge of its films, strongly enough that simply
+ * lagging the pressure by a step is unstable; instead iterate p towards
+ * K·(gas − A(p))/gas, dividing each correction by the linearised response
+ * (a film's segment grows by about chord³/12γ per unit of pressure jump).
+ */
+const solvePressures = (state: FoamState, params: FoamParams) => {
+  const { size, tension, stiffness } = params;
+  const polygons = state.cells.map((_, c) => polygonArea(unwrappedCell(state, c, size)));
+  const chords = foamEdges(state, params, state.cells.map(() => 0));
+  const response = state.cells.map(() => 0);
+  chords.forEach((e) => {
+    const w = (e.chord * e.chord * e.chord) / (12 * tension);
+    response[e.left] += w;
+    response[e.right] += w;
+  });
+  let pressures = [...state.pressures];
+  for (let it = 0; it < PRESSURE_ITERATIONS; it++) {
+    const areas = [...polygons];
+    chords.forEach((e) => {
+      const { bulge, segment } = arc(e.chord, pressures[e.left] - pressures[e.right], tension);
+      areas[e.left] += bulge * segment;
+      areas[e.right] -= bulge * segment;
+    });
+    pressures = pressures.map((p, c) => {
+      const gas = Math.max(state.gas[c], 1e-9);
+      const residual = (stiffness * (state.gas[c] - areas[c])) / gas - p;
+      return p + residual / (1 + (stiffness * response[c]) / gas);
+    });
+  }
+  return pressures;
+};
+
+export const stepFoam = (state: FoamState, params: FoamParams = DEFAULT_FOAM): FoamState => {
+  const { size, mobility, tension, timeStep: dt } = params;
+  const pressures = solvePressures(state, params);
+  const edges = foamEdges(state, params, pressures);
+  const areas = cellAreas(state, edges, params);
+
+  // Vertices follow the unit tangents of their arcs.
+  const force = new Float64Array(state.positions.length);
+  edges.forEach((e) => {
+    const tx = e.dx / (e.chord || 1);
+    const ty = e.dy / (e.chord || 1);
+    // Bulging to the right of u → w turns the tangent at u clockwise (and at w the other way).
+    const turn = -e.bulge * e.halfAngle;
+    const cos = Math.cos(turn);
+    const sin = Math.sin(turn);
+    force[2 * e.u] += tx * cos - ty * sin;
+    force[2 * e.u + 1] += tx * sin + ty * cos;
+    const cos2 = Math.cos(-turn);
+    const sin2 = Math.sin(-turn);
+    force[2 * e.w] += -tx * cos2 + ty * sin2;
+    force[2 * e.w + 1] += -tx * sin2 - ty * cos2;
+  });
+  const positions = Float64Array.from(state.positions);
+  for (let k = 0; k < positions.length; k++) positions[k] = wrap(positions[k] + dt * mobility * tension * force[k], size);
+
+  // Gas crosses each film down the pressure gradient.
+  const gas = [...state.gas];
+  edges.forEach((e) => {
+    const flux = params.diffusivity * (pressures[e.left] - pressures[e.right]) * e.arcLength * dt;
+    gas[e.left] -= flux;
+    gas[e.right] += flux;
+  });
+
+  const next = { ...state, positions, gas, pressures, time: state.time + dt };
+  return updateTopology(next, edges, areas, params);
+};
+
+/**
+ * Advance by `elapsed` simulated time in whole fixed steps. The remainder is
+ * carried in the accumulator, so the pace does not depend on how the caller
+ * slices time into frames.
+ */
+export const advanceFoam = (state: FoamState, elapsed: number, params: FoamParams = DEFAULT_FOAM): FoamState => {
+  let next: FoamState = { ...state, accumulator: state.accumulator + Math.max(0, elapsed) };
+  let steps = 0;
+  while (next.accumulator >= params.timeStep && steps < params.maxSubsteps) {
+    const carried = next.accumulator - params.timeStep;
+    next = { ...stepFoam(next, params), accumulator: carried };
+    steps++;
+  }
+  if (steps === params.maxSubsteps) next.accumulator = 0;
+  return next;
+};
+
+// --- Statistics ---
+
+/** Number of cells with each side count, indexed by n. */
+export const sideHistogram = (state: FoamState) => {
+  const counts: number[] = [];
+  state.cells.forEach((cell) => {
+    counts[cell.length] = (counts[cell.length] ?? 0) + 1;
+  });
+  return Array.from(counts, (n) => n ?? 0);
+};
+
+export const meanCellArea = (state: FoamState, params: FoamParams = DEFAULT_FOAM) => (params.size * params.size) / state.cells.length;
+
+/** von Neumann's prediction for the growth rate of an n-sided cell. */
+export const vonNeumannRate = (n: number, params: FoamParams = DEFAULT_FOAM) =>
+  (Math.PI / 3) * params.diffusivity * params.tension * (n - 6);
+
+/** Measured dA/dt (gas flux) averaged over cells of each side count. */
+export const growthRatesBySides = (state: FoamState, edges: FoamEdge[], params: FoamParams = DEFAULT_FOAM) => {
+  const rate = state.cells.map(() => 0);
+  edges.forEach((e) => {
+    const flux = params.diffusivity * (state.pressures[e.left] - state.pressures[e.right]) * e.arcLength;
+    rate[e.left] -= flux;
+    rate[e.right] += flux;
+  });
+  const sums = new Map<number, { total: number; count: number }>();
+  state.cells.forEach((cell, c) => {
+    const s = sums.get(cell.length) ?? { total: 0, count: 0 };
+    s.total += rate[c];
+    s.count++;
+    sums.set(cell.length, s);
+  });
+  return [...sums.entries()].map(([n, s]) => ({ n, rate: s.total / s.count, count: s.count })).sort((a, b) => a.n - b.n);
+};
+
+/** Largest departure (degrees) from 120° of the arc tangents at each vertex. */
+export const junctionAngleErrors = (state: FoamState, edges: FoamEdge[]) => {
+  const tangents: number[][] = Array.from({ length: state.positions.length / 2 }, () => []);
+  edges.forEach((e) => {
+    const base = Math.atan2(e.dy, e.dx);
+    const turn = -e.bulge * e.halfAngle;
+    tangents[e.u].push(base + turn);
+    tangents[e.w].push(base + Math.PI - turn);
+  });
+  return tangents.map((angles) => {
+    const sorted = angles.map((a) => ((a % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI)).sort((x, y) => x - y);
+    return Math.max(...sorted.map((a, k) => {
+      const next = k + 1 < sorted.length ? sorted[k + 1] : sorted[0] + 2 * Math.PI;
+      return Math.abs(((next - a) * 180) / Math.PI - 120);
+    }));
+  });
+};
@@ -0,0 +1,467 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Minimal soap films spanning wire frames (Plateau's problem in 3D).
+//
+// In the spirit of Surface Evolver: each frame comes with a coarse triangulated
+// film of the right topology (sheets, triple lines, tetrahedral points). The
+// film is relaxed by moving every free vertex down the area gradient, then
+// refined and relaxed again, a few times over; relaxing coarse first moves
+// the junctions into place quickly, which a fine mesh alone does very slowly.
+// Edges shared by three triangles are triple lines; because their vertices
+// feel the pull of all three sheets, the sheets settle at 120° and four triple
+// lines meet at the tetrahedral angle, arccos(−1/3) ≈ 109.47°. Vertices on the
+// wire stay put.
+
+export type Vec3 = [number, number, number];
+
+export type FrameId = 'tetrahedron' | 'cube' | 'prism' | 'rings' | 'custom';
+
+export interface FilmMesh {
+  positions: Float64Array;
+  triangles: Uint32Array;
+  /** 1 for vertices held by the wire. */
+  fixed: Uint8Array;
+  /** Mesh edges lying along the wire, as index pairs. */
+  wireEdges: Uint32Array;
+}
+
+export interface WireFrame {
+  id: FrameId;
+  /** Wire polylines, for drawing. */
+  wires: Vec3[][];
+  /** Coarse film of the right topology. */
+  mesh: FilmMesh;
+  /** How many times the film is refined on the way to the answer. */
+  levels: number;
+  /** Moves a point at the midpoint of a wire edge back onto the wire. */
+  snap?: (p: Vec3) => Vec3;
+}
+
+export interface PlateauState {
+  frame: WireFrame;
+  mesh: FilmMesh;
+  level: number;
+  iteration: number;
+  area: number;
+  /** Area after every `HISTORY_EVERY` iterations. */
+  history: [number, number][];
+  /** Iterations at which the mesh was refined. */
+  refinedAt: number[];
+  converged: boolean;
+}
+
+export const TETRAHEDRAL_ANGLE = (Math.acos(-1 / 3) * 180) / Math.PI;
+
+const HISTORY_EVERY = 10;
+
+// --- Vector helpers ---
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const add = (a: Vec3, b: Vec3): Vec3 => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+const scale = (a: Vec3, s: number): Vec3 => [a[0] * s, a[1] * s, a[2] * s];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const norm = (a: Vec3) => Math.sqrt(dot(a, a));
+const unit = (a: Vec3): Vec3 => scale(a, 1 / (norm(a) || 1));
+export const vertexPosition = (mesh: FilmMesh, i: number): Vec3 => [mesh.positions[3 * i], mesh.positions[3 * i + 1], mesh.positions[3 * i + 2]];
+const edgeKey = (a: number, b: number) => (a < b ? `${a}-${b}` : `${b}-${a}`);
+
+// --- Building and refining meshes ---
+
+interface CoarseFilm {
+  points: Vec3[];
+  triangles: [number, number, number][];
+  /** Coarse edges lying along the wire. */
+  wireEdges: [number, number][];
+  snap?: (p: Vec3) => Vec3;
+}
+
+/** Split quads (a b c d, in order around the boundary) into two triangles. */
+const quad = (a: number, b: number, c: number, d: number): [number, number, number][] => [[a, b, c], [a, c, d]];
+
+const toMesh = (coarse: CoarseFilm): FilmMesh => {
+  const fixed = new Uint8Array(coarse.points.length);
+  coarse.wireEdges.forEach(([a, b]) => {
+    fixed[a] = 1;
+    fixed[b] = 1;
+  });
+  return {
+    positions: Float64Array.from(coarse.points.flat()),
+    triangles: Uint32Array.from(coarse.triangles.flat()),
+    fixed,
+    wireEdges: Uint32Array.from(coarse.wireEdges.flat()),
+  };
+};
+
+/**
+ * Midpoint subdivision: every triangle becomes four. Midpoints of wire edges
+ * stay on the wire (and fixed); everything else is free. Edges shared by
+ * several triangles get a single midpoint, so triple lines stay connected.
+ */
+export const refineMesh = (mesh: FilmMesh, snap?: (p: Vec3) => Vec3): FilmMesh => {
+  const positions = Array.from(mesh.positions);
+  const fixed = Array.from(mesh.fixed);
+  const wire = new Set<string>();
+  for (let e = 0; e < mesh.wireEdges.length; e += 2) wire.add(edgeKey(mesh.wireEdges[e], mesh.wireEdges[e + 1]));
+  const wireEdges: number[] = [];
+  const midpoints = new Map<string, number>();
+  const midpoint = (a: number, b: number) => {
+    const key = edgeKey(a, b);
+    let m = midpoints.get(key);
+    if (m != null) return m;
+    let p = scale(add(vertexPosition(mesh, a), vertexPosition(mesh, b)), 0.5);
+    m = fixed.length;
+    const onWire = wire.has(key);
+    if (onWire) {
+      if (snap) p = snap(p);
+      wireEdges.push(a, m, m, b);
+    }
+    positions.push(...p);
+    fixed.push(onWire ? 1 : 0);
+    midpoints.set(key, m);
+    return m;
+  };
+  const triangles: number[] = [];
+  for (let t = 0; t < mesh.triangles.length; t += 3) {
+    const [a, b, c] = [mesh.triangles[t], mesh.triangles[t + 1], mesh.triangles[t + 2]];
+    const ab = midpoint(a, b);
+    const bc = midpoint(b, c);
+    const ca = midpoint(c, a);
+    triangles.push(a, ab, ca, ab, b, bc, ca, bc, c, ab, bc, ca);
+  }
+  return {
+    positions: Float64Array.from(positions),
+    triangles: Uint32Array.from(triangles),
+    fixed: Uint8Array.from(fixed),
+    wireEdges: Uint32Array.from(wireEdges),
+  };
+};
+
+const closed = (points: Vec3[]) => [...points, points[0]];
+
+/** Regular tetrahedron: six flat triangles from the edges to a central tetrahedral point. */
+const tetrahedronFilm = (): CoarseFilm => {
+  const points: Vec3[] = [[1, 1, 1], [1, -1, -1], [-1, 1, -1], [-1, -1, 1], [0.3, -0.2, 0.15]];
+  const edges: [number, number][] = [[0, 1], [0, 2], [0, 3], [1, 2], [1, 3], [2, 3]];
+  return { points, triangles: edges.map(([a, b]) => [a, b, 4]), wireEdges: edges };
+};
+
+/**
+ * Cube: thirteen sheets. A small central square (parallel to the z faces) is
+ * joined to the vertical edges by four triangles and to the horizontal edges
+ * by eight trapezoids; its corners are tetrahedral points.
+ */
+const cubeFilm = (): CoarseFilm => {
+  const s = 0.3;
+  const c = (x: number, y: number, z: number) => 4 * (x > 0 ? 1 : 0) + 2 * (y > 0 ? 1 : 0) + (z > 0 ? 1 : 0);
+  const points: Vec3[] = [];
+  for (const x of [-1, 1]) for (const y of [-1, 1]) for (const z of [-1, 1]) points[c(x, y, z)] = [x, y, z];
+  const q = (x: number, y: number) => 8 + 2 * (x > 0 ? 1 : 0) + (y > 0 ? 1 : 0);
+  for (const x of [-1, 1]) for (const y of [-1, 1]) points[q(x, y)] = [s * x, s * y, 0];
+
+  const triangles: [number, number, number][] = [];
+  const wireEdges: [number, number][] = [];
+  // Vertical edges.
+  for (const x of [-1, 1]) for (const y of [-1, 1]) {
+    triangles.push([c(x, y, -1), c(x, y, 1), q(x, y)]);
+    wireEdges.push([c(x, y, -1), c(x, y, 1)]);
+  }
+  // Horizontal edges, top and bottom, along x and along y.
+  for (const z of [-1, 1]) for (const k of [-1, 1]) {
+    triangles.push(...quad(c(-1, k, z), c(1, k, z), q(1, k), q(-1, k)));
+    triangles.push(...quad(c(k, -1, z), c(k, 1, z), q(k, 1), q(k, -1)));
+    wireEdges.push([c(-1, k, z), c(1, k, z)], [c(k, -1, z), c(k, 1, z)]);
+  }
+  triangles.push(...quad(q(-1, -1), q(1, -1), q(1, 1), q(-1, 1)));
+  return { points, triangles, wireEdges };
+};
+
+/**
+ * Equilateral triangular prism: a vertical triple line on the axis ends in
+ * two tetrahedral points, each joined to the three corners of its end.
+ */
+const prismFilm = (): CoarseFilm => {
+  const corners = [0, 1, 2].map((k) => {
+    const a = Math.PI / 2 + (2 * Math.PI * k) / 3;
+    return [Math.cos(a) * 1.15, Math.sin(a) * 1.15] as [number, number];
+  });
+  const points: Vec3[] = [
+    ...corners.map(([x, y]) => [x, y, 1] as Vec3),
+    ...corners.map(([x, y]) => [x, y, -1] as Vec3),
+    [0.1, 0, 0.35],
+    [-0.05, 0.1, -0.35],
+  ];
+  const top = 6;
+  const bottom = 7;
+  const triangles: [number, number, number][] = [];
+  const wireEdges: [number, number][] = [];
+  for (let k = 0; k < 3; k++) {
+    const n = (k + 1) % 3;
+    triangles.push([k, n, top], [3 + k, 3 + n, bottom], ...quad(k, 3 + k, bottom, top));
+    wireEdges.push([k, n], [3 + k, 3 + n], [k, 3 + k]);
+  }
+  return { points, triangles, wireEdges };
+};
+
+export const RING_RADIUS = 1;
+export const RING_HALF_GAP = 0.45;
+
+/** Two coaxial rings: a tube between them that relaxes into a catenoid. */
+const ringsFilm = (segments = 24): CoarseFilm => {
+  const points: Vec3[] = [];
+  for (const z of [RING_HALF_GAP, -RING_HALF_GAP]) {
+    for (let k = 0; k < segments; k++) {
+      const a = (2 * Math.PI * k) / segments;
+      points.push([RING_RADIUS * Math.cos(a), RING_RADIUS * Math.sin(a), z]);
+    }
+  }
+  const triangles: [number, number, number][] = [];
+  const wireEdges: [number, number][] = [];
+  for (let k = 0; k < segments; k++) {
+    const n = (k + 1) % segments;
+    triangles.push(...quad(k, n, segments + n, segments + k));
+    wireEdges.push([k, n], [segments + k, segments + n]);
+  }
+  const snap = ([x, y, z]: Vec3): Vec3 => {
+    const r = Math.hypot(x, y) || 1;
+    return [(x / r) * RING_RADIUS, (y / r) * RING_RADIUS, z];
+  };
+  return { points, triangles, wireEdges, snap };
+};
+
+/** Any closed polyline, spanned by a cone from its centroid that then relaxes. */
+const polylineFilm = (loop: Vec3[]): CoarseFilm => {
+  const n = loop.length;
+  const c = scale(loop.reduce(add, [0, 0, 0] as Vec3), 1 / n);
+  const triangles: [number, number, number][] = [];
+  const wireEdges: [number, number][] = [];
+  for (let k = 0; k < n; k++) {
+    triangles.push([k, (k + 1) % n, n]);
+    wireEdges.push([k, (k + 1) % n]);
+  }
+  return { points: [...loop, c], triangles, wireEdges };
+};
+
+/** Skew hexagon zig-zagging around a cylinder: spans a saddle. */
+export const DEFAULT_POLYLINE: Vec3[] = Array.from({ length: 6 }, (_, k) => {
+  const a = (Math.PI * k) / 3;
+  return [Math.cos(a), Math.sin(a), k % 2 ? 0.6 : -0.6] as Vec3;
+});
+
+/** Why a polyline did not parse; `line` counts from 1 in the text, null for the whole text. */
+export class PolylineError extends Error {
+  constructor(readonly reason: 'numbers' | 'tooFew', readonly line: number | null = null) {
+    super(reason === 'numbers' ? `Line ${line}: expected three numbers` : 'Need at least three points');
+    this.name = 'PolylineError';
+  }
+}
+
+/** Parse "x, y, z" lines into a closed polyline; throws a PolylineError on bad input. */
+export const parsePolyline = (text: string): Vec3[] => {
+  const points: Vec3[] = [];
+  text.split('\n').forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line) return;
+    const values = line.split(/[\s,]+/).map(Number);
+    if (values.length !== 3 || values.some((v) => !isFinite(v))) throw new PolylineError('numbers', i + 1);
+    points.push(values as Vec3);
+  });
+  if (points.length < 3) throw new PolylineError('tooFew');
+  return points;
+};
+
+export const formatPolyline = (points: Vec3[]) => points.map((p) => p.map((v) => +v.toFixed(2)).join(', ')).join('\n');
+
+export const FRAMES: { id: FrameId; name: string }[] = [
+  { id: 'cube', name: 'Cube' },
+  { id: 'tetrahedron', name: 'Tetrahedron' },
+  { id: 'prism', name: 'Triangular prism' },
+  { id: 'rings', name: 'Two rings' },
+  { id: 'custom', name: 'Custom polyline' },
+];
+
+const REFINE_LEVELS: Record<FrameId, number> = { tetrahedron: 3, cube: 3, prism: 3, rings: 2, custom: 4 };
+
+export const createFrame = (id: FrameId, polyline: Vec3[] = DEFAULT_POLYLINE): WireFrame => {
+  const coarse =
+    id === 'tetrahedron' ? tetrahedronFilm()
+    : id === 'cube' ? cubeFilm()
+    : id === 'prism' ? prismFilm()
+    : id === 'rings' ? ringsFilm()
+    : polylineFilm(polyline);
+  const wires =
+    id === 'rings'
+      ? [RING_HALF_GAP, -RING_HALF_GAP].map((z) =>
+          Array.from({ length: 97 }, (_, k) => {
+            const a = (2 * Math.PI * k) / 96;
+            return [RING_RADIUS * Math.cos(a), RING_RADIUS * Math.sin(a), z] as Vec3;
+          }),
+        )
+      : id === 'custom'
+        ? [closed(polyline)]
+        : coarse.wireEdges.map(([a, b]) => [coarse.points[a], coarse.points[b]]);
+  return { id, wires, mesh: toMesh(coarse), levels: REFINE_LEVELS[id], snap: coarse.snap };
+};
+
+// --- Relaxation ---
+
+export const meshArea = (mesh: FilmMesh) => {
+  let area = 0;
+  for (let t = 0; t < mesh.triangles.length; t += 3) {
+    const a = vertexPosition(mesh, mesh.triangles[t]);
+    const b = vertexPosition(mesh, mesh.triangles[t + 1]);
+    const c = vertexPosition(mesh, mesh.triangles[t + 2]);
+    area += norm(cross(sub(b, a), sub(c, a))) / 2;
+  }
+  return area;
+};
+
+export const createPlateauState = (frame: WireFrame): PlateauState => {
+  const area = meshArea(frame.mesh);
+  return { frame, mesh: frame.mesh, level: 0, iteration: 0, area, history: [[0, area]], refinedAt: [], converged: false };
+};
+
+/**
+ * One step of area gradient flow. The gradient of a triangle's area with
+ * respect to vertex a is ½ n̂ × (c − b); dividing the summed gradient by the
+ * vertex's share of area gives a step proportional to mean curvature (or, on
+ * a triple line, to the unbalanced pull of its three sheets). Each vertex
+ * steps by the square of its shortest edge, which keeps the explicit update
+ * stable on uneven meshes.
+ */
+export const relaxMesh = (mesh: FilmMesh, stepScale = 0.1): FilmMesh => {
+  const n = mesh.fixed.length;
+  const grad = new Float64Array(3 * n);
+  const share = new Float64Array(n);
+  const shortest = new Float64Array(n).fill(Infinity);
+  const { triangles } = mesh;
+  for (let t = 0; t < triangles.length; t += 3) {
+    const ids = [triangles[t], triangles[t + 1], triangles[t + 2]];
+    const [a, b, c] = ids.map((i) => vertexPosition(mesh, i));
+    const normal = cross(sub(b, a), sub(c, a));
+    const twice = norm(normal);
+    if (twice < 1e-14) continue;
+    const nHat = scale(normal, 1 / twice);
+    const opposite = [sub(c, b), sub(a, c), sub(b, a)];
+    ids.forEach((i, k) => {
+      const g = cross(nHat, opposite[k]);
+      grad[3 * i] += g[0] / 2;
+      grad[3 * i + 1] += g[1] / 2;
+      grad[3 * i + 2] += g[2] / 2;
+      share[i] += twice / 6;
+      // The two edges at vertex k are the ones opposite the other two vertices.
+      shortest[i] = Math.min(shortest[i], norm(opposite[(k + 1) % 3]), norm(opposite[(k + 2) % 3]));
+    });
+  }
+  const positions = Float64Array.from(mesh.positions);
+  for (let i = 0; i < n; i++) {
+    if (mesh.fixed[i] || share[i] === 0) continue;
+    const dt = stepScale * shortest[i] * shortest[i];
+    for (let k = 0; k < 3; k++) positions[3 * i + k] -= (dt * grad[3 * i + k]) / share[i];
+  }
+  return { ...mesh, positions };
+};
+
+/**
+ * Run `iterations` relaxation steps. Once the area stops changing the mesh is
+ * refined, until the frame's last level has converged too.
+ */
+export const advancePlateau = (state: PlateauState, iterations: number, tolerance = 1e-7): PlateauState => {
+  if (state.converged) return state;
+  let { mesh, level, iteration, area } = state;
+  const history = [...state.history];
+  const refinedAt = [...state.refinedAt];
+  let converged = false;
+  for (let k = 0; k < iterations; k++) {
+    mesh = relaxMesh(mesh);
+    iteration++;
+    if (iteration % HISTORY_EVERY !== 0) continue;
+    const next = meshArea(mesh);
+    history.push([iteration, next]);
+    const settled = Math.abs(area - next) / next < tolerance * HISTORY_EVERY;
+    area = next;
+    if (!settled) continue;
+    if (level >= state.frame.levels) {
+      converged = true;
+      break;
+    }
+    mesh = refineMesh(mesh, state.frame.snap);
+    level++;
+    refinedAt.push(iteration);
+  }
+  return { frame: state.frame, mesh, level, iteration, area: meshArea(mesh), history, refinedAt, converged };
+};
+
+// --- Plateau's laws, measured ---
+
+export interface TripleLineEdge {
+  a: number;
+  b: number;
+  /** Largest departure (degrees) of the three sheet angles from 120°. */
+  error: number;
+}
+
+export interface TetrahedralPoint {
+  index: number;
+  /** Mean of the six angles (degrees) between the four triple lines. */
+  angle: number;
+}
+
+/** Edges where three sheets meet, and the angles between the sheets there. */
+export const tripleLines = (mesh: FilmMesh): TripleLineEdge[] => {
+  const opposite = new Map<string, { a: number; b: number; others: number[] }>();
+  const { triangles } = mesh;
+  for (let t = 0; t < triangles.length; t += 3) {
+    for (let k = 0; k < 3; k++) {
+      const a = triangles[t + k];
+      const b = triangles[t + ((k + 1) % 3)];
+      const key = edgeKey(a, b);
+      const entry = opposite.get(key) ?? { a: Math.min(a, b), b: Math.max(a, b), others: [] };
+      entry.others.push(triangles[t + ((k + 2) % 3)]);
+      opposite.set(key, entry);
+    }
+  }
+  const result: TripleLineEdge[] = [];
+  opposite.forEach(({ a, b, others }) => {
+    if (others.length !== 3 || (mesh.fixed[a] && mesh.fixed[b])) return;
+    const pa = vertexPosition(mesh, a);
+    const e = unit(sub(vertexPosition(mesh, b), pa));
+    // Direction into each sheet, perpendicular to the edge.
+    const dirs = others.map((o) => {
+      const d = sub(vertexPosition(mesh, o), pa);
+      return unit(sub(d, scale(e, dot(d, e))));
+    });
+    const ref = dirs[0];
+    const side = cross(e, ref);
+    const angles = dirs.map((d) => {
+      const t = Math.atan2(dot(d, side), dot(d, ref));
+      return t < 0 ? t + 2 * Math.PI : t;
+    }).sort((x, y) => x - y);
+    const gaps = [angles[1] - angles[0], angles[2] - angles[1], 2 * Math.PI - angles[2] + angles[0]];
+    result.push({ a, b, error: Math.max(...gaps.map((g) => Math.abs((g * 180) / Math.PI - 120))) });
+  });
+  return result;
+};
+
+/** Free vertices where four triple lines meet. */
+export const tetrahedralPoints = (mesh: FilmMesh, lines: TripleLineEdge[] = tripleLines(mesh)): TetrahedralPoint[] => {
+  const incident = new Map<number, number[]>();
+  lines.forEach(({ a, b }) => {
+    incident.set(a, [...(incident.get(a) ?? []), b]);
+    incident.set(b, [...(incident.get(b) ?? []), a]);
+  });
+  const result: TetrahedralPoint[] = [];
+  incident.forEach((nbrs, i) => {
+    if (mesh.fixed[i] || nbrs.length !== 4) return;
+    const p = vertexPosition(mesh, i);
+    const dirs = nbrs.map((k) => unit(sub(vertexPosition(mesh, k), p)));
+    let sum = 0;
+    for (let x = 0; x < 4; x++) for (let y = x + 1; y < 4; y++) sum += Math.acos(Math.max(-1, Math.min(1, dot(dirs[x], dirs[y]))));
+    result.push({ index: i, angle: ((sum / 6) * 180) / Math.PI });
+  });
+  return result;
+};
+
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Time-stamped history of a simulation, sampled at a fixed interval of
+// simulated time. Used for charts and for jumping back to earlier moments.
+
+export interface Sample<T> {
+  time: number;
+  state: T;
+}
+
+export interface Recorder<T> {
+  samples: Sample<T>[];
+  /** Minimum simulated time between two stored samples. */
+  interval: number;
+  /** Oldest samples are dropped beyond this many. */
+  capacity: number;
+}
+
+export const createRecorder = <T>(interval: number, capacity = 5000): Recorder<T> => ({
+  samples: [],
+  interval,
+  capacity,
+});
+
+/** Append a sample if at least `interval` has passed since the last one (or `force` is set). */
+export const record = <T>(recorder: Recorder<T>, time: number, state: T, force = false): Recorder<T> => {
+  const last = recorder.samples[recorder.samples.length - 1];
+  if (last && !force && time - last.time < recorder.interval) return recorder;
+  const samples = [...recorder.samples, { time, state }];
+  if (samples.length > recorder.capacity) samples.splice(0, samples.length - recorder.capacity);
+  return { ...recorder, samples };
+};
+
+// Index of the latest sample at or before `time` (0 if `time` precedes them all).
+const indexAt = <T>(samples: Sample<T>[], time: number) => {
+  let lo = 0;
+  let hi = samples.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (samples[mid].time <= time) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+};
+
+/** Latest sample at or before `time`, or the first sample if `time` precedes it. */
+export const sampleAt = <T>(recorder: Recorder<T>, time: number): Sample<T> | undefined =>
+  recorder.samples.length ? recorder.samples[indexAt(recorder.samples, time)] : undefined;
+
+/** The sample `offset` places after (negative: before) the one at `time`, clamped to the recording. */
+export const sampleNear = <T>(recorder: Recorder<T>, time: number, offset: number): Sample<T> | undefined => {
+  const { samples } = recorder;
+  if (samples.length === 0) return undefined;
+  return samples[Math.max(0, Math.min(samples.length - 1, indexAt(samples, time) + offset))];
+};
+
+/** Drop every sample after `time`, so a run can resume from an earlier moment. */
+export const truncate = <T>(recorder: Recorder<T>, time: number): Recorder<T> => ({
+  ...recorder,
+  samples: recorder.samples.filter((s) => s.time <= time),
+});
+
+export const duration = <T>(recorder: Recorder<T>) =>
+  recorder.samples.length ? recorder.samples[recorder.samples.length - 1].time - recorder.samples[0].time : 0;
@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { exactSteinerTree, heuristicSteinerTree, minimumSpanningTree, type Point } from './steiner';
+import { exactSteinerLength, regularPolygon } from './validation';
+
+// Same layouts on every run: a small linear congruential generator.
+const randomLayouts = (count: number, seed = 2024) => {
+  let state = seed;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+  return Array.from({ length: count }, (_, k): Point[] =>
+    Array.from({ length: 4 + (k % 3) }, () => ({ x: 10 * random(), y: 8 * random() })));
+};
+
+describe('exact Steiner trees', () => {
+  it.each([3, 4, 6])('matches the closed form for the regular %i-gon', (n) => {
+    expect(exactSteinerTree(regularPolygon(n, 1)).length).toBeCloseTo(exactSteinerLength(n, 1)!, 6);
+  });
+
+  it('is never longer than the minimum spanning tree', () => {
+    [5, 6].forEach((n) => {
+      const points = regularPolygon(n, 1);
+      expect(exactSteinerTree(points).length).toBeLessThanOrEqual(minimumSpanningTree(points).length);
+    });
+  });
+
+  it('is never longer than the greedy heuristic on random layouts', () => {
+    randomLayouts(60).forEach((points) => {
+      const heuristic = heuristicSteinerTree(points).length;
+      expect(exactSteinerTree(points).length).toBeLessThanOrEqual(heuristic * (1 + 1e-9));
+    });
+  });
+});
@@ -0,0 +1,352 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Euclidean Steiner minimal trees: the networks a soap film forms between pins.
+//
+// Small inputs are solved exactly by enumerating every full Steiner topology
+// and relaxing its Steiner points to their optimal positions (Smith's method).
+// Degenerate solutions, where a Steiner point slides onto a terminal or
+// another Steiner point, stand in for the non-full topologies, so the minimum
+// over full topologies is the Steiner minimal tree. Larger inputs use a
+// heuristic: start from the minimum spanning tree and insert Steiner points
+// wherever two edges meet at less than 120°.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Network {
+  /** Terminals first (same order as the input), then Steiner points. */
+  nodes: Point[];
+  edges: [number, number][];
+  terminalCount: number;
+  length: number;
+}
+
+/** Largest input solved exactly; (2n−5)!! topologies grow quickly past this. */
+export const EXACT_LIMIT = 6;
+
+const RELAX_ITERATIONS = 300;
+// The exact solver relaxes in chunks so that it can drop a topology early.
+const EXACT_RELAX_ITERATIONS = 3000;
+const EXACT_RELAX_CHUNK = 25;
+
+export const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export const networkLength = (nodes: Point[], edges: [number, number][]) =>
+  edges.reduce((sum, [i, j]) => sum + distance(nodes[i], nodes[j]), 0);
+
+const makeNetwork = (nodes: Point[], edges: [number, number][], terminalCount: number): Network => ({
+  nodes,
+  edges,
+  terminalCount,
+  length: networkLength(nodes, edges),
+});
+
+/** Prim's algorithm over the complete graph of terminals. */
+export const minimumSpanningTree = (points: Point[]): Network => {
+  const n = points.length;
+  const edges: [number, number][] = [];
+  if (n < 2) return makeNetwork(points, edges, n);
+  const inTree = new Array(n).fill(false);
+  const best = new Array(n).fill(Infinity);
+  const from = new Array(n).fill(-1);
+  best[0] = 0;
+  for (let k = 0; k < n; k++) {
+    let u = -1;
+    for (let i = 0; i < n; i++) if (!inTree[i] && (u < 0 || best[i] < best[u])) u = i;
+    inTree[u] = true;
+    if (from[u] >= 0) edges.push([from[u], u]);
+    for (let v = 0; v < n; v++) {
+      const d = distance(points[u], points[v]);
+      if (!inTree[v] && d < best[v]) {
+        best[v] = d;
+        from[v] = u;
+      }
+    }
+  }
+  return makeNetwork(points, edges, n);
+};
+
+export const centroid = (points: Point[]): Point => ({
+  x: points.reduce((s, p) => s + p.x, 0) / Math.max(1, points.length),
+  y: points.reduce((s, p) => s + p.y, 0) / Math.max(1, points.length),
+});
+
+/** Every terminal joined straight to the centroid. */
+export const starFromCentroid = (points: Point[]): Network => {
+  const nodes = [...points, centroid(points)];
+  return makeNetwork(nodes, points.map((_, i) => [i, points.length] as [number, number]), points.length);
+};
+
+/**
+ * Move every Steiner point towards the weighted median of its neighbours
+ * (Weiszfeld iteration, Gauss–Seidel order). Terminals stay fixed. Plain
+ * Weiszfeld only creeps towards an optimum that lies on a terminal, so each
+ * step first checks whether sitting on a neighbouring terminal is already
+ * optimal: it is when the unit pulls of the other neighbours, seen from the
+ * terminal, add up to no more than the one edge that vanishes there.
+ */
+export const relaxSteinerPoints = (
+  nodes: Point[],
+  edges: [number, number][],
+  terminalCount: number,
+  iterations = RELAX_ITERATIONS,
+): Point[] => {
+  const pts = nodes.map((p) => ({ ...p }));
+  const adjacency: number[][] = pts.map(() => []);
+  edges.forEach(([i, j]) => {
+    adjacency[i].push(j);
+    adjacency[j].push(i);
+  });
+  const scale = Math.max(1e-9, ...edges.map(([i, j]) => distance(nodes[i], nodes[j])));
+  const eps = scale * 1e-9;
+  const restsOn = (s: number, t: number) => {
+    let px = 0;
+    let py = 0;
+    adjacency[s].forEach((k) => {
+      const d = distance(pts[k], pts[t]);
+      if (k === t || d < eps) return;
+      px += (pts[k].x - pts[t].x) / d;
+      py += (pts[k].y - pts[t].y) / d;
+    });
+    return Math.hypot(px, py) <= 1;
+  };
+  for (let it = 0; it < iterations; it++) {
+    let moved = 0;
+    for (let s = terminalCount; s < pts.length; s++) {
+      const terminal = adjacency[s].find((k) => k < terminalCount && restsOn(s, k));
+      let next: Point;
+      if (terminal != null) {
+        next = { ...pts[terminal] };
+      } else {
+        let wx = 0;
+        let wy = 0;
+        let w = 0;
+        // A neighbour it sits on has no direction to pull in; leave it out,
+        // or its infinite weight would hold the point there for good.
+        adjacency[s].forEach((k) => {
+          const d = distance(pts[s], pts[k]);
+          if (d < eps) return;
+          wx += pts[k].x / d;
+          wy += pts[k].y / d;
+          w += 1 / d;
+        });
+        if (w === 0) continue;
+        next = { x: wx / w, y: wy / w };
+      }
+      moved = Math.max(moved, distance(next, pts[s]));
+      pts[s] = next;
+    }
+    if (moved < scale * 1e-7) break;
+  }
+  return pts;
+};
+
+/** Every full Steiner topology on n terminals; Steiner points are numbered n, n+1, … */
+export const fullTopologies = (n: number): [number, number][][] => {
+  if (n < 3) return n === 2 ? [[[0, 1]]] : [[]];
+  let trees: [number, number][][] = [[[0, n], [1, n], [2, n]]];
+  for (let k = 3; k < n; k++) {
+    const steiner = n + (k - 2);
+    const next: [number, number][][] = [];
+    trees.forEach((tree) => {
+      tree.forEach(([u, v], e) => {
+        const edges = tree.filter((_, i) => i !== e);
+        edges.push([u, steiner], [v, steiner], [k, steiner]);
+        next.push(edges);
+      });
+    });
+    trees = next;
+  }
+  return trees;
+};
+
+/**
+ * Initial Steiner positions: each Steiner point starts at the mean of the
+ * centroids of the terminals down its three branches. Seeds must differ,
+ * since Steiner points that start on top of each other never separate.
+ */
+const seedPositions = (points: Point[], edges: [number, number][]): Point[] => {
+  const n = points.length;
+  const adjacency: number[][] = Array.from({ length: 2 * n - 2 }, () => []);
+  edges.forEach(([a, b]) => {
+    adjacency[a].push(b);
+    adjacency[b].push(a);
+  });
+  const branchCentroid = (from: number, start: number) => {
+    const found: Point[] = [];
+    const stack = [[start, from]];
+    while (stack.length) {
+      const [v, parent] = stack.pop()!;
+      if (v < n) found.push(points[v]);
+      else adjacency[v].forEach((w) => w !== parent && stack.push([w, v]));
+    }
+    return centroid(found);
+  };
+  const nodes: Point[] = [...points];
+  for (let s = n; s < 2 * n - 2; s++) nodes[s] = centroid(adjacency[s].map((k) => branchCentroid(s, k)));
+  return nodes;
+};
+
+/**
+ * Drop zero-length edges: Steiner points that collapsed onto a terminal or
+ * onto each other are merged, and Steiner points of degree < 3 are removed.
+ */
+export const simplifyNetwork = (network: Network): Network => {
+  const { nodes, terminalCount } = network;
+  const scale = Math.max(1e-9, ...network.edges.map(([i, j]) => distance(nodes[i], nodes[j])));
+  const tol = scale * 1e-4;
+  const parent = nodes.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  network.edges.forEach(([i, j]) => {
+    if (distance(nodes[i], nodes[j]) > tol) return;
+    const a = find(i);
+    const b = find(j);
+    if (a === b) return;
+    // Keep the terminal (lower index) as the representative.
+    if (a < b) parent[b] = a;
+    else parent[a] = b;
+  });
+
+  let edges: [number, number][] = [];
+  network.edges.forEach(([i, j]) => {
+    const a = find(i);
+    const b = find(j);
+    if (a !== b && !edges.some(([x, y]) => (x === a && y === b) || (x === b && y === a))) edges.push([a, b]);
+  });
+
+  // Splice out Steiner points left with two edges (they lie on a straight line).
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let s = terminalCount; s < nodes.length; s++) {
+      const incident = edges.filter(([a, b]) => a === s || b === s);
+      if (incident.length === 0 || incident.length > 2) continue;
+      edges = edges.filter(([a, b]) => a !== s && b !== s);
+      if (incident.length === 2) {
+        const [p, q] = incident.map(([a, b]) => (a === s ? b : a));
+        edges.push([p, q]);
+      }
+      changed = true;
+    }
+  }
+
+  const used = new Set<number>();
+  edges.forEach(([a, b]) => {
+    used.add(a);
+    used.add(b);
+  });
+  const remap = new Map<number, number>();
+  const kept: Point[] = [];
+  nodes.forEach((p, i) => {
+    if (i < terminalCount || used.has(i)) {
+      remap.set(i, kept.length);
+      kept.push(p);
+    }
+  });
+  return makeNetwork(kept, edges.map(([a, b]) => [remap.get(a)!, remap.get(b)!]), terminalCount);
+};
+
+/**
+ * Relax one full topology until its Steiner points stop moving. Two Steiner
+ * points that run into each other make a four-way junction, and pairing its
+ * four neighbours the other way round is another topology that is at least as
+ * short; so a topology is dropped as soon as that happens instead of being
+ * left to creep the rest of the way.
+ */
+const relaxTopology = (points: Point[], edges: [number, number][]): Network => {
+  const n = points.length;
+  let nodes = seedPositions(points, edges);
+  const scale = Math.max(...edges.map(([i, j]) => distance(nodes[i], nodes[j])));
+  for (let done = 0; done < EXACT_RELAX_ITERATIONS; done += EXACT_RELAX_CHUNK) {
+    const next = relaxSteinerPoints(nodes, edges, n, EXACT_RELAX_CHUNK);
+    const moved = Math.max(...next.slice(n).map((p, k) => distance(p, nodes[n + k])));
+    nodes = next;
+    if (moved < scale * 1e-9) break;
+    if (edges.some(([a, b]) => a >= n && b >= n && distance(nodes[a], nodes[b]) < scale * 1e-3)) break;
+  }
+  return makeNetwork(nodes, edges, n);
+};
+
+/**
+ * Steiner minimal tree for up to EXACT_LIMIT terminals: the shortest of every
+ * full topology relaxed to convergence. A Steiner point whose optimum is a
+ * terminal is put there by relaxSteinerPoints; where every junction of the
+ * answer sits on a terminal at exactly 120° (the regular hexagon) the
+ * relaxation only creeps, so the spanning tree is taken if it is as short.
+ */
+export const exactSteinerTree = (points: Point[]): Network => {
+  if (points.length < 3) return minimumSpanningTree(points);
+  const best = fullTopologies(points.length)
+    .map((edges) => relaxTopology(points, edges))
+    .reduce((a, b) => (b.length < a.length ? b : a));
+  const mst = minimumSpanningTree(points);
+  return mst.length <= best.length ? mst : simplifyNetwork(best);
+};
+
+const angleAt = (v: Point, a: Point, b: Point) => {
+  const ax = a.x - v.x;
+  const ay = a.y - v.y;
+  const bx = b.x - v.x;
+  const by = b.y - v.y;
+  return Math.acos(Math.max(-1, Math.min(1, (ax * bx + ay * by) / (Math.hypot(ax, ay) * Math.hypot(bx, by) || 1))));
+};
+
+/**
+ * MST plus greedy Steiner insertion: wherever two edges meet at a node at
+ * less than 120°, try joining the three nodes through a new Steiner point and
+ * keep the change if the relaxed tree is shorter.
+ */
+export const heuristicSteinerTree = (points: Point[], maxRounds = 4 * points.length): Network => {
+  let current = minimumSpanningTree(points);
+  for (let round = 0; round < maxRounds; round++) {
+    let improved = false;
+    for (let v = 0; v < current.nodes.length && !improved; v++) {
+      const incident = current.edges
+        .map((e, idx) => ({ e, idx, other: e[0] === v ? e[1] : e[0] }))
+        .filter(({ e }) => e[0] === v || e[1] === v);
+      for (let i = 0; i < incident.length && !improved; i++) {
+        for (let j = i + 1; j < incident.length && !improved; j++) {
+          const a = incident[i];
+          const b = incident[j];
+          if (angleAt(current.nodes[v], current.nodes[a.other], current.nodes[b.other]) >= (2 * Math.PI) / 3 - 1e-6) continue;
+          const s = current.nodes.length;
+          const nodes = [...current.nodes, centroid([current.nodes[v], current.nodes[a.other], current.nodes[b.other]])];
+          const edges = current.edges.filter((_, k) => k !== a.idx && k !== b.idx);
+          edges.push([v, s], [a.other, s], [b.other, s]);
+          const relaxed = relaxSteinerPoints(nodes, edges, current.terminalCount);
+          const candidate = makeNetwork(relaxed, edges, current.terminalCount);
+          if (candidate.length < current.length - 1e-9 * current.length) {
+            current = simplifyNetwork(candidate);
+            improved = true;
+          }
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return current;
+};
+
+export const steinerTree = (points: Point[]): Network & { exact: boolean } => {
+  const exact = points.length <= EXACT_LIMIT;
+  return { ...(exact ? exactSteinerTree(points) : heuristicSteinerTree(points)), exact };
+};
+
+/** Angles (radians) between consecutive edges around node `i`, in order. */
+export const junctionAngles = (network: Network, i: number) => {
+  const p = network.nodes[i];
+  const dirs = network.edges
+    .filter(([a, b]) => a === i || b === i)
+    .map(([a, b]) => network.nodes[a === i ? b : a])
+    .map((q) => Math.atan2(q.y - p.y, q.x - p.x))
+    .sort((a, b) => a - b);
+  return dirs.map((d, k) => {
+    const next = k + 1 < dirs.length ? dirs[k + 1] : dirs[0] + 2 * Math.PI;
+    return { from: d, to: next, angle: next - d };
+  });
+};
@@ -0,0 +1,269 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Free-floating bubbles for the landing page. Each bubble is carried by a
+// slowly varying breeze (drag relaxes its velocity towards the local wind),
+// pushed apart by a soft spring when two overlap, and merged when they
+// press together hard enough. A merge keeps the total enclosed volume, so
+// the new radius is the cube root of the summed cubes. Bubbles pop when
+// their lifetime runs out or when clicked, leaving a short burst of
+// droplets that fall under gravity.
+
+export type Vec3 = [number, number, number];
+
+export interface SwarmBubble {
+  id: number;
+  position: Vec3;
+  velocity: Vec3;
+  radius: number;
+  age: number;
+  lifetime: number;
+  /** Surface wobble amplitude, kicked by collisions and merges, decays over time. */
+  wobble: number;
+}
+
+export interface Droplet {
+  position: Vec3;
+  velocity: Vec3;
+  age: number;
+}
+
+export interface SwarmParams {
+  maxBubbles: number;
+  maxDroplets: number;
+  /** Half-extents of the visible box in x and y; bubbles live between zMin and zMax. */
+  halfWidth: number;
+  halfHeight: number;
+  zMin: number;
+  zMax: number;
+  minRadius: number;
+  maxRadius: number;
+  minLifetime: number;
+  maxLifetime: number;
+  /** Mean wind speed along +x and the amplitude of its swirls. */
+  breeze: number;
+  gust: number;
+  drag: number;
+  /** Spring constant of the soft contact between overlapping bubbles. */
+  stiffness: number;
+  /** Closing speed, or overlap as a fraction of the smaller radius, above which two bubbles merge. */
+  mergeSpeed: number;
+  mergeOverlap: number;
+  spawnInterval: number;
+  dropletsPerPop: number;
+  dropletLifetime: number;
+  gravity: number;
+}
+
+export interface SwarmState {
+  bubbles: SwarmBubble[];
+  droplets: Droplet[];
+  time: number;
+  nextId: number;
+  spawnTimer: number;
+  merges: number;
+  pops: number;
+}
+
+export const DEFAULT_SWARM: SwarmParams = {
+  maxBubbles: 9,
+  maxDroplets: 160,
+  halfWidth: 6.5,
+  halfHeight: 3.5,
+  zMin: -5,
+  zMax: 0.5,
+  minRadius: 0.45,
+  maxRadius: 1.3,
+  minLifetime: 14,
+  maxLifetime: 30,
+  breeze: 0.6,
+  gust: 0.25,
+  drag: 1.2,
+  stiffness: 6,
+  mergeSpeed: 0.45,
+  mergeOverlap: 0.35,
+  spawnInterval: 2,
+  dropletsPerPop: 18,
+  dropletLifetime: 0.8,
+  gravity: 6,
+};
+
+type Random = () => number;
+
+const between = (random: Random, lo: number, hi: number) => lo + (hi - lo) * random();
+
+const volume = (b: SwarmBubble) => b.radius * b.radius * b.radius;
+
+/** Wind velocity at a point: a steady drift to +x with slow swirls on top. */
+export const breezeAt = (p: Vec3, time: number, params: SwarmParams = DEFAULT_SWARM): Vec3 => [
+  params.breeze + params.gust * Math.sin(0.45 * p[1] + 0.3 * time),
+  params.gust * Math.cos(0.35 * p[0] - 0.25 * time) + 0.05,
+  0.4 * params.gust * Math.sin(0.3 * p[0] + 0.2 * p[1] + 0.15 * time),
+];
+
+const newBubble = (state: SwarmState, position: Vec3, velocity: Vec3, params: SwarmParams, random: Random): SwarmBubble => ({
+  id: state.nextId++,
+  position,
+  velocity,
+  radius: between(random, params.minRadius, params.maxRadius),
+  age: 0,
+  lifetime: between(random, params.minLifetime, params.maxLifetime),
+  wobble: 0.5,
+});
+
+/** A bubble blown in from just beyond the windward (left) edge. */
+const spawnBubble = (state: SwarmState, params: SwarmParams, random: Random) => {
+  const bubble = newBubble(
+    state,
+    [0, between(random, -0.8, 0.8) * params.halfHeight, between(random, params.zMin, params.zMax)],
+    [between(random, 0.8, 1.4), between(random, -0.2, 0.2), 0],
+    params,
+    random,
+  );
+  bubble.position[0] = -params.halfWidth - bubble.radius;
+  state.bubbles.push(bubble);
+};
+
+/** A swarm already spread over the view so the page does not open empty. */
+export const createSwarm = (count = 6, params: SwarmParams = DEFAULT_SWARM, random: Random = Math.random): SwarmState => {
+  const state: SwarmState = { bubbles: [], droplets: [], time: 0, nextId: 0, spawnTimer: params.spawnInterval, merges: 0, pops: 0 };
+  for (let attempt = 0; state.bubbles.length < Math.min(count, params.maxBubbles) && attempt < 200; attempt++) {
+    const b = newBubble(
+      state,
+      [between(random, -0.8, 0.8) * params.halfWidth, between(random, -0.7, 0.7) * params.halfHeight, between(random, params.zMin, params.zMax)],
+      [0, 0, 0],
+      params,
+      random,
+    );
+    b.age = between(random, 0, 0.5) * b.lifetime;
+    const clear = state.bubbles.every((o) => Math.hypot(o.position[0] - b.position[0], o.position[1] - b.position[1], o.position[2] - b.position[2]) > o.radius + b.radius);
+    if (clear) state.bubbles.push(b);
+  }
+  return state;
+};
+
+const burst = (state: SwarmState, b: SwarmBubble, params: SwarmParams, random: Random) => {
+  for (let k = 0; k < params.dropletsPerPop; k++) {
+    // Uniform direction on the sphere.
+    const z = between(random, -1, 1);
+    const phi = between(random, 0, 2 * Math.PI);
+    const s = Math.sqrt(1 - z * z);
+    const dir: Vec3 = [s * Math.cos(phi), s * Math.sin(phi), z];
+    const speed = between(random, 1.5, 3.5);
+    state.droplets.push({
+      position: [b.position[0] + dir[0] * b.radius, b.position[1] + dir[1] * b.radius, b.position[2] + dir[2] * b.radius],
+      velocity: [b.velocity[0] + dir[0] * speed, b.velocity[1] + dir[1] * speed, b.velocity[2] + dir[2] * speed],
+      age: 0,
+    });
+  }
+  if (state.droplets.length > params.maxDroplets) state.droplets.splice(0, state.droplets.length - params.maxDroplets);
+  state.pops++;
+};
+
+/** Remove a bubble and replace it with a burst of droplets. */
+export const popBubble = (state: SwarmState, id: number, params: SwarmParams = DEFAULT_SWARM, random: Random = Math.random): SwarmState => {
+  const next: SwarmState = { ...state, bubbles: [...state.bubbles], droplets: [...state.droplets] };
+  const index = next.bubbles.findIndex((b) => b.id === id);
+  if (index < 0) return state;
+  const [b] = next.bubbles.splice(index, 1);
+  burst(next, b, params, random);
+  return next;
+};
+
+/** Merge b into a, conserving volume and momentum (mass ∝ volume). */
+const merge = (a: SwarmBubble, b: SwarmBubble) => {
+  const va = volume(a);
+  const vb = volume(b);
+  const w = vb / (va + vb);
+  for (let k = 0; k < 3; k++) {
+    a.position[k] += (b.position[k] - a.position[k]) * w;
+    a.velocity[k] += (b.velocity[k] - a.velocity[k]) * w;
+  }
+  a.radius = Math.cbrt(va + vb);
+  a.lifetime = a.age + Math.max(a.lifetime - a.age, b.lifetime - b.age);
+  a.wobble = 1;
+};
+
+/** Advance the swarm by dt seconds. */
+export const stepSwarm = (state: SwarmState, dt: number, params: SwarmParams = DEFAULT_SWARM, random: Random = Math.random): SwarmState => {
+  const next: SwarmState = {
+    ...state,
+    bubbles: state.bubbles.map((b) => ({ ...b, position: [...b.position] as Vec3, velocity: [...b.velocity] as Vec3 })),
+    droplets: [],
+    time: state.time + dt,
+  };
+  const { bubbles } = next;
+
+  // Breeze drag and soft walls in y and z (x is open: the wind carries bubbles across).
+  bubbles.forEach((b) => {
+    const wind = breezeAt(b.position, next.time, params);
+    for (let k = 0; k < 3; k++) b.velocity[k] += (wind[k] - b.velocity[k]) * Math.min(1, params.drag * dt);
+    const top = params.halfHeight - b.radius;
+    if (b.position[1] > top) b.velocity[1] -= params.stiffness * (b.position[1] - top) * dt;
+    if (b.position[1] < -top) b.velocity[1] += params.stiffness * (-top - b.position[1]) * dt;
+    if (b.position[2] > params.zMax) b.velocity[2] -= params.stiffness * (b.position[2] - params.zMax) * dt;
+    if (b.position[2] < params.zMin) b.velocity[2] += params.stiffness * (params.zMin - b.position[2]) * dt;
+  });
+
+  // Contacts: a soft spring for gentle touches, a merge for hard ones.
+  const merged = new Set<number>();
+  for (let i = 0; i < bubbles.length; i++) {
+    for (let j = i + 1; j < bubbles.length; j++) {
+      const a = bubbles[i];
+      const b = bubbles[j];
+      if (merged.has(a.id) || merged.has(b.id)) continue;
+      const d: Vec3 = [b.position[0] - a.position[0], b.position[1] - a.position[1], b.position[2] - a.position[2]];
+      const dist = Math.hypot(d[0], d[1], d[2]) || 1e-6;
+      const overlap = a.radius + b.radius - dist;
+      if (overlap <= 0) continue;
+      const n: Vec3 = [d[0] / dist, d[1] / dist, d[2] / dist];
+      const closing = (a.velocity[0] - b.velocity[0]) * n[0] + (a.velocity[1] - b.velocity[1]) * n[1] + (a.velocity[2] - b.velocity[2]) * n[2];
+      if (closing > params.mergeSpeed || overlap > params.mergeOverlap * Math.min(a.radius, b.radius)) {
+        merge(a, b);
+        merged.add(b.id);
+        next.merges++;
+        continue;
+      }
+      // Lighter bubbles give way more.
+      const va = volume(a);
+      const vb = volume(b);
+      const impulse = params.stiffness * overlap * dt;
+      for (let k = 0; k < 3; k++) {
+        a.velocity[k] -= n[k] * impulse * (vb / (va + vb));
+        b.velocity[k] += n[k] * impulse * (va / (va + vb));
+      }
+      a.wobble = Math.max(a.wobble, 0.4);
+      b.wobble = Math.max(b.wobble, 0.4);
+    }
+  }
+
+  const survivors: SwarmBubble[] = [];
+  state.droplets.forEach((d) => {
+    const age = d.age + dt;
+    if (age > params.dropletLifetime) return;
+    next.droplets.push({
+      position: [d.position[0] + d.velocity[0] * dt, d.position[1] + d.velocity[1] * dt, d.position[2] + d.velocity[2] * dt],
+      velocity: [d.velocity[0], d.velocity[1] - params.gravity * dt, d.velocity[2]],
+      age,
+    });
+  });
+  bubbles.forEach((b) => {
+    if (merged.has(b.id)) return;
+    for (let k = 0; k < 3; k++) b.position[k] += b.velocity[k] * dt;
+    b.age += dt;
+    b.wobble *= Math.exp(-1.5 * dt);
+    if (b.age > b.lifetime) burst(next, b, params, random);
+    // Drifted out past the leeward edge: gone without a pop.
+    else if (b.position[0] < params.halfWidth + 2 * b.radius) survivors.push(b);
+  });
+  next.bubbles = survivors;
+
+  next.spawnTimer -= dt;
+  if (next.spawnTimer <= 0) {
+    if (next.bubbles.length < params.maxBubbles) spawnBubble(next, params, random);
+    next.spawnTimer = params.spawnInterval * between(random, 0.6, 1.4);
+  }
+  return next;
+};
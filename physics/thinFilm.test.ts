@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { filmColor, type FilmParams } from './thinFilm';
+
+const film = (overrides: Partial<FilmParams>): FilmParams => ({
+  thickness: 300,
+  refractiveIndex: 1.33,
+  angle: 0,
+  polarization: 'unpolarized',
+  ...overrides,
+});
+
+const brightness = ([r, g, b]: number[]) => r + g + b;
+
+describe('film colour', () => {
+  it('dims p-polarised light near Brewster’s angle', () => {
+    const headOn = filmColor(film({}));
+    const oblique = filmColor(film({ angle: 53, polarization: 'p' }));
+    expect(brightness(oblique)).toBeLessThan(brightness(headOn) / 10);
+  });
+
+  it('stays finite at exactly Brewster’s angle', () => {
+    const brewster = (Math.atan(1.33) * 180) / Math.PI;
+    filmColor(film({ angle: brewster, polarization: 'p' })).forEach((c) => expect(Number.isFinite(c)).toBe(true));
+  });
+
+  it('renders a film that reflects nothing as black', () => {
+    expect(filmColor(film({ refractiveIndex: 1 }))).toEqual([0, 0, 0]);
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Thin-film interference colour of a soap film in air.
+//
+// Reflectance comes from the Airy sum over the two film surfaces (Fresnel
+// coefficients, any angle and polarization). The spectrum is weighted by an
+// illuminant, integrated against the CIE 1931 2° colour matching functions and
+// converted to sRGB.
+
+export type Polarization = 's' | 'p' | 'unpolarized';
+export type IlluminantId = 'D65' | 'A' | 'E';
+
+export interface FilmParams {
+  /** Physical film thickness d, nm. */
+  thickness: number;
+  /** Refractive index of the film (soapy water ≈ 1.33). */
+  refractiveIndex: number;
+  /** Angle of incidence in air, degrees from the normal. */
+  angle: number;
+  polarization: Polarization;
+}
+
+export interface ColorOptions {
+  illuminant: IlluminantId;
+  /** Integration step over the visible range, nm. */
+  step: number;
+}
+
+export type RGB = [number, number, number];
+
+export const DEFAULT_FILM: FilmParams = {
+  thickness: 400,
+  refractiveIndex: 1.33,
+  angle: 0,
+  polarization: 'unpolarized',
+};
+
+export const DEFAULT_COLOR_OPTIONS: ColorOptions = { illuminant: 'D65', step: 5 };
+
+export const VISIBLE_MIN = 380;
+export const VISIBLE_MAX = 780;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/** Refraction angle inside the film (Snell's law, from air). Returns cos θt. */
+export const cosRefracted = (angleDeg: number, n: number) => {
+  const sinT = Math.sin(toRad(angleDeg)) / n;
+  return Math.sqrt(1 - sinT * sinT);
+};
+
+/**
+ * Fresnel amplitude coefficient for air → film. It is negative at normal
+ * incidence: the reflection off the front (denser) surface carries the
+ * half-wave phase shift, while the back surface (film → air) uses −r and
+ * carries none.
+ */
+export const fresnelAmplitude = (angleDeg: number, n: number, polarization: 's' | 'p') => {
+  const ci = Math.cos(toRad(angleDeg));
+  const ct = cosRefracted(angleDeg, n);
+  return polarization === 's' ? (ci - n * ct) / (ci + n * ct) : (n * ci - ct) / (n * ci + ct);
+};
+
+/** Optical path difference between the two reflected rays, 2·n·d·cos θt (nm). */
+export const opticalPathDifference = (film: Pick<FilmParams, 'thickness' | 'refractiveIndex' | 'angle'>) =>
+  2 * film.refractiveIndex * film.thickness * cosRefracted(film.angle, film.refractiveIndex);
+
+const airyReflectance = (r: number, delta: number) => {
+  const r2 = r * r;
+  const c = Math.cos(delta);
+  return (2 * r2 * (1 - c)) / (1 + r2 * r2 - 2 * r2 * c);
+};
+
+/** Reflectance (0–1) of the film at one wavelength (nm). */
+export const filmReflectance = (wavelength: number, film: FilmParams) => {
+  const delta = (2 * Math.PI * opticalPathDifference(film)) / wavelength;
+  const rs = airyReflectance(fresnelAmplitude(film.angle, film.refractiveIndex, 's'), delta);
+  if (film.polarization === 's') return rs;
+  const rp = airyReflectance(fresnelAmplitude(film.angle, film.refractiveIndex, 'p'), delta);
+  if (film.polarization === 'p') return rp;
+  return (rs + rp) / 2;
+};
+
+/** Highest reflectance the film can reach at any thickness, 4R₀/(1+R₀)². */
+export const peakReflectance = (film: FilmParams) => {
+  const peak = (pol: 's' | 'p') => {
+    const r = fresnelAmplitude(film.angle, film.refractiveIndex, pol);
+    return (4 * r * r) / Math.pow(1 + r * r, 2);
+  };
+  if (film.polarization !== 'unpolarized') return peak(film.polarization);
+  return (peak('s') + peak('p')) / 2;
+};
+
+export const reflectanceSpectrum = (film: FilmParams, step = 5): [number, number][] => {
+  const out: [number, number][] = [];
+  for (let l = VISIBLE_MIN; l <= VISIBLE_MAX; l += step) out.push([l, filmReflectance(l, film)]);
+  return out;
+};
+
+/** Reflectance averaged over the visible band, 0…1. */
+export const meanReflectance = (film: FilmParams, step = 5) => {
+  const spectrum = reflectanceSpectrum(film, step);
+  return spectrum.reduce((sum, [, r]) => sum + r, 0) / spectrum.length;
+};
+
+/**
+ * Wavelengths (nm, visible only) reinforced or cancelled at this thickness.
+ * Reflected rays interfere constructively when OPD = (m + ½)λ, because of the
+ * front-surface half-wave shift, and destructively when OPD = mλ.
+ */
+export const interferenceOrders = (film: FilmParams) => {
+  const opd = opticalPathDifference(film);
+  const constructive: { order: number; wavelength: number }[] = [];
+  const destructive: { order: number; wavelength: number }[] = [];
+  for (let m = 0; m < 50; m++) {
+    const lc = opd / (m + 0.5);
+    if (lc >= VISIBLE_MIN && lc <= VISIBLE_MAX) constructive.push({ order: m, wavelength: lc });
+    const ld = m > 0 ? opd / m : Infinity;
+    if (ld >= VISIBLE_MIN && ld <= VISIBLE_MAX) destructive.push({ order: m, wavelength: ld });
+    if (lc < VISIBLE_MIN) break;
+  }
+  return { constructive, destructive };
+};
+
+// --- Colorimetry ---
+
+// Multi-lobe fit of the CIE 1931 2° observer (Wyman, Sloan & Shirley 2013),
+// within a percent or so of the tabulated functions across the visible range.
+const lobe = (l: number, mu: number, s1: number, s2: number) => {
+  const t = (l - mu) / (l < mu ? s1 : s2);
+  return Math.exp(-0.5 * t * t);
+};
+
+export const cieXYZ = (l: number): [number, number, number] => [
+  1.056 * lobe(l, 599.8, 37.9, 31.0) + 0.362 * lobe(l, 442.0, 16.0, 26.7) - 0.065 * lobe(l, 501.1, 20.4, 26.2),
+  0.821 * lobe(l, 568.8, 46.9, 40.5) + 0.286 * lobe(l, 530.9, 16.3, 31.1),
+  1.217 * lobe(l, 437.0, 11.8, 36.0) + 0.681 * lobe(l, 459.0, 26.0, 13.8),
+];
+
+// CIE standard illuminant D65, relative spectral power, 380–780 nm every 10 nm.
+const D65 = [
+  49.98, 54.65, 82.75, 91.49, 93.43, 86.68, 104.86, 117.01, 117.81, 114.86, 115.92, 108.81, 109.35, 107.8, 104.79,
+  107.69, 104.41, 104.05, 100.0, 96.33, 95.79, 88.69, 90.01, 89.6, 87.7, 83.29, 83.7, 80.03, 80.21, 82.28, 78.28,
+  69.72, 71.61, 74.35, 61.6, 69.89, 75.09, 63.59, 46.42, 66.81, 63.38,
+];
+
+/** Relative spectral power of an illuminant at wavelength `l` (nm). */
+export const illuminantPower = (id: IlluminantId, l: number) => {
+  if (id === 'E') return 100;
+  if (id === 'A') {
+    // Incandescent: Planck radiator at 2856 K, normalised to 100 at 560 nm.
+    const planck = (x: number) => Math.pow(x, -5) / (Math.exp(1.4388e7 / (2856 * x)) - 1);
+    return (100 * planck(l)) / planck(560);
+  }
+  const i = Math.min(D65.length - 2, Math.max(0, Math.floor((l - VISIBLE_MIN) / 10)));
+  const f = Math.min(1, Math.max(0, (l - VISIBLE_MIN) / 10 - i));
+  return D65[i] * (1 - f) + D65[i + 1] * f;
+};
+
+export const ILLUMINANTS: { id: IlluminantId; name: string }[] = [
+  { id: 'D65', name: 'Daylight (D65)' },
+  { id: 'A', name: 'Incandescent (A)' },
+  { id: 'E', name: 'Equal energy (E)' },
+];
+
+/** XYZ of a reflectance spectrum under an illuminant; a perfect white reflector has Y = 1. */
+export const spectrumToXYZ = (
+  reflectance: (l: number) => number,
+  options: ColorOptions = DEFAULT_COLOR_OPTIONS,
+): [number, number, number] => {
+  let X = 0;
+  let Y = 0;
+  let Z = 0;
+  let norm = 0;
+  for (let l = VISIBLE_MIN; l <= VISIBLE_MAX; l += options.step) {
+    const s = illuminantPower(options.illuminant, l);
+    const [x, y, z] = cieXYZ(l);
+    const r = reflectance(l);
+    X += r * s * x;
+    Y += r * s * y;
+    Z += r * s * z;
+    norm += s * y;
+  }
+  return [X / norm, Y / norm, Z / norm];
+};
+
+const gammaEncode = (c: number) => (c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055);
+
+/** XYZ → 8-bit sRGB, clipping out-of-gamut values. */
+export const xyzToSRGB = ([X, Y, Z]: [number, number, number]): RGB => {
+  const lin = [
+    3.2406 * X - 1.5372 * Y - 0.4986 * Z,
+    -0.9689 * X + 1.8758 * Y + 0.0415 * Z,
+    0.0557 * X - 0.204 * Y + 1.057 * Z,
+  ];
+  return lin.map((c) => Math.round(255 * Math.min(1, Math.max(0, gammaEncode(c))))) as RGB;
+};
+
+/**
+ * Displayed colour of the film. Raw reflectance is only a few percent, so the
+ * spectrum is scaled by a fixed exposure: the peak reflectance of the same
+ * film seen head-on in unpolarised light, so the brightest first-order white
+ * maps to display white and a black film stays black. Oblique or polarised
+ * light keeps that exposure, so a film near Brewster's angle in p-light goes
+ * dark, as it does on the bench.
+ */
+export const filmColor = (film: FilmParams, options: ColorOptions = DEFAULT_COLOR_OPTIONS): RGB => {
+  const reference = peakReflectance({ ...film, angle: 0, polarization: 'unpolarized' });
+  // An index of 1 reflects nothing at all.
+  if (!(reference > 0)) return [0, 0, 0];
+  return xyzToSRGB(spectrumToXYZ((l) => filmReflectance(l, film) / reference, options));
+};
+
+export const rgbString = ([r, g, b]: RGB) => `rgb(${r}, ${g}, ${b})`;
+
+/** Convenience for callers that only vary thickness. */
+export const interferenceColor = (thickness: number, film: Partial<FilmParams> = {}, options?: ColorOptions) =>
+  rgbString(filmColor({ ...DEFAULT_FILM, ...film, thickness: Math.max(0, thickness) }, options));
+
+/** CSS gradient of the Newton series from 0 to `maxThickness` nm. */
+export const newtonSeriesGradient = (
+  maxThickness: number,
+  film: Partial<FilmParams> = {},
+  options?: ColorOptions,
+  stops = 60,
+) => {
+  const parts: string[] = [];
+  for (let i = 0; i <= stops; i++) {
+    const d = (i / stops) * maxThickness;
+    parts.push(`${interferenceColor(d, film, options)} ${((i / stops) * 100).toFixed(1)}%`);
+  }
+  return `linear-gradient(to right, ${parts.join(', ')})`;
+};
+
+/**
+ * Precomputed colours for thickness 0…maxThickness nm, for callers that shade
+ * many points per frame. Thicknesses between entries snap to the nearest one.
+ */
+export const createColorLookup = (
+  maxThickness: number,
+  step = 2,
+  film: Partial<FilmParams> = {},
+  options?: ColorOptions,
+) => {
+  const table: RGB[] = [];
+  for (let d = 0; d <= maxThickness; d += step) table.push(filmColor({ ...DEFAULT_FILM, ...film, thickness: d }, options));
+  return (thickness: number): RGB =>
+    table[Math.min(table.length - 1, Math.max(0, Math.round(thickness / step)))];
+};
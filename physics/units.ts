@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// SI conventions shared by the physics modules.
+// Lengths the user sees are in millimetres, surface tension in N/m and
+// pressures in pascals; everything is converted to metres before it meets γ.
+
+export const MM = 1e-3;
+
+export const mmToM = (mm: number) => mm * MM;
+export const mToMm = (m: number) => m / MM;
+
+/** 0 °C in kelvin. */
+export const ZERO_CELSIUS = 273.15;
+
+export const celsiusToKelvin = (celsius: number) => celsius + ZERO_CELSIUS;
+export const kelvinToCelsius = (kelvin: number) => kelvin - ZERO_CELSIUS;
+
+/** Scene units per millimetre in the 3D labs (a 12 mm bubble is 1.2 units across). */
+export const SCENE_UNITS_PER_MM = 0.1;
+
+// Readouts re-render every frame, so formatters are built once per locale and precision.
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+/** Fixed decimals, with the locale's separators when one is given. */
+export const formatFixed = (value: number, digits: number, locale?: string) => {
+  if (!locale) return value.toFixed(digits);
+  const key = `${locale}:${digits}`;
+  let format = numberFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+    numberFormats.set(key, format);
+  }
+  return format.format(value);
+};
+
+export const formatLength = (mm: number, locale?: string) => `${formatFixed(mm, mm < 10 ? 2 : 1, locale)} mm`;
+
+export const formatPressure = (pa: number, locale?: string) => {
+  if (Math.abs(pa) >= 1000) return `${formatFixed(pa / 1000, 2, locale)} kPa`;
+  return `${formatFixed(pa, Math.abs(pa) < 10 ? 2 : 1, locale)} Pa`;
+};
+
+/** Surface tension is usually quoted in mN/m in textbooks. */
+export const formatSurfaceTension = (nPerM: number, locale?: string) => `${formatFixed(nPerM * 1000, 1, locale)} mN/m`;
+
+export const formatArea = (mm2: number, locale?: string) =>
+  mm2 >= 100 ? `${formatFixed(mm2 / 100, 2, locale)} cm²` : `${formatFixed(mm2, 0, locale)} mm²`;
+
+export const formatVolume = (mm3: number, locale?: string) =>
+  mm3 >= 1000 ? `${formatFixed(mm3 / 1000, 2, locale)} cm³` : `${formatFixed(mm3, 0, locale)} mm³`;
+
+/** Temperatures are stored in kelvin and shown in °C. */
+export const formatTemperature = (kelvin: number, locale?: string) => `${formatFixed(kelvinToCelsius(kelvin), 0, locale)} °C`;
+
+/** A bubble a few millimetres across holds tens to hundreds of micromoles of gas. */
+export const formatAmount = (mol: number, locale?: string) => `${formatFixed(mol * 1e6, 1, locale)} µmol`;
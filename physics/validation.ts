@@ -0,0 +1,312 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Known results the lab's models should reproduce. Each check runs the same
+// code the experiments use on a case with a closed-form (or independently
+// integrated) answer and compares the two against a tolerance. The analytic
+// helpers are exported too, for the live overlays in validation mode.
+
+import {
+  DEFAULT_CONFIG,
+  createBubbleSystem,
+  createPairSystem,
+  flowRate,
+  laplacePressure,
+  molarFlow,
+  molesFromRadius,
+  pipeConductance,
+  radiusFromMoles,
+  runToCompletion,
+  totalMoles,
+  type BubbleSystemConfig,
+} from './bubbles';
+import { exactSteinerTree, junctionAngles, type Point } from './steiner';
+import { VISIBLE_MAX, VISIBLE_MIN, filmReflectance, type FilmParams } from './thinFilm';
+
+// --- Connected bubbles ---
+
+/**
+ * Final radius (mm) of the surviving bubble of a connected pair. The smaller
+ * bubble empties into the larger one and no gas is lost, so the survivor holds
+ * n₁ + n₂ at its own Laplace pressure. Near sea level that is within 10⁻⁴ of
+ * ∛(r₁³ + r₂³).
+ */
+export const exactPairRadius = (r1: number, r2: number, config: BubbleSystemConfig = DEFAULT_CONFIG) =>
+  radiusFromMoles(molesFromRadius(r1, config) + molesFromRadius(r2, config), config);
+
+/**
+ * Time (s) until the smaller bubble of a pair drops below `minRadius`, from
+ * the same flow law integrated with RK4 at a hundredth of the lab's step.
+ */
+export const referenceCollapseTime = (r1: number, r2: number, config: BubbleSystemConfig = DEFAULT_CONFIG) => {
+  const h = config.timeStep / 100;
+  const conductance = pipeConductance(config);
+  const pressure = (n: number) => laplacePressure(radiusFromMoles(n, config), config.surfaceTension, config.surfaces);
+  const rate = (na: number, nb: number) => {
+    const pa = pressure(na);
+    const pb = pressure(nb);
+    return molarFlow(flowRate(pa, pb, conductance), (pa + pb) / 2, config);
+  };
+  let na = molesFromRadius(r1, config);
+  let nb = molesFromRadius(r2, config);
+  let t = 0;
+  while (Math.min(radiusFromMoles(na, config), radiusFromMoles(nb, config)) >= config.minRadius && t < 600) {
+    const k1 = rate(na, nb);
+    const k2 = rate(na - (h / 2) * k1, nb + (h / 2) * k1);
+    const k3 = rate(na - (h / 2) * k2, nb + (h / 2) * k2);
+    const k4 = rate(na - h * k3, nb + h * k3);
+    const dn = (h / 6) * (k1 + 2 * k2 + 2 * k3 + k4);
+    na -= dn;
+    nb += dn;
+    t += h;
+  }
+  return t;
+};
+
+// --- Steiner networks ---
+
+/** Vertices of a regular polygon with `n` sides of length `side`, centred on `center`. */
+export const regularPolygon = (n: number, side: number, center: Point = { x: 0, y: 0 }): Point[] => {
+  const radius = side / (2 * Math.sin(Math.PI / n));
+  return Array.from({ length: n }, (_, k) => {
+    const a = -Math.PI / 2 + (2 * Math.PI * k) / n;
+    return { x: center.x + radius * Math.cos(a), y: center.y + radius * Math.sin(a) };
+  });
+};
+
+/**
+ * Length of the Steiner minimal tree of a regular n-gon with side `side`:
+ * √3·s for the triangle, (1 + √3)·s for the square, and the perimeter less
+ * one side from the hexagon on (Du, Hwang & Weng). The pentagon has no
+ * closed form; it returns null.
+ */
+export const exactSteinerLength = (n: number, side: number) => {
+  if (n === 3) return Math.sqrt(3) * side;
+  if (n === 4) return (1 + Math.sqrt(3)) * side;
+  if (n >= 6) return (n - 1) * side;
+  return null;
+};
+
+/** Side length if the points are the vertices of a regular polygon (to `tolerance`, relative), else null. */
+export const regularPolygonSide = (points: Point[], tolerance = 0.005) => {
+  const n = points.length;
+  if (n < 3) return null;
+  const c = { x: points.reduce((s, p) => s + p.x, 0) / n, y: points.reduce((s, p) => s + p.y, 0) / n };
+  const ordered = [...points].sort((a, b) => Math.atan2(a.y - c.y, a.x - c.x) - Math.atan2(b.y - c.y, b.x - c.x));
+  const radii = ordered.map((p) => Math.hypot(p.x - c.x, p.y - c.y));
+  const sides = ordered.map((p, k) => {
+    const q = ordered[(k + 1) % n];
+    return Math.hypot(q.x - p.x, q.y - p.y);
+  });
+  const spread = (values: number[]) => {
+    const mean = values.reduce((s, v) => s + v, 0) / values.length;
+    return Math.max(...values.map((v) => Math.abs(v - mean))) / mean;
+  };
+  if (spread(radii) > tolerance || spread(sides) > tolerance) return null;
+  return sides.reduce((s, v) => s + v, 0) / n;
+};
+
+// --- Thin-film reflectance ---
+
+/**
+ * Airy reflectance of a film in air, written out from the textbook
+ * coefficient of finesse: R = F sin²(δ/2) / (1 + F sin²(δ/2)) with
+ * F = 4R₀/(1 − R₀)², R₀ the single-surface Fresnel reflectance and
+ * δ = 4π·n·d·cos θt / λ.
+ */
+export const closedFormReflectance = (wavelength: number, film: FilmParams) => {
+  const n = film.refractiveIndex;
+  const theta = (film.angle * Math.PI) / 180;
+  const cosI = Math.cos(theta);
+  const sinT = Math.sin(theta) / n;
+  const cosT = Math.sqrt(1 - sinT * sinT);
+  const delta = (4 * Math.PI * n * film.thickness * cosT) / wavelength;
+  const s = Math.pow(Math.sin(delta / 2), 2);
+  const airy = (r: number) => {
+    const f = (4 * r * r) / Math.pow(1 - r * r, 2);
+    return (f * s) / (1 + f * s);
+  };
+  const rs = airy((cosI - n * cosT) / (cosI + n * cosT));
+  const rp = airy((n * cosI - cosT) / (n * cosI + cosT));
+  return film.polarization === 's' ? rs : film.polarization === 'p' ? rp : (rs + rp) / 2;
+};
+
+/** Largest |model − closed form| over the visible band. */
+export const reflectanceDeviation = (film: FilmParams, step = 5) => {
+  let worst = 0;
+  for (let l = VISIBLE_MIN; l <= VISIBLE_MAX; l += step) {
+    worst = Math.max(worst, Math.abs(filmReflectance(l, film) - closedFormReflectance(l, film)));
+  }
+  return worst;
+};
+
+// --- Checks ---
+
+export type ValidationCheckId =
+  | 'pairRadius'
+  | 'pairGas'
+  | 'pairTime'
+  | 'networkGas'
+  | 'steinerTriangle'
+  | 'steinerSquare'
+  | 'steinerHexagon'
+  | 'steinerAngles'
+  | 'airyNormal'
+  | 'airyOblique'
+  | 'quarterWave'
+  | 'halfWave';
+
+export interface ValidationCheck {
+  id: ValidationCheckId;
+  /** Tab of the experiment whose model is checked. */
+  experiment: string;
+  unit: string;
+  /** Largest acceptable error: relative to `expected`, or in `unit` when `absolute` is set. */
+  tolerance: number;
+  absolute?: boolean;
+  run: () => { expected: number; actual: number };
+}
+
+export interface ValidationResult {
+  check: ValidationCheck;
+  expected: number;
+  actual: number;
+  error: number;
+  pass: boolean;
+}
+
+const PAIR = { r1: 12, r2: 8 };
+
+// The lab's network preset with the ring closed: four bubbles, four pipes.
+const createNetwork = () =>
+  createBubbleSystem(
+    [{ id: 'A', radius: 9 }, { id: 'B', radius: 6 }, { id: 'C', radius: 7.5 }, { id: 'D', radius: 4.5 }],
+    [
+      { id: 'A-B', from: 'A', to: 'B', open: true },
+      { id: 'B-C', from: 'B', to: 'C', open: true },
+      { id: 'C-D', from: 'C', to: 'D', open: true },
+      { id: 'A-D', from: 'A', to: 'D', open: true },
+    ],
+  );
+
+const steinerCheck = (id: ValidationCheckId, n: number): ValidationCheck => ({
+  id,
+  experiment: 'geometry',
+  unit: '',
+  tolerance: 1e-4,
+  run: () => ({ expected: exactSteinerLength(n, 1)!, actual: exactSteinerTree(regularPolygon(n, 1)).length }),
+});
+
+const film = (thickness: number, angle: number, polarization: FilmParams['polarization']): FilmParams =>
+  ({ thickness, refractiveIndex: 1.33, angle, polarization });
+
+export const VALIDATION_CHECKS: ValidationCheck[] = [
+  {
+    id: 'pairRadius',
+    experiment: 'mechanics',
+    unit: 'mm',
+    // The emptied bubble keeps the sliver of gas below minRadius.
+    tolerance: 0.01,
+    run: () => {
+      const final = runToCompletion(createPairSystem(PAIR.r1, PAIR.r2), 600);
+      return { expected: exactPairRadius(PAIR.r1, PAIR.r2), actual: Math.max(...final.bubbles.map((b) => b.radius)) };
+    },
+  },
+  {
+    id: 'pairGas',
+    experiment: 'mechanics',
+    unit: 'mol',
+    tolerance: 1e-9,
+    run: () => {
+      const start = createPairSystem(PAIR.r1, PAIR.r2);
+      return { expected: totalMoles(start), actual: totalMoles(runToCompletion(start, 600)) };
+    },
+  },
+  {
+    id: 'pairTime',
+    experiment: 'mechanics',
+    unit: 's',
+    tolerance: 0.02,
+    run: () => ({
+      expected: referenceCollapseTime(PAIR.r1, PAIR.r2),
+      actual: runToCompletion(createPairSystem(PAIR.r1, PAIR.r2), 600).time,
+    }),
+  },
+  {
+    id: 'networkGas',
+    experiment: 'mechanics',
+    unit: 'mol',
+    tolerance: 1e-9,
+    run: () => {
+      const start = createNetwork();
+      return { expected: totalMoles(start), actual: totalMoles(runToCompletion(start, 600)) };
+    },
+  },
+  steinerCheck('steinerTriangle', 3),
+  steinerCheck('steinerSquare', 4),
+  steinerCheck('steinerHexagon', 6),
+  {
+    id: 'steinerAngles',
+    experiment: 'geometry',
+    unit: '°',
+    tolerance: 0.1,
+    absolute: true,
+    run: () => {
+      const tree = exactSteinerTree(regularPolygon(4, 1));
+      const angles = tree.nodes.slice(tree.terminalCount).flatMap((_, k) => junctionAngles(tree, tree.terminalCount + k));
+      const degrees = angles.map((a) => (a.angle * 180) / Math.PI);
+      return { expected: 120, actual: degrees.reduce((worst, d) => (Math.abs(d - 120) > Math.abs(worst - 120) ? d : worst), 120) };
+    },
+  },
+  {
+    id: 'airyNormal',
+    experiment: 'optics',
+    unit: '',
+    tolerance: 1e-9,
+    absolute: true,
+    run: () => ({ expected: 0, actual: reflectanceDeviation(film(400, 0, 'unpolarized')) }),
+  },
+  {
+    id: 'airyOblique',
+    experiment: 'optics',
+    unit: '',
+    tolerance: 1e-9,
+    absolute: true,
+    run: () => ({ expected: 0, actual: Math.max(reflectanceDeviation(film(650, 60, 's')), reflectanceDeviation(film(650, 60, 'p'))) }),
+  },
+  {
+    // A quarter-wave film reflects most: ((n² − 1)/(n² + 1))² at normal incidence.
+    id: 'quarterWave',
+    experiment: 'optics',
+    unit: '',
+    tolerance: 1e-9,
+    run: () => {
+      const n = 1.33;
+      return { expected: Math.pow((n * n - 1) / (n * n + 1), 2), actual: filmReflectance(550, film(550 / (4 * n), 0, 'unpolarized')) };
+    },
+  },
+  {
+    // A half-wave film reflects nothing at that wavelength.
+    id: 'halfWave',
+    experiment: 'optics',
+    unit: '',
+    tolerance: 1e-12,
+    absolute: true,
+    run: () => ({ expected: 0, actual: filmReflectance(550, film(550 / (2 * 1.33), 0, 'unpolarized')) }),
+  },
+];
+
+/** Error of `actual` against `expected`: relative, or absolute when the check says so or `expected` is 0. */
+export const validationError = (expected: number, actual: number, absolute = false) =>
+  absolute || expected === 0 ? Math.abs(actual - expected) : Math.abs(actual - expected) / Math.abs(expected);
+
+export const runValidation = (checks: ValidationCheck[] = VALIDATION_CHECKS): ValidationResult[] =>
+  checks.map((check) => {
+    const { expected, actual } = check.run();
+    const error = validationError(expected, actual, check.absolute);
+    return { check, expected, actual, error, pass: error <= check.tolerance };
+  });
+
+export const validationCheck = (id: ValidationCheckId) => VALIDATION_CHECKS.find((c) => c.id === id)!;